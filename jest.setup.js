@@ -0,0 +1,9 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+// config.ts valida o ambiente no import - definir o mínimo antes de qualquer teste
+process.env.NODE_ENV = 'test';
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-jwt-secret-with-at-least-32-characters';
+process.env.API_KEY = process.env.API_KEY || 'test-service-api-key';
+process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'whatsapp-test-'));
@@ -3,6 +3,23 @@ import { z } from 'zod';
 
 dotenv.config();
 
+// Variável com JSON (ex.: template de settings) - erro de parse vira erro de validação
+const jsonObject = (defaultValue: Record<string, unknown>) => z.string().optional().transform((value, ctx) => {
+  if (!value) {
+    return defaultValue;
+  }
+  try {
+    const parsed = JSON.parse(value);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      return parsed as Record<string, unknown>;
+    }
+  } catch {
+    // Tratado abaixo
+  }
+  ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Deve ser um objeto JSON válido' });
+  return z.NEVER;
+});
+
 // Schema de validação para variáveis de ambiente
 const configSchema = z.object({
   // Configurações básicas do servidor
@@ -15,6 +32,38 @@ const configSchema = z.object({
   JWT_SECRET: z.string().min(32, 'JWT_SECRET deve ter pelo menos 32 caracteres'),
   API_KEY: z.string().min(16, 'API_KEY deve ter pelo menos 16 caracteres'),
   REQUIRE_AUTH: z.coerce.boolean().default(true),
+  // Firebase ID Tokens (verificados contra o JWKS do Google; sem FIREBASE_PROJECT_ID são recusados)
+  FIREBASE_PROJECT_ID: z.string().optional(),
+  FIREBASE_JWKS_URL: z.string().url().default('https://www.googleapis.com/service_accounts/v1/jwk/securetoken@system.gserviceaccount.com'),
+  FIREBASE_JWKS_FILE: z.string().optional(), // JWKS local (testes offline) - substitui a URL
+  FIREBASE_JWKS_CACHE_SECONDS: z.coerce.number().min(60).default(3600), // Usado quando não há Cache-Control
+  FIREBASE_PERMISSIONS_CLAIM: z.string().default('permissions'),
+  FIREBASE_DEFAULT_PERMISSIONS: z.string().default('messages:send,messages:read,sessions:read,sessions:write'), // Separadas por vírgula, para tokens sem o claim (mesmo padrão de TENANT_TEMPLATE_PERMISSIONS)
+  
+  // Criação automática de tenants desconhecidos na URL
+  // off: nunca | open: qualquer ID | allowlist: IDs da lista ou do pattern | token: exige X-Provision-Token assinado
+  TENANT_AUTO_PROVISION: z.enum(['off', 'open', 'allowlist', 'token']).default('off'),
+  TENANT_AUTO_PROVISION_ALLOWLIST: z.string().default(''), // IDs separados por vírgula
+  TENANT_AUTO_PROVISION_PATTERN: z.string().optional().refine(value => {
+    if (!value) return true;
+    try {
+      new RegExp(value);
+      return true;
+    } catch {
+      return false;
+    }
+  }, 'TENANT_AUTO_PROVISION_PATTERN deve ser uma regex válida'),
+  TENANT_PROVISION_SECRET: z.string().min(32).optional(), // Assina os provisioning tokens (padrão: JWT_SECRET)
+  // Templates aplicados aos tenants criados automaticamente
+  TENANT_TEMPLATE_NAME: z.string().default('LocAI Tenant {id}'), // {id} = 8 primeiros caracteres do ID
+  TENANT_TEMPLATE_SETTINGS: jsonObject({
+    maxSessions: 5,
+    rateLimit: {
+      windowMs: 15 * 60 * 1000, // 15 minutos
+      max: 100
+    }
+  }),
+  TENANT_TEMPLATE_PERMISSIONS: z.string().default('messages:send,messages:read,sessions:read,sessions:write'), // Separadas por vírgula
   
   // CORS
   ALLOWED_ORIGINS: z.string().default('*'),
@@ -26,7 +75,19 @@ const configSchema = z.object({
   WHATSAPP_SESSION_DIR: z.string().default('./sessions'),
   WHATSAPP_TIMEOUT: z.coerce.number().default(60000), // 60 segundos
   QR_TIMEOUT: z.coerce.number().default(120000), // 2 minutos
+  PAIRING_CODE_TIMEOUT_MS: z.coerce.number().default(20000), // Espera pelo código no POST /start
   MAX_RECONNECT_ATTEMPTS: z.coerce.number().default(5),
+  // Reconectar no boot as sessões com credenciais salvas (coerce.boolean trataria "false" como true)
+  SESSION_AUTO_RESTORE: z.enum(['true', 'false']).default('true').transform(value => value === 'true'),
+  SESSION_RESTORE_CONCURRENCY: z.coerce.number().min(1).default(3),
+  SESSION_RESTORE_TIMEOUT_MS: z.coerce.number().min(1000).default(30000),
+  // Onde ficam as credenciais Baileys: pasta local, Postgres (DATABASE_URL) ou DO Spaces (DO_SPACES_*)
+  AUTH_STATE_STORE: z.enum(['filesystem', 'sql', 's3']).default('filesystem'),
+  AUTH_STATE_S3_PREFIX: z.string().default('whatsapp-sessions'),
+  
+  // Fila de envio
+  SEND_QUEUE_MAX_ATTEMPTS: z.coerce.number().default(5),
+  SEND_QUEUE_RETENTION_HOURS: z.coerce.number().default(24),
   
   // Webhooks para notificar o LocAI
   LOCAI_WEBHOOK_URL: z.string().url().optional(),
@@ -35,6 +96,10 @@ const configSchema = z.object({
   // Rate limiting
   RATE_LIMIT_WINDOW: z.coerce.number().default(15 * 60 * 1000), // 15 minutos
   RATE_LIMIT_MAX: z.coerce.number().default(100),
+  // Cota padrão de mensagens enviadas por tenant (0 = sem limite) - settings.quotas do tenant sobrescreve
+  MESSAGE_QUOTA_PER_MINUTE: z.coerce.number().min(0).default(0),
+  MESSAGE_QUOTA_PER_DAY: z.coerce.number().min(0).default(0),
+  MESSAGE_QUOTA_PER_MONTH: z.coerce.number().min(0).default(0),
   
   // File upload
   MAX_FILE_SIZE: z.coerce.number().default(10 * 1024 * 1024), // 10MB
@@ -49,6 +114,8 @@ const configSchema = z.object({
   
   // Database (opcional, para persistir dados)
   DATABASE_URL: z.string().optional(),
+  DATA_DIR: z.string().default('./data'), // Persistência em arquivo quando não há DATABASE_URL
+  MESSAGE_RETENTION_DAYS: z.coerce.number().int().min(0).default(0), // Histórico em arquivo; 0 = sem limite
   
   // DigitalOcean específico
   DO_SPACES_ENDPOINT: z.string().optional(),
@@ -56,12 +123,26 @@ const configSchema = z.object({
   DO_SPACES_SECRET_KEY: z.string().optional(),
   DO_SPACES_BUCKET: z.string().optional(),
   
+  // Mídias recebidas (local em DATA_DIR/media ou DO Spaces)
+  MEDIA_STORAGE: z.enum(['local', 'spaces']).optional(), // Padrão: spaces se DO_SPACES_BUCKET estiver configurado
+  MEDIA_URL_TTL_SECONDS: z.coerce.number().min(60).max(604800).default(86400),
+  MEDIA_MAX_SIZE_MB: z.coerce.number().default(50),
+  
   // Transcrição de áudio
   TRANSCRIPTION_ENABLED: z.coerce.boolean().default(false),
   TRANSCRIPTION_PROVIDER: z.enum(['openai', 'google', 'local']).default('openai'),
   TRANSCRIPTION_API_KEY: z.string().optional(),
   TRANSCRIPTION_MODEL: z.string().default('whisper-1'),
   TRANSCRIPTION_LANGUAGE: z.string().default('pt'),
+  
+  // Whisper local (TRANSCRIPTION_PROVIDER=local) via whisper.cpp
+  WHISPER_CPP_BIN: z.string().default('whisper-cli'),
+  WHISPER_CPP_MODEL: z.string().optional(), // Ex: /opt/whisper/models/ggml-base.bin
+  WHISPER_CPP_THREADS: z.coerce.number().min(1).default(2),
+  WHISPER_CPP_TIMEOUT_MS: z.coerce.number().default(120000),
+  FFMPEG_PATH: z.string().default('ffmpeg'),
+  // Envio de áudio: conversão para OGG/Opus (PTT) e cálculo de duração/waveform
+  AUDIO_CONVERSION_TIMEOUT_MS: z.coerce.number().default(60000),
 });
 
 // Validar e carregar configurações
@@ -74,6 +155,20 @@ const rawConfig = {
   JWT_SECRET: process.env.JWT_SECRET,
   API_KEY: process.env.API_KEY || process.env.WHATSAPP_API_KEY,
   REQUIRE_AUTH: process.env.REQUIRE_AUTH,
+  FIREBASE_PROJECT_ID: process.env.FIREBASE_PROJECT_ID,
+  FIREBASE_JWKS_URL: process.env.FIREBASE_JWKS_URL,
+  FIREBASE_JWKS_FILE: process.env.FIREBASE_JWKS_FILE,
+  FIREBASE_JWKS_CACHE_SECONDS: process.env.FIREBASE_JWKS_CACHE_SECONDS,
+  FIREBASE_PERMISSIONS_CLAIM: process.env.FIREBASE_PERMISSIONS_CLAIM,
+  FIREBASE_DEFAULT_PERMISSIONS: process.env.FIREBASE_DEFAULT_PERMISSIONS,
+  
+  TENANT_AUTO_PROVISION: process.env.TENANT_AUTO_PROVISION,
+  TENANT_AUTO_PROVISION_ALLOWLIST: process.env.TENANT_AUTO_PROVISION_ALLOWLIST,
+  TENANT_AUTO_PROVISION_PATTERN: process.env.TENANT_AUTO_PROVISION_PATTERN,
+  TENANT_PROVISION_SECRET: process.env.TENANT_PROVISION_SECRET,
+  TENANT_TEMPLATE_NAME: process.env.TENANT_TEMPLATE_NAME,
+  TENANT_TEMPLATE_SETTINGS: process.env.TENANT_TEMPLATE_SETTINGS,
+  TENANT_TEMPLATE_PERMISSIONS: process.env.TENANT_TEMPLATE_PERMISSIONS,
   
   ALLOWED_ORIGINS: process.env.ALLOWED_ORIGINS,
   
@@ -82,13 +177,25 @@ const rawConfig = {
   WHATSAPP_SESSION_DIR: process.env.WHATSAPP_SESSION_DIR,
   WHATSAPP_TIMEOUT: process.env.WHATSAPP_TIMEOUT,
   QR_TIMEOUT: process.env.QR_TIMEOUT,
+  PAIRING_CODE_TIMEOUT_MS: process.env.PAIRING_CODE_TIMEOUT_MS,
   MAX_RECONNECT_ATTEMPTS: process.env.MAX_RECONNECT_ATTEMPTS,
+  SESSION_AUTO_RESTORE: process.env.SESSION_AUTO_RESTORE,
+  SESSION_RESTORE_CONCURRENCY: process.env.SESSION_RESTORE_CONCURRENCY,
+  SESSION_RESTORE_TIMEOUT_MS: process.env.SESSION_RESTORE_TIMEOUT_MS,
+  AUTH_STATE_STORE: process.env.AUTH_STATE_STORE,
+  AUTH_STATE_S3_PREFIX: process.env.AUTH_STATE_S3_PREFIX,
+  
+  SEND_QUEUE_MAX_ATTEMPTS: process.env.SEND_QUEUE_MAX_ATTEMPTS,
+  SEND_QUEUE_RETENTION_HOURS: process.env.SEND_QUEUE_RETENTION_HOURS,
   
   LOCAI_WEBHOOK_URL: process.env.LOCAI_WEBHOOK_URL,
   LOCAI_WEBHOOK_SECRET: process.env.LOCAI_WEBHOOK_SECRET,
   
   RATE_LIMIT_WINDOW: process.env.RATE_LIMIT_WINDOW,
   RATE_LIMIT_MAX: process.env.RATE_LIMIT_MAX,
+  MESSAGE_QUOTA_PER_MINUTE: process.env.MESSAGE_QUOTA_PER_MINUTE,
+  MESSAGE_QUOTA_PER_DAY: process.env.MESSAGE_QUOTA_PER_DAY,
+  MESSAGE_QUOTA_PER_MONTH: process.env.MESSAGE_QUOTA_PER_MONTH,
   
   MAX_FILE_SIZE: process.env.MAX_FILE_SIZE,
   UPLOAD_DIR: process.env.UPLOAD_DIR,
@@ -99,17 +206,30 @@ const rawConfig = {
   CACHE_TTL: process.env.CACHE_TTL,
   
   DATABASE_URL: process.env.DATABASE_URL,
+  DATA_DIR: process.env.DATA_DIR,
+  MESSAGE_RETENTION_DAYS: process.env.MESSAGE_RETENTION_DAYS,
   
   DO_SPACES_ENDPOINT: process.env.DO_SPACES_ENDPOINT,
   DO_SPACES_ACCESS_KEY: process.env.DO_SPACES_ACCESS_KEY,
   DO_SPACES_SECRET_KEY: process.env.DO_SPACES_SECRET_KEY,
   DO_SPACES_BUCKET: process.env.DO_SPACES_BUCKET,
   
+  MEDIA_STORAGE: process.env.MEDIA_STORAGE,
+  MEDIA_URL_TTL_SECONDS: process.env.MEDIA_URL_TTL_SECONDS,
+  MEDIA_MAX_SIZE_MB: process.env.MEDIA_MAX_SIZE_MB,
+  
   TRANSCRIPTION_ENABLED: process.env.TRANSCRIPTION_ENABLED,
   TRANSCRIPTION_PROVIDER: process.env.TRANSCRIPTION_PROVIDER,
   TRANSCRIPTION_API_KEY: process.env.TRANSCRIPTION_API_KEY,
   TRANSCRIPTION_MODEL: process.env.TRANSCRIPTION_MODEL,
   TRANSCRIPTION_LANGUAGE: process.env.TRANSCRIPTION_LANGUAGE,
+  
+  WHISPER_CPP_BIN: process.env.WHISPER_CPP_BIN,
+  WHISPER_CPP_MODEL: process.env.WHISPER_CPP_MODEL,
+  WHISPER_CPP_THREADS: process.env.WHISPER_CPP_THREADS,
+  WHISPER_CPP_TIMEOUT_MS: process.env.WHISPER_CPP_TIMEOUT_MS,
+  FFMPEG_PATH: process.env.FFMPEG_PATH,
+  AUDIO_CONVERSION_TIMEOUT_MS: process.env.AUDIO_CONVERSION_TIMEOUT_MS,
 };
 
 // Parsear e validar configurações
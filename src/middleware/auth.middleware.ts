@@ -1,100 +1,156 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
 import { config } from '../config/config';
+import { TenantManager } from '../services/tenant.service';
+import { isFirebaseIdToken, verifyFirebaseIdToken } from '../utils/firebase-auth';
 
 export interface AuthenticatedRequest extends Request {
   tenantId?: string;
   permissions?: string[];
+  isAdmin?: boolean;
+  apiKeyId?: string;
 }
 
-export function authMiddleware(req: AuthenticatedRequest, res: Response, next: NextFunction): void {
-  // Pular autenticação em desenvolvimento se configurado
-  if (!config.REQUIRE_AUTH && config.IS_DEVELOPMENT) {
-    req.tenantId = 'default';
-    req.permissions = ['*'];
-    return next();
+export interface AuthContext {
+  tenantId: string;
+  permissions: string[];
+  isAdmin?: boolean; // Apenas a API key do serviço
+  apiKeyId?: string; // Preenchido quando autenticado por API key do tenant
+}
+
+// Comparar via hash para não vazar tamanho nem conteúdo pelo tempo de resposta
+function safeEqual(a: string, b: string): boolean {
+  const hashA = crypto.createHash('sha256').update(a).digest();
+  const hashB = crypto.createHash('sha256').update(b).digest();
+  return crypto.timingSafeEqual(hashA, hashB);
+}
+
+/**
+ * Validar o token (API key do serviço, API key do tenant, Firebase ID Token ou JWT do serviço)
+ * Usado pelo middleware HTTP e pelo gateway WebSocket
+ * Retorna null para token não reconhecido; erros do jsonwebtoken (expirado, malformado) são lançados
+ */
+export async function authenticateToken(tenantManager: TenantManager, token: string, requestedTenantId?: string): Promise<AuthContext | null> {
+  // Verificar se é a API key do serviço
+  if (safeEqual(token, config.API_KEY)) {
+    // API key válida - acesso total
+    return { tenantId: requestedTenantId || 'default', permissions: ['*'], isAdmin: true };
   }
 
-  const authHeader = req.headers.authorization;
-  const token = authHeader && authHeader.startsWith('Bearer ') 
-    ? authHeader.slice(7) 
-    : null;
+  // API key do tenant - acesso restrito ao próprio tenant e ao escopo da key
+  const apiKey = tenantManager.verifyApiKey(token);
+  if (apiKey) {
+    return { tenantId: apiKey.tenantId, permissions: apiKey.permissions, apiKeyId: apiKey.id };
+  }
 
-  if (!token) {
-    res.status(401).json({
-      success: false,
-      error: 'Authentication required',
-      message: 'Bearer token missing in Authorization header',
-      timestamp: new Date().toISOString()
-    });
-    return;
+  // Verificar Firebase ID Token (assinatura, audience e issuer)
+  if (token.includes('.') && isFirebaseIdToken(token)) {
+    const identity = await verifyFirebaseIdToken(token);
+    return identity
+      ? { tenantId: identity.tenantId, permissions: identity.permissions } // Firebase UID (ou claim tenantId) como tenant ID
+      : null;
   }
 
-  try {
-    // Verificar se é API key
-    if (token === config.API_KEY) {
-      // API key válida - acesso total
-      req.tenantId = req.headers['x-tenant-id'] as string || 'default';
-      req.permissions = ['*'];
-      return next();
-    }
+  // Tentar verificar como JWT personalizado (fallback)
+  const decoded = jwt.verify(token, config.JWT_SECRET) as any;
+  
+  if (decoded.type === 'tenant_access' && decoded.tenantId) {
+    return { tenantId: decoded.tenantId, permissions: decoded.permissions || [] };
+  }
 
-    // Verificar Firebase ID Token
-    if (token.includes('.')) {
-      // Token JWT format - assumir que é Firebase ID Token
-      // Para simplificar, extrair uid do token sem verificação completa (temporário)
-      try {
-        const decoded = jwt.decode(token) as any;
-        if (decoded && decoded.sub && decoded.firebase) {
-          req.tenantId = decoded.sub; // Firebase UID como tenant ID
-          req.permissions = ['*'];
-          return next();
-        }
-      } catch {
-        // Continuar para verificação como JWT personalizado
-      }
-    }
+  return null;
+}
 
-    // Tentar verificar como JWT personalizado (fallback)
-    const decoded = jwt.verify(token, config.JWT_SECRET) as any;
-    
-    if (decoded.type === 'tenant_access' && decoded.tenantId) {
-      req.tenantId = decoded.tenantId;
-      req.permissions = decoded.permissions || [];
+export function authMiddleware(tenantManager: TenantManager) {
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+    // Pular autenticação em desenvolvimento se configurado
+    if (!config.REQUIRE_AUTH && config.IS_DEVELOPMENT) {
+      req.tenantId = 'default';
+      req.permissions = ['*'];
+      req.isAdmin = true;
       return next();
     }
 
-    // Token inválido
-    res.status(401).json({
-      success: false,
-      error: 'Invalid token',
-      message: 'Token is not valid or expired',
-      timestamp: new Date().toISOString()
-    });
+    const authHeader = req.headers.authorization;
+    // EventSource do browser não envia headers: streams SSE aceitam ?access_token=
+    const queryToken = req.headers.accept?.includes('text/event-stream') && typeof req.query.access_token === 'string'
+      ? req.query.access_token
+      : null;
+    const token = authHeader && authHeader.startsWith('Bearer ') 
+      ? authHeader.slice(7) 
+      : queryToken;
 
-  } catch (error: unknown) {
-    const err = error as Error;
-    if (err.name === 'TokenExpiredError') {
+    if (!token) {
       res.status(401).json({
         success: false,
-        error: 'Token expired',
-        message: 'Authentication token has expired',
+        error: 'Authentication required',
+        message: 'Bearer token missing in Authorization header',
         timestamp: new Date().toISOString()
       });
-    } else if (err.name === 'JsonWebTokenError') {
+      return;
+    }
+
+    try {
+      const auth = await authenticateToken(tenantManager, token, req.headers['x-tenant-id'] as string);
+      if (auth) {
+        req.tenantId = auth.tenantId;
+        req.permissions = auth.permissions;
+        req.isAdmin = !!auth.isAdmin;
+        req.apiKeyId = auth.apiKeyId;
+        return next();
+      }
+
+      // Token inválido
       res.status(401).json({
         success: false,
         error: 'Invalid token',
-        message: 'Authentication token is malformed',
-        timestamp: new Date().toISOString()
-      });
-    } else {
-      res.status(500).json({
-        success: false,
-        error: 'Authentication error',
-        message: 'Failed to verify authentication token',
+        message: 'Token is not valid or expired',
         timestamp: new Date().toISOString()
       });
+
+    } catch (error: unknown) {
+      const err = error as Error;
+      if (err.name === 'TokenExpiredError') {
+        res.status(401).json({
+          success: false,
+          error: 'Token expired',
+          message: 'Authentication token has expired',
+          timestamp: new Date().toISOString()
+        });
+      } else if (err.name === 'JsonWebTokenError') {
+        res.status(401).json({
+          success: false,
+          error: 'Invalid token',
+          message: 'Authentication token is malformed',
+          timestamp: new Date().toISOString()
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Authentication error',
+          message: 'Failed to verify authentication token',
+          timestamp: new Date().toISOString()
+        });
+      }
     }
+  };
+}
+
+/**
+ * Restringir rotas internas, de debug e administrativas (/api/admin) à API key do serviço
+ * Usar depois do authMiddleware
+ */
+export function requireAdmin(req: AuthenticatedRequest, res: Response, next: NextFunction): void {
+  if (!req.isAdmin) {
+    res.status(403).json({
+      success: false,
+      error: 'Admin access required',
+      message: 'This endpoint requires the service API key',
+      timestamp: new Date().toISOString()
+    });
+    return;
   }
-}
\ No newline at end of file
+
+  next();
+}
@@ -5,6 +5,7 @@ export interface AppError extends Error {
   statusCode?: number;
   isOperational?: boolean;
   code?: string;
+  retryAfter?: number; // Segundos - vira o header Retry-After
 }
 
 export function errorHandler(logger: Logger) {
@@ -54,7 +55,7 @@ export function errorHandler(logger: Logger) {
     } else if (err.name === 'TooManyRequestsError') {
       statusCode = 429;
       errorType = 'RATE_LIMIT_EXCEEDED';
-      message = 'Too many requests';
+      message = err.message || 'Too many requests';
     }
 
     // Preparar resposta de erro
@@ -66,6 +67,11 @@ export function errorHandler(logger: Logger) {
       requestId: req.id || generateRequestId()
     };
 
+    if (err.retryAfter) {
+      errorResponse.retryAfter = err.retryAfter;
+      res.set('Retry-After', String(err.retryAfter));
+    }
+
     // Adicionar detalhes em desenvolvimento
     if (process.env.NODE_ENV === 'development') {
       errorResponse.stack = err.stack;
@@ -171,7 +177,7 @@ export class TooManyRequestsError extends Error {
   isOperational = true;
   code = 'RATE_LIMIT_EXCEEDED';
   
-  constructor(message: string = 'Too many requests') {
+  constructor(message: string = 'Too many requests', public retryAfter?: number) {
     super(message);
     this.name = 'TooManyRequestsError';
   }
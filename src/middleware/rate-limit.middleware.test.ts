@@ -0,0 +1,90 @@
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import pino from 'pino';
+import jwt from 'jsonwebtoken';
+import { config } from '../config/config';
+import { TenantManager } from '../services/tenant.service';
+import { QuotaService } from '../services/quota.service';
+import { authMiddleware } from './auth.middleware';
+import { validateTenantAccess } from './tenant.middleware';
+import { tenantRateLimit } from './rate-limit.middleware';
+import { errorHandler } from './error.middleware';
+
+describe('tenantRateLimit', () => {
+  const logger = pino({ level: 'silent' });
+  let tenantManager: TenantManager;
+  let quotaService: QuotaService;
+  let server: Server;
+  let baseUrl: string;
+
+  const tenantToken = (tenantId: string) =>
+    jwt.sign({ type: 'tenant_access', tenantId, permissions: ['*'] }, config.JWT_SECRET);
+
+  const post = (path: string, token: string, body: unknown = {}) =>
+    fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      body: JSON.stringify(body)
+    });
+
+  beforeAll(async () => {
+    tenantManager = new TenantManager(logger);
+    for (const id of ['limited-a', 'limited-b']) {
+      await tenantManager.createTenant({
+        id,
+        name: id,
+        settings: { maxSessions: 1, rateLimit: { windowMs: 60000, max: 2 } },
+        status: 'active'
+      });
+      await tenantManager.createTenantAuth(id, { permissions: ['*'] });
+    }
+    quotaService = new QuotaService(logger, tenantManager);
+
+    const limit = tenantRateLimit(tenantManager, quotaService);
+    const ok = (req: express.Request, res: express.Response) => res.json({ success: true });
+    const app = express();
+    app.use(express.json());
+    app.use(authMiddleware(tenantManager));
+    app.post('/send', limit, ok);
+    app.post('/:tenantId/send', validateTenantAccess(tenantManager, ['messages:send']), limit, ok);
+    app.use(errorHandler(logger));
+
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await quotaService.shutdown();
+    await tenantManager.shutdown();
+  });
+
+  it('returns 429 with Retry-After once the tenant window is used up', async () => {
+    const token = tenantToken('limited-a');
+
+    const first = await post('/limited-a/send', token);
+    expect(first.status).toBe(200);
+    expect(first.headers.get('ratelimit-remaining')).toBe('1');
+    expect((await post('/limited-a/send', token)).status).toBe(200);
+
+    const blocked = await post('/limited-a/send', token);
+    expect(blocked.status).toBe(429);
+    expect(Number(blocked.headers.get('retry-after'))).toBeGreaterThan(0);
+  });
+
+  it('does not charge a tenant named in the body', async () => {
+    const usageBefore = await quotaService.getUsage('limited-b');
+
+    await post('/send', tenantToken('limited-a'), { tenantId: 'limited-b' });
+
+    expect((await quotaService.getUsage('limited-b')).requests.used).toBe(usageBefore.requests.used);
+  });
+
+  it('does not charge the URL tenant when tenant validation fails', async () => {
+    const response = await post('/limited-b/send', tenantToken('limited-a'));
+
+    expect(response.status).toBe(403);
+    expect((await quotaService.getUsage('limited-b')).requests.used).toBe(0);
+  });
+});
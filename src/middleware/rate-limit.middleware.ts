@@ -0,0 +1,46 @@
+import { Response, NextFunction } from 'express';
+import { TenantManager } from '../services/tenant.service';
+import { QuotaService } from '../services/quota.service';
+import { AuthenticatedRequest } from './auth.middleware';
+import { TooManyRequestsError } from './error.middleware';
+
+/**
+ * Limite de requisições por tenant (settings.rateLimit ou RATE_LIMIT_WINDOW/RATE_LIMIT_MAX)
+ * Usar depois do validateTenantAccess: a contagem vai para req.tenantId (tenant já validado contra o token),
+ * nunca para um tenantId informado no body
+ */
+export function tenantRateLimit(tenantManager: TenantManager, quotaService: QuotaService) {
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const tenantId = req.tenantId;
+      if (!tenantId || !(await tenantManager.getTenant(tenantId))) {
+        return next();
+      }
+
+      const state = await quotaService.consumeRequest(tenantId);
+      const resetSeconds = Math.max(1, Math.ceil((state.resetAt.getTime() - Date.now()) / 1000));
+
+      res.set({
+        'RateLimit-Limit': String(state.limit),
+        'RateLimit-Remaining': String(state.remaining),
+        'RateLimit-Reset': String(resetSeconds)
+      });
+
+      if (!state.allowed) {
+        console.log('🚫 [RateLimit] Tenant request limit exceeded', {
+          tenantId: tenantId.substring(0, 8) + '***',
+          limit: state.limit,
+          windowMs: state.windowMs
+        });
+        return next(new TooManyRequestsError(
+          `Tenant request limit exceeded (${state.limit} per ${Math.round(state.windowMs / 1000)}s)`,
+          resetSeconds
+        ));
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,170 @@
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import pino from 'pino';
+import jwt from 'jsonwebtoken';
+import { config } from '../config/config';
+import { TenantManager } from '../services/tenant.service';
+import { authMiddleware } from './auth.middleware';
+import { validateTenantAccess, resolveTenant } from './tenant.middleware';
+
+describe('validateTenantAccess', () => {
+  let tenantManager: TenantManager;
+  let server: Server;
+  let baseUrl: string;
+
+  const get = (tenantId: string, token?: string, headers: Record<string, string> = {}) =>
+    fetch(`${baseUrl}/${tenantId}/resource`, {
+      headers: { ...headers, ...(token && { Authorization: `Bearer ${token}` }) }
+    });
+
+  beforeAll(async () => {
+    tenantManager = new TenantManager(pino({ level: 'silent' }));
+    for (const id of ['tenant-a', 'tenant-b']) {
+      await tenantManager.createTenant({ id, name: id, settings: { maxSessions: 1 }, status: 'active' });
+      await tenantManager.createTenantAuth(id, { permissions: ['*'] });
+    }
+
+    const app = express();
+    app.use(authMiddleware(tenantManager));
+    app.get('/:tenantId/resource', validateTenantAccess(tenantManager, ['messages:read']), (req: any, res) => {
+      res.json({ tenantId: req.tenantId });
+    });
+
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await tenantManager.shutdown();
+  });
+
+  it('rejects requests without a token', async () => {
+    expect((await get('tenant-a')).status).toBe(401);
+  });
+
+  it('lets the service API key act on any tenant', async () => {
+    const response = await get('tenant-b', config.API_KEY);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ tenantId: 'tenant-b' });
+  });
+
+  it('pins the service API key to X-Tenant-ID when the header is sent', async () => {
+    expect((await get('tenant-a', config.API_KEY, { 'X-Tenant-ID': 'tenant-a' })).status).toBe(200);
+    expect((await get('tenant-b', config.API_KEY, { 'X-Tenant-ID': 'tenant-a' })).status).toBe(403);
+  });
+
+  it('does not let default tenant tokens reach other tenants', async () => {
+    const token = jwt.sign({ type: 'tenant_access', tenantId: 'default', permissions: ['*'] }, config.JWT_SECRET);
+
+    expect((await get('tenant-a', token)).status).toBe(403);
+    expect((await get('default', token)).status).toBe(200);
+  });
+
+  it('does not let tenant API keys reach other tenants', async () => {
+    const { key } = await tenantManager.createApiKey('tenant-a', { name: 'scoped', permissions: ['messages:read'] });
+
+    expect((await get('tenant-a', key)).status).toBe(200);
+    expect((await get('tenant-b', key)).status).toBe(403);
+  });
+
+  it('enforces the API key scope', async () => {
+    const { key } = await tenantManager.createApiKey('tenant-a', { name: 'sender', permissions: ['messages:send'] });
+
+    expect((await get('tenant-a', key)).status).toBe(403);
+  });
+});
+
+describe('resolveTenant auto-provisioning', () => {
+  let tenantManager: TenantManager;
+  let tenantCount = 0;
+
+  // config é lido no import - carregar o middleware com a política de cada teste
+  const loadResolveTenant = (env: Record<string, string>): typeof resolveTenant => {
+    let resolve: typeof resolveTenant;
+    Object.assign(process.env, env);
+    jest.isolateModules(() => {
+      resolve = require('./tenant.middleware').resolveTenant;
+    });
+    for (const key of Object.keys(env)) {
+      delete process.env[key];
+    }
+    return resolve!;
+  };
+
+  const newTenantId = () => `provisioned-${++tenantCount}`;
+
+  beforeAll(() => {
+    tenantManager = new TenantManager(pino({ level: 'silent' }));
+  });
+
+  afterAll(async () => {
+    await tenantManager.shutdown();
+  });
+
+  it('does not create unknown tenants when off', async () => {
+    const resolve = loadResolveTenant({ TENANT_AUTO_PROVISION: 'off' });
+    const tenantId = newTenantId();
+
+    await expect(resolve(tenantManager, tenantId)).resolves.toBeNull();
+    await expect(tenantManager.getTenant(tenantId)).resolves.toBeNull();
+  });
+
+  it('creates any tenant with least-privilege permissions when open', async () => {
+    const resolve = loadResolveTenant({ TENANT_AUTO_PROVISION: 'open' });
+    const tenantId = newTenantId();
+
+    await expect(resolve(tenantManager, tenantId)).resolves.toMatchObject({ id: tenantId, status: 'active' });
+    expect(tenantManager.getTenantAuth(tenantId)?.permissions).toEqual([
+      'messages:send', 'messages:read', 'sessions:read', 'sessions:write'
+    ]);
+  });
+
+  it('creates only listed or matching tenants in allowlist mode', async () => {
+    const resolve = loadResolveTenant({
+      TENANT_AUTO_PROVISION: 'allowlist',
+      TENANT_AUTO_PROVISION_ALLOWLIST: 'listed-tenant',
+      TENANT_AUTO_PROVISION_PATTERN: '^locai-[a-z0-9]{8}$'
+    });
+
+    await expect(resolve(tenantManager, 'listed-tenant')).resolves.toMatchObject({ id: 'listed-tenant' });
+    await expect(resolve(tenantManager, 'locai-abcd1234')).resolves.toMatchObject({ id: 'locai-abcd1234' });
+    await expect(resolve(tenantManager, 'locai-abcd1234-extra')).resolves.toBeNull();
+    await expect(resolve(tenantManager, newTenantId())).resolves.toBeNull();
+  });
+
+  describe('token mode', () => {
+    const provisionSecret = 'test-provision-secret-with-32-characters';
+    let resolve: typeof resolveTenant;
+
+    const provisionToken = (tenantId: string, secret = provisionSecret, type = 'tenant_provision') =>
+      jwt.sign({ type, tenantId }, secret, { expiresIn: '10m' });
+
+    beforeAll(() => {
+      resolve = loadResolveTenant({ TENANT_AUTO_PROVISION: 'token', TENANT_PROVISION_SECRET: provisionSecret });
+    });
+
+    it('creates the tenant named in a valid token', async () => {
+      const tenantId = newTenantId();
+
+      await expect(resolve(tenantManager, tenantId, provisionToken(tenantId))).resolves.toMatchObject({ id: tenantId });
+    });
+
+    it('rejects a token minted for a different tenant', async () => {
+      const tenantId = newTenantId();
+
+      await expect(resolve(tenantManager, tenantId, provisionToken('another-tenant'))).resolves.toBeNull();
+      await expect(tenantManager.getTenant(tenantId)).resolves.toBeNull();
+    });
+
+    it('rejects missing, wrongly signed and non-provisioning tokens', async () => {
+      const tenantId = newTenantId();
+
+      await expect(resolve(tenantManager, tenantId)).resolves.toBeNull();
+      await expect(resolve(tenantManager, tenantId, provisionToken(tenantId, config.JWT_SECRET))).resolves.toBeNull();
+      await expect(resolve(tenantManager, tenantId, provisionToken(tenantId, provisionSecret, 'tenant_access'))).resolves.toBeNull();
+    });
+  });
+});
@@ -1,12 +1,99 @@
 import { Request, Response, NextFunction } from 'express';
-import { TenantManager } from '../services/tenant.service';
+import jwt from 'jsonwebtoken';
+import { config } from '../config/config';
+import { TenantManager, Tenant } from '../services/tenant.service';
 import { AuthenticatedRequest } from './auth.middleware';
 
+const autoProvisionAllowlist = new Set(
+  config.TENANT_AUTO_PROVISION_ALLOWLIST.split(',').map(id => id.trim()).filter(Boolean)
+);
+const autoProvisionPattern = config.TENANT_AUTO_PROVISION_PATTERN
+  ? new RegExp(config.TENANT_AUTO_PROVISION_PATTERN)
+  : null;
+
+interface ProvisionTokenPayload extends jwt.JwtPayload {
+  type?: string;
+  tenantId?: string;
+}
+
+/**
+ * Política TENANT_AUTO_PROVISION para um tenant desconhecido
+ * No modo token, o X-Provision-Token deve ser um JWT { type: 'tenant_provision', tenantId } assinado com TENANT_PROVISION_SECRET
+ */
+function canAutoProvision(tenantId: string, provisionToken?: string): boolean {
+  switch (config.TENANT_AUTO_PROVISION) {
+    case 'open':
+      return true;
+    case 'allowlist':
+      return autoProvisionAllowlist.has(tenantId) || !!autoProvisionPattern?.test(tenantId);
+    case 'token': {
+      if (!provisionToken) {
+        return false;
+      }
+      try {
+        const decoded = jwt.verify(provisionToken, config.TENANT_PROVISION_SECRET || config.JWT_SECRET) as ProvisionTokenPayload | string;
+        return typeof decoded !== 'string' && decoded.type === 'tenant_provision' && decoded.tenantId === tenantId;
+      } catch (error) {
+        console.log('⚠️ [Tenant] Invalid provisioning token', {
+          tenantId: tenantId.substring(0, 8) + '***',
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+        return false;
+      }
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Buscar o tenant, criando automaticamente se a política permitir (compatibilidade com LocAI)
+ * Retorna null para tenant inexistente que não pode ser criado
+ * Usado pelo middleware HTTP e pelo gateway WebSocket
+ */
+export async function resolveTenant(tenantManager: TenantManager, tenantId: string, provisionToken?: string): Promise<Tenant | null> {
+  const existing = await tenantManager.getTenant(tenantId);
+  if (existing) {
+    return existing;
+  }
+
+  if (!canAutoProvision(tenantId, provisionToken)) {
+    return null;
+  }
+
+  // Settings e permissões vêm dos templates TENANT_TEMPLATE_*
+  const tenant = await tenantManager.createTenant({
+    id: tenantId,
+    name: config.TENANT_TEMPLATE_NAME.replace('{id}', tenantId.substring(0, 8)),
+    settings: JSON.parse(JSON.stringify(config.TENANT_TEMPLATE_SETTINGS)),
+    status: 'active'
+  });
+
+  await tenantManager.createTenantAuth(tenantId, {
+    permissions: config.TENANT_TEMPLATE_PERMISSIONS.split(',').map(permission => permission.trim()).filter(Boolean)
+  });
+
+  console.log('Tenant auto-created', { tenantId, name: tenant.name, mode: config.TENANT_AUTO_PROVISION });
+
+  return tenant;
+}
+
 export function validateTenantAccess(tenantManager: TenantManager, requiredPermissions: string[] = []) {
   return async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
     try {
+      // Sem authMiddleware antes (rota montada sem requireAuth) nunca liberar o tenant
+      if (!req.permissions) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+          message: 'Bearer token missing in Authorization header',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
       const tenantId = req.params.tenantId || req.tenantId;
-      
+
       if (!tenantId) {
         res.status(400).json({
           success: false,
@@ -17,45 +104,29 @@ export function validateTenantAccess(tenantManager: TenantManager, requiredPermi
         return;
       }
 
-      // Verificar se o tenant existe, criar automaticamente se não existir
-      let tenant = await tenantManager.getTenant(tenantId);
-      
-      if (!tenant) {
-        // Auto-criar tenant para compatibilidade com LocAI
-        try {
-          tenant = await tenantManager.createTenant({
-            id: tenantId,
-            name: `LocAI Tenant ${tenantId.substring(0, 8)}`,
-            settings: {
-              maxSessions: 5,
-              rateLimit: {
-                windowMs: 15 * 60 * 1000, // 15 minutos
-                max: 100
-              }
-            },
-            status: 'active'
-          });
-
-          // Criar auth com permissões completas
-          await tenantManager.createTenantAuth(tenantId, {
-            permissions: ['*'] // Todas as permissões
-          });
-
-          req.log?.info('Tenant auto-created', { 
-            tenantId, 
-            name: tenant.name 
-          });
+      // Verificar se o tenant existe, criar automaticamente se a política permitir
+      let tenant: Tenant | null;
+      try {
+        tenant = await resolveTenant(tenantManager, tenantId, req.headers['x-provision-token'] as string);
+      } catch (createError) {
+        req.log?.error('Failed to auto-create tenant:', createError);
+        res.status(500).json({
+          success: false,
+          error: 'Failed to create tenant',
+          message: `Could not auto-create tenant ${tenantId}`,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
 
-        } catch (createError) {
-          req.log?.error('Failed to auto-create tenant:', createError);
-          res.status(500).json({
-            success: false,
-            error: 'Failed to create tenant',
-            message: `Could not auto-create tenant ${tenantId}`,
-            timestamp: new Date().toISOString()
-          });
-          return;
-        }
+      if (!tenant) {
+        res.status(404).json({
+          success: false,
+          error: 'Tenant not found',
+          message: `Tenant ${tenantId} does not exist`,
+          timestamp: new Date().toISOString()
+        });
+        return;
       }
 
       // Verificar se o tenant existe e está ativo
@@ -82,8 +153,21 @@ export function validateTenantAccess(tenantManager: TenantManager, requiredPermi
         return;
       }
 
+      // Escopo do token (ex.: API key emitida só com messages:read)
+      if (req.permissions && !tenantManager.checkPermissions(req.permissions, requiredPermissions)) {
+        res.status(403).json({
+          success: false,
+          error: 'Insufficient permissions',
+          message: `Token lacks required permissions: ${requiredPermissions.join(', ')}`,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
       // Verificar se o tenant no token bate com o da URL (se ambos existirem)
-      if (req.tenantId && req.tenantId !== tenantId && req.tenantId !== 'default') {
+      // Só a API key do serviço sem X-Tenant-ID age em outro tenant - tokens do tenant default não têm exceção
+      const serviceKeyImpersonation = !!req.isAdmin && !req.headers['x-tenant-id'];
+      if (req.tenantId && req.tenantId !== tenantId && !serviceKeyImpersonation) {
         res.status(403).json({
           success: false,
           error: 'Tenant mismatch',
@@ -93,6 +177,15 @@ export function validateTenantAccess(tenantManager: TenantManager, requiredPermi
         return;
       }
 
+      if (serviceKeyImpersonation && req.tenantId !== tenantId) {
+        console.log('🛂 [Auth] Service API key acting on tenant', {
+          tenantId: tenantId.substring(0, 8) + '***',
+          method: req.method,
+          route: req.baseUrl + (req.route?.path || ''),
+          ip: req.ip
+        });
+      }
+
       // Adicionar tenant ID na requisição para uso posterior
       req.tenantId = tenantId;
       
@@ -0,0 +1,447 @@
+import { Router } from 'express';
+import Joi from 'joi';
+import { TenantManager, Tenant } from '../services/tenant.service';
+import { WhatsAppService } from '../services/whatsapp.service';
+import { handleAsync } from '../utils/async-handler';
+import { validateRequestBody, validateRequestQuery } from '../middleware/validation.middleware';
+
+const tenantStatusSchema = Joi.string().valid('active', 'suspended', 'inactive');
+
+const tenantSettingsSchema = Joi.object({
+  allowedPhoneNumbers: Joi.array().items(Joi.string().max(32)).optional(),
+  webhookUrl: Joi.string().uri().optional(),
+  webhookSecret: Joi.string().max(256).optional(),
+  maxSessions: Joi.number().integer().min(1).optional(),
+  rateLimit: Joi.object({
+    windowMs: Joi.number().integer().min(1000).required(),
+    max: Joi.number().integer().min(1).required()
+  }).optional(),
+  quotas: Joi.object({
+    messagesPerMinute: Joi.number().integer().min(0),
+    messagesPerDay: Joi.number().integer().min(0),
+    messagesPerMonth: Joi.number().integer().min(0)
+  }).optional(),
+  messageConsolidation: Joi.object({
+    enabled: Joi.boolean(),
+    windowMs: Joi.number().integer().min(0).max(5 * 60 * 1000),
+    maxWaitMs: Joi.number().integer().min(0).max(15 * 60 * 1000),
+    maxMessages: Joi.number().integer().min(1).max(100),
+    separator: Joi.string().allow('').max(10)
+  }).optional(),
+  autoReconnect: Joi.boolean().optional(),
+  groupMessages: Joi.string().valid('include', 'ignore').optional()
+});
+
+const createTenantSchema = Joi.object({
+  id: Joi.string().pattern(/^[A-Za-z0-9_-]{3,128}$/).required().messages({
+    'string.pattern.base': 'Tenant ID must have 3-128 letters, numbers, "_" or "-"'
+  }),
+  name: Joi.string().min(3).max(120).required(),
+  domain: Joi.string().max(255).optional(),
+  status: tenantStatusSchema.default('active'),
+  settings: tenantSettingsSchema.default({}),
+  // Permissões do token de acesso gerado para o tenant
+  permissions: Joi.array().items(Joi.string().max(64)).min(1).default(['*'])
+});
+
+const updateTenantSchema = Joi.object({
+  name: Joi.string().min(3).max(120),
+  domain: Joi.string().max(255).allow(null),
+  status: tenantStatusSchema,
+  settings: tenantSettingsSchema // Merge com as configurações atuais
+}).min(1);
+
+const updateStatusSchema = Joi.object({
+  status: tenantStatusSchema.required()
+});
+
+const listTenantsQuerySchema = Joi.object({
+  status: tenantStatusSchema.optional()
+});
+
+const createApiKeySchema = Joi.object({
+  name: Joi.string().min(1).max(100).required(),
+  permissions: Joi.array().items(Joi.string().max(64)).min(1).required(),
+  expiresAt: Joi.date().iso().greater('now').optional()
+});
+
+const rotateApiKeySchema = Joi.object({
+  expiresAt: Joi.date().iso().greater('now').optional()
+});
+
+/**
+ * Administração de tenants (/api/admin/tenants) - exige a API key do serviço (requireAdmin)
+ */
+export function adminRoutes(tenantManager: TenantManager, whatsappService: WhatsAppService): Router {
+  const router = Router();
+
+  const serializeTenant = (tenant: Tenant) => {
+    const auth = tenantManager.getTenantAuth(tenant.id);
+    const activeApiKeys = tenantManager.listApiKeys(tenant.id).filter(key => key.status === 'active').length;
+
+    return {
+      ...tenant,
+      auth: auth
+        ? {
+          permissions: auth.permissions,
+          activeApiKeys,
+          hasJwtToken: !!auth.jwtIssued,
+          expiresAt: auth.expiresAt || null
+        }
+        : null
+    };
+  };
+
+  // Listar tenants
+  router.get('/tenants',
+    validateRequestQuery(listTenantsQuerySchema),
+    handleAsync(async (req, res) => {
+      const { status } = req.query as { status?: string };
+      const sessions = new Map(whatsappService.getActiveSessions().map(session => [session.tenantId, session.status]));
+
+      const tenants = tenantManager.getAllTenants()
+        .filter(tenant => !status || tenant.status === status)
+        .map(tenant => ({
+          ...tenant,
+          sessionStatus: sessions.get(tenant.id) || 'disconnected'
+        }));
+
+      res.json({
+        success: true,
+        data: {
+          tenants,
+          count: tenants.length
+        },
+        timestamp: new Date().toISOString()
+      });
+    })
+  );
+
+  // Detalhes do tenant (configurações, permissões e sessão)
+  router.get('/tenants/:tenantId',
+    handleAsync(async (req, res) => {
+      const { tenantId } = req.params;
+
+      const tenant = await tenantManager.getTenant(tenantId);
+      if (!tenant) {
+        return res.status(404).json({
+          success: false,
+          error: 'Tenant not found',
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      res.json({
+        success: true,
+        data: {
+          ...serializeTenant(tenant),
+          session: await whatsappService.getSessionStatus(tenantId)
+        },
+        timestamp: new Date().toISOString()
+      });
+    })
+  );
+
+  // Criar tenant - o token de acesso só é retornado nesta resposta
+  router.post('/tenants',
+    validateRequestBody(createTenantSchema),
+    handleAsync(async (req, res) => {
+      const { permissions, ...tenantData } = req.body;
+
+      if (await tenantManager.getTenant(tenantData.id)) {
+        return res.status(409).json({
+          success: false,
+          error: 'Tenant already exists',
+          message: `Tenant ${tenantData.id} already exists`,
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      let tenant: Tenant;
+      try {
+        tenant = await tenantManager.createTenant(tenantData);
+      } catch (error: unknown) {
+        const err = error as Error;
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid tenant',
+          message: err.message,
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      const auth = await tenantManager.createTenantAuth(tenant.id, { permissions });
+
+      console.log('🏢 [Admin] Tenant created', {
+        tenantId: tenant.id.substring(0, 8) + '***',
+        status: tenant.status
+      });
+
+      res.status(201).json({
+        success: true,
+        data: {
+          ...serializeTenant(tenant),
+          accessToken: auth.jwtToken
+        },
+        timestamp: new Date().toISOString()
+      });
+    })
+  );
+
+  // Atualizar nome, domínio, status ou configurações (merge parcial)
+  router.patch('/tenants/:tenantId',
+    validateRequestBody(updateTenantSchema),
+    handleAsync(async (req, res) => {
+      const { tenantId } = req.params;
+
+      const tenant = await tenantManager.getTenant(tenantId);
+      if (!tenant) {
+        return res.status(404).json({
+          success: false,
+          error: 'Tenant not found',
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      const { settings, domain, ...updates } = req.body;
+
+      if (tenantId === 'default' && updates.status && updates.status !== 'active') {
+        return res.status(400).json({
+          success: false,
+          error: 'Cannot change default tenant status',
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      try {
+        const updated = await tenantManager.updateTenant(tenantId, {
+          ...updates,
+          ...(domain !== undefined && { domain: domain || undefined }),
+          ...(settings && { settings: { ...tenant.settings, ...settings } })
+        });
+
+        res.json({
+          success: true,
+          data: serializeTenant(updated),
+          timestamp: new Date().toISOString()
+        });
+      } catch (error: unknown) {
+        const err = error as Error;
+        res.status(400).json({
+          success: false,
+          error: 'Invalid tenant',
+          message: err.message,
+          timestamp: new Date().toISOString()
+        });
+      }
+    })
+  );
+
+  // Ativar, suspender ou desativar - suspenso/inativo tem a sessão WhatsApp fechada
+  router.put('/tenants/:tenantId/status',
+    validateRequestBody(updateStatusSchema),
+    handleAsync(async (req, res) => {
+      const { tenantId } = req.params;
+      const { status } = req.body;
+
+      const tenant = await tenantManager.getTenant(tenantId);
+      if (!tenant) {
+        return res.status(404).json({
+          success: false,
+          error: 'Tenant not found',
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      if (tenantId === 'default' && status !== 'active') {
+        return res.status(400).json({
+          success: false,
+          error: 'Cannot change default tenant status',
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      const previousStatus = tenant.status;
+      const updated = await tenantManager.setTenantStatus(tenantId, status);
+
+      console.log('🏢 [Admin] Tenant status changed', {
+        tenantId: tenantId.substring(0, 8) + '***',
+        from: previousStatus,
+        to: status
+      });
+
+      res.json({
+        success: true,
+        data: {
+          ...serializeTenant(updated),
+          previousStatus
+        },
+        timestamp: new Date().toISOString()
+      });
+    })
+  );
+
+  // Remover tenant - a sessão WhatsApp é deslogada e as credenciais apagadas
+  router.delete('/tenants/:tenantId',
+    handleAsync(async (req, res) => {
+      const { tenantId } = req.params;
+
+      if (tenantId === 'default') {
+        return res.status(400).json({
+          success: false,
+          error: 'Cannot delete default tenant',
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      const deleted = await tenantManager.deleteTenant(tenantId);
+      if (!deleted) {
+        return res.status(404).json({
+          success: false,
+          error: 'Tenant not found',
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      console.log('🏢 [Admin] Tenant deleted', {
+        tenantId: tenantId.substring(0, 8) + '***'
+      });
+
+      res.json({
+        success: true,
+        data: { tenantId, deleted: true },
+        timestamp: new Date().toISOString()
+      });
+    })
+  );
+
+  // Listar API keys do tenant (mascaradas)
+  router.get('/tenants/:tenantId/api-keys',
+    handleAsync(async (req, res) => {
+      const { tenantId } = req.params;
+
+      if (!(await tenantManager.getTenant(tenantId))) {
+        return res.status(404).json({
+          success: false,
+          error: 'Tenant not found',
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      const apiKeys = tenantManager.listApiKeys(tenantId);
+
+      res.json({
+        success: true,
+        data: {
+          apiKeys,
+          count: apiKeys.length
+        },
+        timestamp: new Date().toISOString()
+      });
+    })
+  );
+
+  // Emitir API key - o valor só é retornado nesta resposta
+  router.post('/tenants/:tenantId/api-keys',
+    validateRequestBody(createApiKeySchema),
+    handleAsync(async (req, res) => {
+      const { tenantId } = req.params;
+
+      if (!(await tenantManager.getTenant(tenantId))) {
+        return res.status(404).json({
+          success: false,
+          error: 'Tenant not found',
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      const { key, apiKey } = await tenantManager.createApiKey(tenantId, req.body);
+
+      console.log('🔑 [Admin] API key issued', {
+        tenantId: tenantId.substring(0, 8) + '***',
+        keyId: apiKey.id,
+        permissions: apiKey.permissions
+      });
+
+      res.status(201).json({
+        success: true,
+        data: {
+          ...apiKey,
+          key
+        },
+        timestamp: new Date().toISOString()
+      });
+    })
+  );
+
+  // Rotacionar API key - o valor anterior deixa de funcionar imediatamente
+  router.post('/tenants/:tenantId/api-keys/:keyId/rotate',
+    validateRequestBody(rotateApiKeySchema),
+    handleAsync(async (req, res) => {
+      const { tenantId, keyId } = req.params;
+
+      const existing = tenantManager.getApiKey(tenantId, keyId);
+      if (!existing) {
+        return res.status(404).json({
+          success: false,
+          error: 'API key not found',
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      if (existing.status === 'revoked') {
+        return res.status(409).json({
+          success: false,
+          error: 'API key revoked',
+          message: 'Revoked keys cannot be rotated',
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      const { key, apiKey } = await tenantManager.rotateApiKey(tenantId, keyId, req.body.expiresAt);
+
+      console.log('🔑 [Admin] API key rotated', {
+        tenantId: tenantId.substring(0, 8) + '***',
+        keyId
+      });
+
+      res.json({
+        success: true,
+        data: {
+          ...apiKey,
+          key
+        },
+        timestamp: new Date().toISOString()
+      });
+    })
+  );
+
+  // Revogar API key
+  router.delete('/tenants/:tenantId/api-keys/:keyId',
+    handleAsync(async (req, res) => {
+      const { tenantId, keyId } = req.params;
+
+      const apiKey = await tenantManager.revokeApiKey(tenantId, keyId);
+      if (!apiKey) {
+        return res.status(404).json({
+          success: false,
+          error: 'API key not found',
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      console.log('🔑 [Admin] API key revoked', {
+        tenantId: tenantId.substring(0, 8) + '***',
+        keyId
+      });
+
+      res.json({
+        success: true,
+        data: apiKey,
+        timestamp: new Date().toISOString()
+      });
+    })
+  );
+
+  return router;
+}
@@ -0,0 +1,105 @@
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import pino from 'pino';
+import jwt from 'jsonwebtoken';
+import { config } from '../config/config';
+import { TenantManager } from '../services/tenant.service';
+import { QuotaService } from '../services/quota.service';
+import { CampaignService, findMissingVariables } from '../services/campaign.service';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { campaignRoutes } from './campaign.routes';
+
+describe('campaign routes', () => {
+  const logger = pino({ level: 'silent' });
+  let tenantManager: TenantManager;
+  let campaignService: Record<string, jest.Mock>;
+  let server: Server;
+  let baseUrl: string;
+
+  const token = jwt.sign({ type: 'tenant_access', tenantId: 'tenant-a', permissions: ['*'] }, config.JWT_SECRET);
+
+  const create = (body: unknown) =>
+    fetch(`${baseUrl}/api/v1/campaigns/tenant-a`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      body: JSON.stringify(body)
+    });
+
+  beforeAll(async () => {
+    tenantManager = new TenantManager(logger);
+    await tenantManager.createTenant({ id: 'tenant-a', name: 'Tenant A', settings: { maxSessions: 1 }, status: 'active' });
+    await tenantManager.createTenantAuth('tenant-a', { permissions: ['*'] });
+
+    campaignService = {
+      createCampaign: jest.fn(),
+      getProgress: jest.fn(),
+      pauseCampaign: jest.fn(),
+      resumeCampaign: jest.fn(),
+      cancelCampaign: jest.fn()
+    };
+
+    const app = express();
+    app.use(express.json());
+    app.use(authMiddleware(tenantManager));
+    app.use('/api/v1/campaigns', campaignRoutes(
+      campaignService as unknown as CampaignService,
+      tenantManager,
+      new QuotaService(logger, tenantManager)
+    ));
+
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await tenantManager.shutdown();
+  });
+
+  beforeEach(() => {
+    campaignService.createCampaign.mockReturnValue({ id: 'campaign-1', status: 'running', defaultDelay: 2000 });
+    campaignService.getProgress.mockReturnValue({ total: 1, pending: 1, sent: 0, failed: 0, cancelled: 0, percent: 0 });
+  });
+
+  it('accepts media-only recipients without a template', async () => {
+    const response = await create({
+      recipients: [{ to: '5511999990000', type: 'image', mediaUrl: 'https://example.com/photo.jpg' }]
+    });
+
+    expect(response.status).toBe(202);
+    expect(campaignService.createCampaign).toHaveBeenCalledWith('tenant-a', expect.objectContaining({
+      recipients: [expect.objectContaining({ type: 'image', mediaUrl: 'https://example.com/photo.jpg' })]
+    }));
+  });
+
+  it('still requires a template for text recipients', async () => {
+    const response = await create({ recipients: [{ to: '5511999990000' }] });
+
+    expect(response.status).toBe(400);
+    expect(campaignService.createCampaign).not.toHaveBeenCalled();
+  });
+
+  it('rejects recipients with unresolved template variables', async () => {
+    const response = await create({
+      template: 'Olá {{nome}}, seu pedido {{pedido}} saiu',
+      recipients: [
+        { to: '5511999990000', variables: { nome: 'Ana', pedido: 42 } },
+        { to: '5511999990001', variables: { nome: 'Bia' } }
+      ]
+    });
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.details).toEqual([
+      { field: 'recipients.1.variables', message: 'Missing template variables: pedido', type: 'template.variables' }
+    ]);
+    expect(campaignService.createCampaign).not.toHaveBeenCalled();
+  });
+});
+
+describe('findMissingVariables', () => {
+  it('lists each missing variable once', () => {
+    expect(findMissingVariables('{{a}} {{ b }} {{a}} {{c}}', { c: 0 })).toEqual(['a', 'b']);
+  });
+});
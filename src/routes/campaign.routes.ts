@@ -0,0 +1,258 @@
+import { Router } from 'express';
+import { TenantManager } from '../services/tenant.service';
+import { CampaignService, Campaign, findMissingVariables } from '../services/campaign.service';
+import { QuotaService } from '../services/quota.service';
+import { validateTenantAccess } from '../middleware/tenant.middleware';
+import { tenantRateLimit } from '../middleware/rate-limit.middleware';
+import { handleAsync } from '../utils/async-handler';
+import { validateRequestBody } from '../middleware/validation.middleware';
+import Joi from 'joi';
+
+const recipientValidator = (value: string, helpers: Joi.CustomHelpers) => {
+  // Aceitar números de telefone ou IDs de conversa do WhatsApp Business
+  const phonePattern = /^\+?[1-9]\d{10,14}$/;
+  const businessIdPattern = /^[0-9]+@lid$/;
+  const fullJidPattern = /^[0-9]+@[a-z\.]+$/;
+
+  if (phonePattern.test(value) || businessIdPattern.test(value) || fullJidPattern.test(value)) {
+    return value;
+  }
+
+  return helpers.error('any.invalid');
+};
+
+const createCampaignSchema = Joi.object({
+  name: Joi.string().max(120).optional(),
+  // Template padrão - variáveis no formato {{nome}}
+  template: Joi.string().max(4096).optional(),
+  defaultDelay: Joi.number().min(1000).max(60000).default(2000),
+  recipients: Joi.array().items(Joi.object({
+    to: Joi.string().custom(recipientValidator),
+    clientPhone: Joi.string().custom(recipientValidator),
+    template: Joi.string().max(4096).optional(),
+    variables: Joi.object().pattern(Joi.string(), [Joi.string().allow(''), Joi.number()]).optional(),
+    type: Joi.string().valid('text', 'image', 'video', 'document', 'media').default('text'),
+    // Mídia dispensa template; o texto renderizado (se houver) vira legenda
+    mediaUrl: Joi.string().uri().when('type', { is: Joi.valid('image', 'video', 'document'), then: Joi.required() }),
+    mediaUrls: Joi.array().items(Joi.string().uri()).when('type', { is: 'media', then: Joi.required() }),
+    mediaType: Joi.string().valid('image', 'video', 'document').optional(),
+    caption: Joi.string().max(1024).optional(),
+    delay: Joi.number().min(1000).max(60000).optional()
+  }).or('to', 'clientPhone')).min(1).max(1000).required().messages({
+    'array.max': 'Cannot send more than 1000 messages in a campaign'
+  })
+});
+
+export function serializeCampaign(campaign: Campaign, campaignService: CampaignService) {
+  return {
+    campaignId: campaign.id,
+    name: campaign.name || null,
+    status: campaign.status,
+    progress: campaignService.getProgress(campaign),
+    defaultDelay: campaign.defaultDelay,
+    createdAt: campaign.createdAt,
+    updatedAt: campaign.updatedAt,
+    completedAt: campaign.completedAt || null
+  };
+}
+
+export function campaignRoutes(campaignService: CampaignService, tenantManager: TenantManager, quotaService: QuotaService): Router {
+  const router = Router();
+  const limitTenantRequests = tenantRateLimit(tenantManager, quotaService);
+
+  // Criar campanha - retorna imediatamente, envio acontece em background
+  router.post('/:tenantId',
+    validateTenantAccess(tenantManager, ['messages:send', 'messages:bulk']),
+    limitTenantRequests,
+    validateRequestBody(createCampaignSchema),
+    handleAsync(async (req, res) => {
+      const { tenantId } = req.params;
+      const { name, template, defaultDelay, recipients } = req.body;
+
+      const missingTemplate = recipients.findIndex((recipient: any) =>
+        recipient.type === 'text' && !recipient.template && !template
+      );
+      if (missingTemplate >= 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          message: `Recipient ${missingTemplate} has no template and the campaign has no default template`,
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      // Variável sem valor seria enviada como texto vazio - rejeitar a campanha indicando cada destinatário
+      const unresolved = recipients
+        .map((recipient: any, index: number) => ({
+          index,
+          missing: findMissingVariables(recipient.template ?? template ?? '', recipient.variables)
+        }))
+        .filter(({ missing }: { missing: string[] }) => missing.length > 0);
+      if (unresolved.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          message: `${unresolved.length} recipient(s) have template variables without a value`,
+          details: unresolved.map(({ index, missing }: { index: number; missing: string[] }) => ({
+            field: `recipients.${index}.variables`,
+            message: `Missing template variables: ${missing.join(', ')}`,
+            type: 'template.variables'
+          })),
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      const campaign = campaignService.createCampaign(tenantId, {
+        name,
+        template,
+        defaultDelay,
+        recipients: recipients.map(({ clientPhone, ...recipient }: any) => ({
+          ...recipient,
+          to: recipient.to || clientPhone
+        }))
+      });
+
+      res.status(202).json({
+        success: true,
+        data: serializeCampaign(campaign, campaignService),
+        timestamp: new Date().toISOString()
+      });
+    })
+  );
+
+  // Listar campanhas do tenant
+  router.get('/:tenantId',
+    validateTenantAccess(tenantManager, ['messages:read']),
+    limitTenantRequests,
+    handleAsync(async (req, res) => {
+      const { tenantId } = req.params;
+      const campaigns = campaignService.listCampaigns(tenantId);
+
+      res.json({
+        success: true,
+        data: {
+          campaigns: campaigns.map(campaign => serializeCampaign(campaign, campaignService)),
+          count: campaigns.length
+        },
+        timestamp: new Date().toISOString()
+      });
+    })
+  );
+
+  // Progresso da campanha
+  router.get('/:tenantId/:campaignId',
+    validateTenantAccess(tenantManager, ['messages:read']),
+    limitTenantRequests,
+    handleAsync(async (req, res) => {
+      const { tenantId, campaignId } = req.params;
+      const campaign = campaignService.getCampaign(tenantId, campaignId);
+
+      if (!campaign) {
+        return res.status(404).json({
+          success: false,
+          error: 'Campaign not found',
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      res.json({
+        success: true,
+        data: serializeCampaign(campaign, campaignService),
+        timestamp: new Date().toISOString()
+      });
+    })
+  );
+
+  // Resultado por destinatário (JSON ou CSV)
+  router.get('/:tenantId/:campaignId/results',
+    validateTenantAccess(tenantManager, ['messages:read']),
+    limitTenantRequests,
+    handleAsync(async (req, res) => {
+      const { tenantId, campaignId } = req.params;
+      const campaign = campaignService.getCampaign(tenantId, campaignId);
+
+      if (!campaign) {
+        return res.status(404).json({
+          success: false,
+          error: 'Campaign not found',
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      const results = campaign.recipients.map(recipient => ({
+        index: recipient.index,
+        to: recipient.to,
+        status: recipient.status,
+        messageId: recipient.messageId || null,
+        error: recipient.error || null,
+        attempts: recipient.attempts,
+        sentAt: recipient.sentAt || null
+      }));
+
+      if (req.query.format === 'csv') {
+        const escape = (value: unknown) => `"${String(value ?? '').replace(/"/g, '""')}"`;
+        const lines = [
+          'index,to,status,messageId,error,attempts,sentAt',
+          ...results.map(r => [
+            r.index,
+            r.to,
+            r.status,
+            Array.isArray(r.messageId) ? r.messageId.join(' ') : r.messageId,
+            r.error,
+            r.attempts,
+            r.sentAt
+          ].map(escape).join(','))
+        ];
+
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="campaign-${campaign.id}.csv"`);
+        return res.send(lines.join('\n'));
+      }
+
+      res.json({
+        success: true,
+        data: {
+          campaignId: campaign.id,
+          status: campaign.status,
+          progress: campaignService.getProgress(campaign),
+          results
+        },
+        timestamp: new Date().toISOString()
+      });
+    })
+  );
+
+  // Pausar, retomar e cancelar
+  const actions = {
+    pause: campaignService.pauseCampaign.bind(campaignService),
+    resume: campaignService.resumeCampaign.bind(campaignService),
+    cancel: campaignService.cancelCampaign.bind(campaignService)
+  };
+
+  for (const [action, execute] of Object.entries(actions)) {
+    router.post(`/:tenantId/:campaignId/${action}`,
+      validateTenantAccess(tenantManager, ['messages:send', 'messages:bulk']),
+      limitTenantRequests,
+      handleAsync(async (req, res) => {
+        const { tenantId, campaignId } = req.params;
+        const result = execute(tenantId, campaignId);
+
+        if (!result.success) {
+          return res.status(result.campaign ? 409 : 404).json({
+            success: false,
+            error: result.error,
+            timestamp: new Date().toISOString()
+          });
+        }
+
+        res.json({
+          success: true,
+          data: serializeCampaign(result.campaign!, campaignService),
+          timestamp: new Date().toISOString()
+        });
+      })
+    );
+  }
+
+  return router;
+}
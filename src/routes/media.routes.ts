@@ -0,0 +1,45 @@
+import { Router } from 'express';
+import * as fs from 'fs';
+import * as path from 'path';
+import { MediaStorageService } from '../services/media-storage.service';
+import { handleAsync } from '../utils/async-handler';
+
+/**
+ * Download de mídias armazenadas localmente
+ * Rota pública: o acesso é autorizado pela assinatura da URL (expires + signature)
+ */
+export function mediaRoutes(mediaStorageService: MediaStorageService): Router {
+  const router = Router();
+
+  router.get('/*',
+    handleAsync(async (req, res) => {
+      const key = req.params[0];
+      const { expires, signature } = req.query as { expires?: string; signature?: string };
+
+      const filePath = mediaStorageService.verifyLocalUrl(key, expires, signature);
+      if (!filePath) {
+        return res.status(403).json({
+          success: false,
+          error: 'Invalid or expired media URL',
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      if (!fs.existsSync(filePath)) {
+        return res.status(404).json({
+          success: false,
+          error: 'Media not found',
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      // Extensão e tipo vêm do remetente: nunca renderizar no domínio da API
+      res.setHeader('Cache-Control', 'private, max-age=300');
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      res.attachment(path.basename(filePath));
+      res.sendFile(filePath);
+    })
+  );
+
+  return router;
+}
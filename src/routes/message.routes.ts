@@ -1,9 +1,15 @@
-import { Router } from 'express';
+import { Router, Response } from 'express';
 import { WhatsAppService, MessageData } from '../services/whatsapp.service';
 import { TenantManager } from '../services/tenant.service';
+import { SendQueueService, SendJob } from '../services/send-queue.service';
+import { CampaignService } from '../services/campaign.service';
+import { QuotaService } from '../services/quota.service';
+import { TooManyRequestsError } from '../middleware/error.middleware';
+import { tenantRateLimit } from '../middleware/rate-limit.middleware';
+import { serializeCampaign } from './campaign.routes';
 import { validateTenantAccess } from '../middleware/tenant.middleware';
 import { handleAsync } from '../utils/async-handler';
-import { validateRequestBody } from '../middleware/validation.middleware';
+import { validateRequestBody, validateRequestQuery } from '../middleware/validation.middleware';
 import Joi from 'joi';
 import multer from 'multer';
 import path from 'path';
@@ -37,6 +43,19 @@ const upload = multer({
       'video/mp4',
       'video/avi',
       'video/mov',
+      // Áudios - MP3/WAV/M4A são convertidos para OGG/Opus quando enviados como mensagem de voz
+      'audio/mpeg',
+      'audio/mp3',
+      'audio/wav',
+      'audio/x-wav',
+      'audio/wave',
+      'audio/mp4',
+      'audio/m4a',
+      'audio/x-m4a',
+      'audio/aac',
+      'audio/ogg',
+      'audio/opus',
+      'audio/webm',
       'application/pdf',
       'application/msword',
       'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
@@ -51,82 +70,97 @@ const upload = multer({
   }
 });
 
+// Destinatário: telefone, ID de conversa do WhatsApp Business (@lid), JID completo ou grupo (@g.us)
+const recipientSchema = Joi.string().custom((value, helpers) => {
+  const phonePattern = /^\+?[1-9]\d{10,14}$/;
+  const businessIdPattern = /^[0-9]+@lid$/;
+  const fullJidPattern = /^[0-9]+@[a-z\.]+$/;
+  const groupJidPattern = /^[0-9]+(-[0-9]+)?@g\.us$/; // Grupos antigos usam <criador>-<timestamp>@g.us
+
+  if (phonePattern.test(value) || businessIdPattern.test(value) || fullJidPattern.test(value) || groupJidPattern.test(value)) {
+    return value;
+  }
+
+  return helpers.error('any.invalid');
+}).messages({
+  'any.invalid': 'Must be a valid phone number (+5511999999999), WhatsApp Business conversation ID (123456@lid) or group JID (120363000000000000@g.us)'
+});
+
+// Mensagens interativas - limites impostos pelo WhatsApp
+const pollSchema = Joi.object({
+  options: Joi.array().items(Joi.string().max(100)).min(2).max(12).unique().required(),
+  selectableCount: Joi.number().integer().min(0).max(12).default(1) // 0 = qualquer quantidade
+});
+
+const buttonsSchema = Joi.array().items(Joi.object({
+  id: Joi.string().max(256).required(),
+  text: Joi.string().max(20).required()
+})).min(1).max(3).unique('id');
+
+const listSchema = Joi.object({
+  buttonText: Joi.string().max(20).required(),
+  title: Joi.string().max(60).optional(),
+  sections: Joi.array().items(Joi.object({
+    title: Joi.string().max(24).required(),
+    rows: Joi.array().items(Joi.object({
+      id: Joi.string().max(200).required(),
+      title: Joi.string().max(24).required(),
+      description: Joi.string().max(72).optional()
+    })).min(1).max(10).required()
+  })).min(1).max(10).required()
+});
+
 // Schema para validação de mensagens
-const sendMessageSchema = Joi.object({
+export const sendMessageSchema = Joi.object({
   // Aceitar tenantId no body (opcional, pois pode vir pela URL)
   tenantId: Joi.string().optional(),
   // Aceitar tanto 'to' quanto 'clientPhone' para compatibilidade
-  to: Joi.string().custom((value, helpers) => {
-    // Aceitar números de telefone ou IDs de conversa do WhatsApp Business
-    const phonePattern = /^\+?[1-9]\d{10,14}$/;
-    const businessIdPattern = /^[0-9]+@lid$/;
-    const fullJidPattern = /^[0-9]+@[a-z\.]+$/;
-    
-    if (phonePattern.test(value) || businessIdPattern.test(value) || fullJidPattern.test(value)) {
-      return value;
-    }
-    
-    return helpers.error('any.invalid');
+  to: recipientSchema,
+  clientPhone: recipientSchema,
+  // Áudio não tem texto; nos demais tipos a mensagem é obrigatória
+  message: Joi.string().max(4096).when('type', {
+    is: 'audio',
+    then: Joi.optional().allow('').default(''),
+    otherwise: Joi.required()
   }).messages({
-    'any.invalid': 'Must be a valid phone number (+5511999999999) or WhatsApp Business conversation ID (123456@lid)'
-  }),
-  clientPhone: Joi.string().custom((value, helpers) => {
-    // Aceitar números de telefone ou IDs de conversa do WhatsApp Business
-    const phonePattern = /^\+?[1-9]\d{10,14}$/;
-    const businessIdPattern = /^[0-9]+@lid$/;
-    const fullJidPattern = /^[0-9]+@[a-z\.]+$/;
-    
-    if (phonePattern.test(value) || businessIdPattern.test(value) || fullJidPattern.test(value)) {
-      return value;
-    }
-    
-    return helpers.error('any.invalid');
-  }).messages({
-    'any.invalid': 'Must be a valid phone number (+5511999999999) or WhatsApp Business conversation ID (123456@lid)'
-  }),
-  message: Joi.string().required().max(4096).messages({
     'string.max': 'Message cannot exceed 4096 characters'
   }),
   // Campos opcionais para compatibilidade com diferentes formatos
   propertyIndex: Joi.number().optional(),
   totalProperties: Joi.number().optional(),
-  type: Joi.string().valid('text', 'image', 'video', 'document', 'media').default('text'),
+  type: Joi.string().valid('text', 'image', 'video', 'document', 'audio', 'media', 'poll', 'list', 'buttons').default('text'),
+  mediaUrl: Joi.string().uri().when('type', { is: 'audio', then: Joi.required() }),
+  ptt: Joi.boolean().default(false), // Áudio como mensagem de voz
   mediaUrls: Joi.array().items(Joi.string().uri()).optional(),
   mediaType: Joi.string().valid('image', 'video', 'document').optional(),
   mediaCount: Joi.number().optional(),
+  // Conteúdo obrigatório conforme o type; 'message' é a pergunta da enquete ou o corpo de botões/lista
+  poll: pollSchema.when('type', { is: 'poll', then: Joi.required(), otherwise: Joi.forbidden() }),
+  buttons: buttonsSchema.when('type', { is: 'buttons', then: Joi.required(), otherwise: Joi.forbidden() }),
+  list: listSchema.when('type', { is: 'list', then: Joi.required(), otherwise: Joi.forbidden() }),
+  footer: Joi.string().max(60).optional(),
   caption: Joi.string().max(1024).optional(),
-  fileName: Joi.string().max(255).optional()
+  fileName: Joi.string().max(255).optional(),
+  // Participantes mencionados (telefone ou JID) - o texto deve conter @<número> de cada um
+  mentions: Joi.array().items(Joi.string().pattern(/^(\+?[0-9]{8,15}|[0-9]+@(s\.whatsapp\.net|lid))$/)).max(256).optional(),
+  // Fila de envio: agendamento e enfileiramento explícito
+  sendAt: Joi.date().iso().optional(),
+  queue: Joi.boolean().default(false)
 }).or('to', 'clientPhone'); // Aceitar pelo menos um dos campos
 
 const sendBulkMessageSchema = Joi.object({
   messages: Joi.array().items(Joi.object({
-    to: Joi.string().custom((value, helpers) => {
-      // Aceitar números de telefone ou IDs de conversa do WhatsApp Business
-      const phonePattern = /^\+?[1-9]\d{10,14}$/;
-      const businessIdPattern = /^[0-9]+@lid$/;
-      const fullJidPattern = /^[0-9]+@[a-z\.]+$/;
-      
-      if (phonePattern.test(value) || businessIdPattern.test(value) || fullJidPattern.test(value)) {
-        return value;
-      }
-      
-      return helpers.error('any.invalid');
-    }),
-    clientPhone: Joi.string().custom((value, helpers) => {
-      // Aceitar números de telefone ou IDs de conversa do WhatsApp Business
-      const phonePattern = /^\+?[1-9]\d{10,14}$/;
-      const businessIdPattern = /^[0-9]+@lid$/;
-      const fullJidPattern = /^[0-9]+@[a-z\.]+$/;
-      
-      if (phonePattern.test(value) || businessIdPattern.test(value) || fullJidPattern.test(value)) {
-        return value;
-      }
-      
-      return helpers.error('any.invalid');
+    to: recipientSchema,
+    clientPhone: recipientSchema,
+    // Mídia pode ir sem texto; o texto (se houver) vira legenda
+    message: Joi.string().max(4096).when('type', {
+      is: 'text',
+      then: Joi.required(),
+      otherwise: Joi.optional().allow('')
     }),
-    message: Joi.string().required().max(4096),
     type: Joi.string().valid('text', 'image', 'video', 'document', 'media').default('text'),
-    mediaUrls: Joi.array().items(Joi.string().uri()).optional(),
+    mediaUrl: Joi.string().uri().when('type', { is: Joi.valid('image', 'video', 'document'), then: Joi.required() }),
+    mediaUrls: Joi.array().items(Joi.string().uri()).when('type', { is: 'media', then: Joi.required() }),
     mediaType: Joi.string().valid('image', 'video', 'document').optional(),
     caption: Joi.string().max(1024).optional(),
     delay: Joi.number().min(1000).max(60000).optional() // Delay entre mensagens (1s-60s)
@@ -135,11 +169,77 @@ const sendBulkMessageSchema = Joi.object({
   })
 });
 
-export function messageRoutes(whatsappService: WhatsAppService, tenantManager: TenantManager): Router {
+const checkNumbersSchema = Joi.object({
+  phoneNumbers: Joi.array().items(Joi.string().pattern(/^\+?[0-9\s\-()]{8,20}$/)).min(1).max(500).required().messages({
+    'array.max': 'Cannot check more than 500 numbers at once'
+  })
+});
+
+const queueListQuerySchema = Joi.object({
+  status: Joi.string().valid('scheduled', 'pending', 'sending', 'retrying', 'sent', 'failed', 'cancelled').optional()
+});
+
+const messageHistoryQuerySchema = Joi.object({
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(200).default(50),
+  phoneNumber: Joi.string().max(64).optional(),
+  direction: Joi.string().valid('inbound', 'outbound').optional(),
+  type: Joi.string().max(32).optional(),
+  from: Joi.date().iso().optional(),
+  to: Joi.date().iso().min(Joi.ref('from')).optional()
+});
+
+export function serializeJob(job: SendJob) {
+  return {
+    jobId: job.id,
+    status: job.status,
+    to: job.messageData.to,
+    type: job.messageData.type || 'text',
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    sendAt: job.sendAt || null,
+    nextAttemptAt: job.nextAttemptAt,
+    messageId: job.messageId || null,
+    lastError: job.lastError || null,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    completedAt: job.completedAt || null
+  };
+}
+
+export function messageRoutes(
+  whatsappService: WhatsAppService,
+  tenantManager: TenantManager,
+  sendQueueService: SendQueueService,
+  campaignService: CampaignService,
+  quotaService: QuotaService
+): Router {
   const router = Router();
+  const limitTenantRequests = tenantRateLimit(tenantManager, quotaService);
+
+  // Enfileirar quando agendado, quando pedido explicitamente ou quando a sessão está reconectando
+  const enqueueIfNeeded = (tenantId: string, messageData: MessageData, sendAt: Date | undefined, queue: boolean, res: Response): boolean => {
+    const status = whatsappService.getSession(tenantId)?.status;
+    const sessionPending = status === 'connecting' || status === 'qr' || status === 'pairing_code';
+
+    if (!sendAt && !queue && !sessionPending) {
+      return false;
+    }
+
+    const job = sendQueueService.enqueue(tenantId, messageData, { sendAt });
+    res.status(202).json({
+      success: true,
+      queued: true,
+      data: serializeJob(job),
+      timestamp: new Date().toISOString()
+    });
+    return true;
+  };
 
   // Nova rota: Enviar mensagem com tenantId no body (mais flexível para n8n)
+  // Sem :tenantId na URL - o limite conta para o tenant autenticado, não para o do body
   router.post('/send',
+    limitTenantRequests,
     validateRequestBody(sendMessageSchema),
     handleAsync(async (req, res) => {
       // TenantId deve vir no body
@@ -165,12 +265,17 @@ export function messageRoutes(whatsappService: WhatsAppService, tenantManager: T
       }
       
       // Aceitar tanto 'to' quanto 'clientPhone' para compatibilidade
-      const to = req.body.to || req.body.clientPhone;
+      const { sendAt, queue, ...body } = req.body;
+      const to = body.to || body.clientPhone;
       
       const messageData: MessageData = {
-        ...req.body,
+        ...body,
         to: to
       };
+
+      if (enqueueIfNeeded(tenantId, messageData, sendAt, queue, res)) {
+        return;
+      }
       
       try {
         const result = await whatsappService.sendMessage(tenantId, messageData);
@@ -195,6 +300,10 @@ export function messageRoutes(whatsappService: WhatsAppService, tenantManager: T
         }
         
       } catch (error: unknown) {
+        // Cota esgotada: 429 com Retry-After pelo errorHandler
+        if (error instanceof TooManyRequestsError) {
+          throw error;
+        }
         const err = error as Error;
         res.status(500).json({
           success: false,
@@ -209,6 +318,7 @@ export function messageRoutes(whatsappService: WhatsAppService, tenantManager: T
   // Rota original: Enviar mensagem de texto (mantém compatibilidade)
   router.post('/:tenantId/send', 
     validateTenantAccess(tenantManager, ['messages:send']),
+    limitTenantRequests,
     validateRequestBody(sendMessageSchema),
     handleAsync(async (req, res) => {
       // Aceitar tenantId tanto da URL quanto do body
@@ -224,12 +334,17 @@ export function messageRoutes(whatsappService: WhatsAppService, tenantManager: T
       }
       
       // Aceitar tanto 'to' quanto 'clientPhone' para compatibilidade
-      const to = req.body.to || req.body.clientPhone;
+      const { sendAt, queue, ...body } = req.body;
+      const to = body.to || body.clientPhone;
       
       const messageData: MessageData = {
-        ...req.body,
+        ...body,
         to: to
       };
+
+      if (enqueueIfNeeded(tenantId, messageData, sendAt, queue, res)) {
+        return;
+      }
       
       try {
         const result = await whatsappService.sendMessage(tenantId, messageData);
@@ -254,6 +369,10 @@ export function messageRoutes(whatsappService: WhatsAppService, tenantManager: T
         }
         
       } catch (error: unknown) {
+        // Cota esgotada: 429 com Retry-After pelo errorHandler
+        if (error instanceof TooManyRequestsError) {
+          throw error;
+        }
         const err = error as Error;
         res.status(500).json({
           success: false,
@@ -268,10 +387,11 @@ export function messageRoutes(whatsappService: WhatsAppService, tenantManager: T
   // Enviar mensagem com arquivo (mídia)
   router.post('/:tenantId/send-media', 
     validateTenantAccess(tenantManager, ['messages:send']),
+    limitTenantRequests,
     upload.single('media'),
     handleAsync(async (req, res) => {
       const { tenantId } = req.params;
-      const { to, message, caption, type } = req.body;
+      const { to, message, caption, type, ptt } = req.body;
       
       try {
         if (!req.file) {
@@ -282,14 +402,6 @@ export function messageRoutes(whatsappService: WhatsAppService, tenantManager: T
           });
         }
 
-        if (!to || !message) {
-          return res.status(400).json({
-            success: false,
-            error: 'Phone number and message are required',
-            timestamp: new Date().toISOString()
-          });
-        }
-
         // Determinar tipo baseado no arquivo se não especificado
         let mediaType = type;
         if (!mediaType) {
@@ -298,11 +410,22 @@ export function messageRoutes(whatsappService: WhatsAppService, tenantManager: T
             mediaType = 'image';
           } else if (mimeType.startsWith('video/')) {
             mediaType = 'video';
+          } else if (mimeType.startsWith('audio/')) {
+            mediaType = 'audio';
           } else {
             mediaType = 'document';
           }
         }
 
+        // Áudio não tem legenda - apenas o destinatário é obrigatório
+        if (!to || (!message && mediaType !== 'audio')) {
+          return res.status(400).json({
+            success: false,
+            error: 'Phone number and message are required',
+            timestamp: new Date().toISOString()
+          });
+        }
+
         // Processar o destinatário - manter IDs de conversa intactos
         let processedTo = to;
         if (!to.includes('@')) {
@@ -312,11 +435,13 @@ export function messageRoutes(whatsappService: WhatsAppService, tenantManager: T
         
         const messageData: MessageData = {
           to: processedTo,
-          message,
-          type: mediaType as 'image' | 'video' | 'document',
+          message: message || '',
+          type: mediaType as 'image' | 'video' | 'document' | 'audio',
           mediaUrl: `${config.BASE_URL}/uploads/${req.file.filename}`,
           caption: caption || message,
-          fileName: req.file.originalname
+          fileName: req.file.originalname,
+          // Multipart envia booleanos como string
+          ptt: ptt === true || ptt === 'true'
         };
 
         const result = await whatsappService.sendMessage(tenantId, messageData);
@@ -344,6 +469,10 @@ export function messageRoutes(whatsappService: WhatsAppService, tenantManager: T
         }
         
       } catch (error: unknown) {
+        // Cota esgotada: 429 com Retry-After pelo errorHandler
+        if (error instanceof TooManyRequestsError) {
+          throw error;
+        }
         const err = error as Error;
         res.status(500).json({
           success: false,
@@ -355,69 +484,40 @@ export function messageRoutes(whatsappService: WhatsAppService, tenantManager: T
     })
   );
 
-  // Enviar múltiplas mensagens (bulk)
+  // Enviar múltiplas mensagens (bulk) - cria uma campanha assíncrona
   router.post('/:tenantId/send-bulk', 
     validateTenantAccess(tenantManager, ['messages:send', 'messages:bulk']),
+    limitTenantRequests,
     validateRequestBody(sendBulkMessageSchema),
     handleAsync(async (req, res) => {
       const { tenantId } = req.params;
       const { messages } = req.body;
+
+      // O lote inteiro precisa caber na cota diária/mensal; a de minuto é respeitada durante o envio
+      await quotaService.assertMessageQuota(tenantId, messages.length, ['day', 'month']);
       
       try {
-        const results = [];
-        
-        for (let i = 0; i < messages.length; i++) {
-          const message = messages[i];
-          
-          // Aceitar tanto 'to' quanto 'clientPhone'
-          const messageData: MessageData = {
-            ...message,
-            to: message.to || message.clientPhone
-          };
-          
-          try {
-            const result = await whatsappService.sendMessage(tenantId, messageData);
-            
-            results.push({
-              index: i,
-              to: message.to || message.clientPhone,
-              success: result.success,
-              messageId: result.messageId,
-              error: result.error
-            });
-            
-            // Aplicar delay entre mensagens se especificado
-            if (i < messages.length - 1 && message.delay) {
-              await new Promise(resolve => setTimeout(resolve, message.delay));
-            } else if (i < messages.length - 1) {
-              // Delay padrão de 2s entre mensagens para evitar spam
-              await new Promise(resolve => setTimeout(resolve, 2000));
-            }
-            
-          } catch (error: unknown) {
-            const err = error as Error;
-            results.push({
-              index: i,
-              to: message.to || message.clientPhone,
-              success: false,
-              error: err.message
-            });
-          }
-        }
-        
-        const successCount = results.filter(r => r.success).length;
-        const failCount = results.filter(r => !r.success).length;
+        // Cada mensagem vira um destinatário com texto literal; o delay continua valendo por mensagem
+        const campaign = campaignService.createCampaign(tenantId, {
+          name: 'send-bulk',
+          recipients: messages.map((message: any) => ({
+            to: message.to || message.clientPhone,
+            message: message.message,
+            type: message.type,
+            mediaUrl: message.mediaUrl,
+            mediaUrls: message.mediaUrls,
+            mediaType: message.mediaType,
+            caption: message.caption,
+            delay: message.delay
+          }))
+        });
         
-        res.json({
+        res.status(202).json({
           success: true,
           data: {
-            results,
-            summary: {
-              total: messages.length,
-              successful: successCount,
-              failed: failCount,
-              successRate: (successCount / messages.length) * 100
-            }
+            ...serializeCampaign(campaign, campaignService),
+            progressUrl: `/api/v1/campaigns/${tenantId}/${campaign.id}`,
+            resultsUrl: `/api/v1/campaigns/${tenantId}/${campaign.id}/results`
           },
           timestamp: new Date().toISOString()
         });
@@ -434,9 +534,25 @@ export function messageRoutes(whatsappService: WhatsAppService, tenantManager: T
     })
   );
 
+  // Uso atual do tenant: requisições na janela e mensagens enviadas no minuto/dia/mês
+  router.get('/:tenantId/usage',
+    validateTenantAccess(tenantManager, ['messages:read']),
+    limitTenantRequests,
+    handleAsync(async (req, res) => {
+      const { tenantId } = req.params;
+
+      res.json({
+        success: true,
+        data: await quotaService.getUsage(tenantId),
+        timestamp: new Date().toISOString()
+      });
+    })
+  );
+
   // Verificar se um número está no WhatsApp
   router.get('/:tenantId/check-number/:phoneNumber', 
     validateTenantAccess(tenantManager, ['messages:read']),
+    limitTenantRequests,
     handleAsync(async (req, res) => {
       const { tenantId, phoneNumber } = req.params;
       
@@ -453,21 +569,19 @@ export function messageRoutes(whatsappService: WhatsAppService, tenantManager: T
           });
         }
 
-        // Formatar número
-        const formattedNumber = phoneNumber.replace(/\D/g, '');
-        
-        // Tentar enviar uma mensagem de teste (que não será realmente enviada)
-        // Isso é uma implementação simplificada - na prática, você pode usar
-        // a funcionalidade onWhatsApp do Baileys se estiver disponível
+        const [result] = await whatsappService.checkNumbers(tenantId, [phoneNumber]);
+
+        if (!result) {
+          return res.status(400).json({
+            success: false,
+            error: 'Invalid phone number',
+            timestamp: new Date().toISOString()
+          });
+        }
         
         res.json({
           success: true,
-          data: {
-            phoneNumber: formattedNumber,
-            isOnWhatsApp: true, // Simplificado - implementar lógica real
-            businessAccount: false // Simplificado - implementar lógica real
-          },
-          message: 'Note: This is a simplified implementation',
+          data: result,
           timestamp: new Date().toISOString()
         });
         
@@ -483,29 +597,247 @@ export function messageRoutes(whatsappService: WhatsAppService, tenantManager: T
     })
   );
 
-  // Histórico de mensagens enviadas (simplificado)
-  router.get('/:tenantId/history', 
+  // Verificar vários números de uma vez
+  router.post('/:tenantId/check-numbers', 
     validateTenantAccess(tenantManager, ['messages:read']),
+    limitTenantRequests,
+    validateRequestBody(checkNumbersSchema),
     handleAsync(async (req, res) => {
       const { tenantId } = req.params;
-      const { page = 1, limit = 50, phoneNumber } = req.query;
+      const { phoneNumbers } = req.body;
       
       try {
-        // Esta é uma implementação mock - em produção você salvaria
-        // as mensagens em banco de dados
+        const status = await whatsappService.getSessionStatus(tenantId);
+        
+        if (!status.connected) {
+          return res.status(400).json({
+            success: false,
+            error: 'WhatsApp session not connected',
+            message: 'Session must be connected to check phone numbers',
+            timestamp: new Date().toISOString()
+          });
+        }
+
+        const results = await whatsappService.checkNumbers(tenantId, phoneNumbers);
         
         res.json({
           success: true,
           data: {
-            messages: [], // Implementar busca no banco de dados
-            pagination: {
-              page: Number(page),
-              limit: Number(limit),
-              total: 0,
-              pages: 0
+            results,
+            summary: {
+              total: results.length,
+              onWhatsApp: results.filter(r => r.isOnWhatsApp).length,
+              businessAccounts: results.filter(r => r.businessAccount).length,
+              fromCache: results.filter(r => r.cached).length
             }
           },
-          message: 'Message history feature not implemented yet',
+          timestamp: new Date().toISOString()
+        });
+        
+      } catch (error: unknown) {
+        const err = error as Error;
+        res.status(500).json({
+          success: false,
+          error: 'Failed to check phone numbers',
+          message: err.message,
+          timestamp: new Date().toISOString()
+        });
+      }
+    })
+  );
+
+  // Listar grupos dos quais o número conectado participa
+  router.get('/:tenantId/groups',
+    validateTenantAccess(tenantManager, ['messages:read']),
+    limitTenantRequests,
+    handleAsync(async (req, res) => {
+      const { tenantId } = req.params;
+
+      const status = await whatsappService.getSessionStatus(tenantId);
+      if (!status.connected) {
+        return res.status(400).json({
+          success: false,
+          error: 'WhatsApp session not connected',
+          message: 'Session must be connected to list groups',
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      try {
+        const groups = await whatsappService.listGroups(tenantId);
+
+        res.json({
+          success: true,
+          data: {
+            groups: groups.map(({ participants, ...group }) => group),
+            count: groups.length
+          },
+          timestamp: new Date().toISOString()
+        });
+      } catch (error: unknown) {
+        const err = error as Error;
+        res.status(500).json({
+          success: false,
+          error: 'Failed to list groups',
+          message: err.message,
+          timestamp: new Date().toISOString()
+        });
+      }
+    })
+  );
+
+  // Metadados de um grupo (assunto, participantes e admins)
+  router.get('/:tenantId/groups/:groupId',
+    validateTenantAccess(tenantManager, ['messages:read']),
+    limitTenantRequests,
+    handleAsync(async (req, res) => {
+      const { tenantId, groupId } = req.params;
+
+      if (!/^[0-9]+(-[0-9]+)?(@g\.us)?$/.test(groupId)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid group ID',
+          message: 'Group ID must be a group JID (120363000000000000@g.us)',
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      const status = await whatsappService.getSessionStatus(tenantId);
+      if (!status.connected) {
+        return res.status(400).json({
+          success: false,
+          error: 'WhatsApp session not connected',
+          message: 'Session must be connected to read group metadata',
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      try {
+        const group = await whatsappService.getGroupMetadata(tenantId, groupId);
+        if (!group) {
+          return res.status(404).json({
+            success: false,
+            error: 'Group not found',
+            message: 'Group does not exist or the connected number is not a participant',
+            timestamp: new Date().toISOString()
+          });
+        }
+
+        res.json({
+          success: true,
+          data: group,
+          timestamp: new Date().toISOString()
+        });
+      } catch (error: unknown) {
+        const err = error as Error;
+        res.status(500).json({
+          success: false,
+          error: 'Failed to fetch group metadata',
+          message: err.message,
+          timestamp: new Date().toISOString()
+        });
+      }
+    })
+  );
+
+  // Listar jobs da fila de envio
+  router.get('/:tenantId/queue', 
+    validateTenantAccess(tenantManager, ['messages:read']),
+    limitTenantRequests,
+    validateRequestQuery(queueListQuerySchema),
+    handleAsync(async (req, res) => {
+      const { tenantId } = req.params;
+      const { status } = req.query as any;
+
+      const jobs = sendQueueService.listJobs(tenantId, status);
+
+      res.json({
+        success: true,
+        data: {
+          jobs: jobs.map(serializeJob),
+          count: jobs.length
+        },
+        timestamp: new Date().toISOString()
+      });
+    })
+  );
+
+  // Detalhes de um job da fila
+  router.get('/:tenantId/queue/:jobId', 
+    validateTenantAccess(tenantManager, ['messages:read']),
+    limitTenantRequests,
+    handleAsync(async (req, res) => {
+      const { tenantId, jobId } = req.params;
+
+      const job = sendQueueService.getJob(tenantId, jobId);
+      if (!job) {
+        return res.status(404).json({
+          success: false,
+          error: 'Job not found',
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      res.json({
+        success: true,
+        data: serializeJob(job),
+        timestamp: new Date().toISOString()
+      });
+    })
+  );
+
+  // Cancelar job pendente ou agendado
+  router.delete('/:tenantId/queue/:jobId', 
+    validateTenantAccess(tenantManager, ['messages:send']),
+    limitTenantRequests,
+    handleAsync(async (req, res) => {
+      const { tenantId, jobId } = req.params;
+
+      const result = sendQueueService.cancelJob(tenantId, jobId);
+      if (!result.success) {
+        return res.status(result.job ? 409 : 404).json({
+          success: false,
+          error: result.error,
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      res.json({
+        success: true,
+        data: serializeJob(result.job!),
+        timestamp: new Date().toISOString()
+      });
+    })
+  );
+
+  // Histórico de mensagens enviadas e recebidas
+  router.get('/:tenantId/history', 
+    validateTenantAccess(tenantManager, ['messages:read']),
+    limitTenantRequests,
+    validateRequestQuery(messageHistoryQuerySchema),
+    handleAsync(async (req, res) => {
+      const { tenantId } = req.params;
+      const { page, limit, phoneNumber, direction, type, from, to } = req.query as any;
+      
+      try {
+        // Normalizar telefone - manter IDs de conversa (@lid, @s.whatsapp.net) intactos
+        const normalizedPhone = phoneNumber && !phoneNumber.includes('@')
+          ? phoneNumber.replace(/\D/g, '')
+          : phoneNumber;
+
+        const history = await whatsappService.getMessageHistory(tenantId, {
+          page,
+          limit,
+          phoneNumber: normalizedPhone,
+          direction,
+          type,
+          from,
+          to
+        });
+        
+        res.json({
+          success: true,
+          data: history,
           timestamp: new Date().toISOString()
         });
         
@@ -521,5 +853,40 @@ export function messageRoutes(whatsappService: WhatsAppService, tenantManager: T
     })
   );
 
+  // Status de entrega de uma mensagem enviada (pending → server_ack → delivered → read | failed)
+  router.get('/:tenantId/messages/:messageId/status',
+    validateTenantAccess(tenantManager, ['messages:read']),
+    limitTenantRequests,
+    handleAsync(async (req, res) => {
+      const { tenantId, messageId } = req.params;
+
+      const message = await whatsappService.getMessageStatus(tenantId, messageId);
+      if (!message) {
+        return res.status(404).json({
+          success: false,
+          error: 'Message not found',
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      res.json({
+        success: true,
+        data: {
+          messageId: message.id,
+          to: message.phoneNumber,
+          status: message.status,
+          statusHistory: (message.statusHistory || []).map(entry => ({
+            status: entry.status,
+            timestamp: new Date(entry.timestamp).toISOString()
+          })),
+          error: message.error || null,
+          sentAt: new Date(message.timestamp).toISOString(),
+          updatedAt: message.updatedAt || null
+        },
+        timestamp: new Date().toISOString()
+      });
+    })
+  );
+
   return router;
 }
\ No newline at end of file
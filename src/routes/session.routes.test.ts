@@ -0,0 +1,115 @@
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import pino from 'pino';
+import jwt from 'jsonwebtoken';
+import { config } from '../config/config';
+import { TenantManager } from '../services/tenant.service';
+import { WhatsAppService } from '../services/whatsapp.service';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { sessionRoutes } from './session.routes';
+
+jest.mock('../services/whatsapp.service', () => ({}));
+
+describe('session routes', () => {
+  let tenantManager: TenantManager;
+  let whatsappService: Record<string, jest.Mock>;
+  let server: Server;
+  let baseUrl: string;
+
+  const get = (path: string, token: string, signal?: AbortSignal) =>
+    fetch(`${baseUrl}/api/v1/sessions${path}`, { headers: { Authorization: `Bearer ${token}` }, signal });
+
+  const waitFor = async (condition: () => boolean) => {
+    for (let i = 0; i < 100 && !condition(); i++) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+  };
+
+  beforeAll(async () => {
+    tenantManager = new TenantManager(pino({ level: 'silent' }));
+    await tenantManager.createTenant({ id: 'tenant-a', name: 'Tenant A', settings: { maxSessions: 1 }, status: 'active' });
+    await tenantManager.createTenantAuth('tenant-a', { permissions: ['*'] });
+
+    whatsappService = {
+      getRestoreSummary: jest.fn().mockReturnValue({ restored: [], failed: [{ tenantId: 'tenant-b', reason: 'Logged out' }], skipped: [] }),
+      getActiveSessions: jest.fn().mockReturnValue([]),
+      getSessionStatus: jest.fn(),
+      subscribeSessionEvents: jest.fn()
+    };
+
+    const app = express();
+    app.use(authMiddleware(tenantManager));
+    app.use('/api/v1/sessions', sessionRoutes(whatsappService as unknown as WhatsAppService, tenantManager));
+
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    // Streams SSE encerrados pelo cliente podem deixar conexões keep-alive abertas
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+    await tenantManager.shutdown();
+  });
+
+  describe('GET /restore/summary', () => {
+    it('rejects tenant tokens, even with every permission', async () => {
+      const token = jwt.sign({ type: 'tenant_access', tenantId: 'tenant-a', permissions: ['*'] }, config.JWT_SECRET);
+
+      const response = await get('/restore/summary', token);
+
+      expect(response.status).toBe(403);
+      expect(whatsappService.getRestoreSummary).not.toHaveBeenCalled();
+    });
+
+    it('returns the summary to the service API key', async () => {
+      const response = await get('/restore/summary', config.API_KEY);
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.data.summary.failed).toEqual([{ tenantId: 'tenant-b', reason: 'Logged out', currentStatus: 'disconnected' }]);
+    });
+  });
+
+  describe('GET /:tenantId/events', () => {
+    const token = jwt.sign({ type: 'tenant_access', tenantId: 'tenant-a', permissions: ['sessions:read'] }, config.JWT_SECRET);
+
+    it('streams the current status and unsubscribes when the client disconnects', async () => {
+      const unsubscribe = jest.fn();
+      whatsappService.getSessionStatus.mockResolvedValue({ status: 'connected' });
+      whatsappService.subscribeSessionEvents.mockReturnValue(unsubscribe);
+      const controller = new AbortController();
+
+      const response = await get('/tenant-a/events', token, controller.signal);
+      const reader = response.body!.getReader();
+      const { value } = await reader.read();
+
+      expect(response.headers.get('content-type')).toContain('text/event-stream');
+      expect(new TextDecoder().decode(value)).toContain('retry: 5000');
+      await waitFor(() => whatsappService.subscribeSessionEvents.mock.calls.length > 0);
+
+      controller.abort();
+      await waitFor(() => unsubscribe.mock.calls.length > 0);
+
+      expect(unsubscribe).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not subscribe when the client leaves while the status is loading', async () => {
+      let resolveStatus: (status: unknown) => void = () => undefined;
+      whatsappService.getSessionStatus.mockReturnValue(new Promise(resolve => { resolveStatus = resolve; }));
+      const controller = new AbortController();
+
+      const response = await get('/tenant-a/events', token, controller.signal);
+      await waitFor(() => whatsappService.getSessionStatus.mock.calls.length > 0);
+      controller.abort();
+      await response.body!.cancel().catch(() => undefined);
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      resolveStatus({ status: 'connected' });
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(whatsappService.subscribeSessionEvents).not.toHaveBeenCalled();
+    });
+  });
+});
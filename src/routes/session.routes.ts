@@ -1,21 +1,38 @@
 import { Router } from 'express';
-import { WhatsAppService } from '../services/whatsapp.service';
+import { WhatsAppService, SessionRestoreResult } from '../services/whatsapp.service';
 import { TenantManager } from '../services/tenant.service';
 import { validateTenantAccess } from '../middleware/tenant.middleware';
+import { requireAdmin } from '../middleware/auth.middleware';
 import { handleAsync } from '../utils/async-handler';
 import { validateRequestBody } from '../middleware/validation.middleware';
+import { TooManyRequestsError } from '../middleware/error.middleware';
 import Joi from 'joi';
 import { config } from '../config/config';
 
 const startSessionSchema = Joi.object({
+  // Número com DDI para login por código de pareamento (sem QR)
+  phoneNumber: Joi.string().pattern(/^\+?[0-9\s\-()]{10,20}$/).optional(),
   // Opcionalmente aceitar configurações específicas para a sessão
   settings: Joi.object({
     webhookUrl: Joi.string().uri().optional(),
-    autoReconnect: Joi.boolean().default(true),
+    autoReconnect: Joi.boolean().optional(), // Persistido em tenant.settings.autoReconnect
     qrTimeout: Joi.number().min(30000).max(300000).optional()
   }).optional()
 });
 
+// Configurações do tenant ajustáveis via API (merge parcial)
+const tenantSettingsSchema = Joi.object({
+  messageConsolidation: Joi.object({
+    enabled: Joi.boolean(),
+    windowMs: Joi.number().integer().min(0).max(5 * 60 * 1000),
+    maxWaitMs: Joi.number().integer().min(0).max(15 * 60 * 1000),
+    maxMessages: Joi.number().integer().min(1).max(100),
+    separator: Joi.string().allow('').max(10)
+  }).min(1),
+  autoReconnect: Joi.boolean(),
+  groupMessages: Joi.string().valid('include', 'ignore')
+}).min(1);
+
 export function sessionRoutes(whatsappService: WhatsAppService, tenantManager: TenantManager): Router {
   const router = Router();
 
@@ -27,19 +44,34 @@ export function sessionRoutes(whatsappService: WhatsAppService, tenantManager: T
       const { tenantId } = req.params;
       
       try {
-        const result = await whatsappService.startSession(tenantId);
+        const autoReconnect = req.body?.settings?.autoReconnect;
+        if (autoReconnect !== undefined) {
+          const tenant = await tenantManager.getTenant(tenantId);
+          await tenantManager.updateTenant(tenantId, {
+            settings: { ...tenant!.settings, autoReconnect }
+          });
+        }
+
+        const phoneNumber = req.body?.phoneNumber?.replace(/\D/g, '');
+        const result = await whatsappService.startSession(tenantId, { phoneNumber });
         
         res.json({
           success: true,
           data: {
             sessionId: result.sessionId,
             message: result.message,
-            qrCode: result.qrCode || null
+            loginMethod: phoneNumber ? 'pairing_code' : 'qr',
+            qrCode: result.qrCode || null,
+            pairingCode: result.pairingCode || null
           },
           timestamp: new Date().toISOString()
         });
         
       } catch (error: unknown) {
+        // Limite de sessões: 429 pelo errorHandler
+        if (error instanceof TooManyRequestsError) {
+          throw error;
+        }
         const err = error as Error;
         res.status(500).json({
           success: false,
@@ -90,8 +122,11 @@ export function sessionRoutes(whatsappService: WhatsAppService, tenantManager: T
         // Enhanced response with persistent QR stats
         const qrData = {
           qrCode: status.qrCode || null,
+          pairingCode: status.pairingCode || null,
+          loginMethod: status.loginMethod,
           status: status.status,
           hasQR: !!status.qrCode,
+          hasPairingCode: !!status.pairingCode,
           lastActivity: status.lastActivity,
           persistent: true, // Indicates this uses persistent QR service
           cacheOptimized: true
@@ -169,6 +204,10 @@ export function sessionRoutes(whatsappService: WhatsAppService, tenantManager: T
         });
         
       } catch (error: unknown) {
+        // Limite de sessões: 429 pelo errorHandler
+        if (error instanceof TooManyRequestsError) {
+          throw error;
+        }
         const err = error as Error;
         res.status(500).json({
           success: false,
@@ -208,6 +247,94 @@ export function sessionRoutes(whatsappService: WhatsAppService, tenantManager: T
     })
   );
 
+  // Resultado da restauração automática de sessões no boot - lista todos os tenants, só para a API key do serviço
+  router.get('/restore/summary',
+    requireAdmin,
+    handleAsync(async (req, res) => {
+      const summary = whatsappService.getRestoreSummary();
+      const sessions = new Map(whatsappService.getActiveSessions().map(session => [session.tenantId, session.status]));
+      const withCurrentStatus = (results: SessionRestoreResult[]) => results.map(result => ({
+        ...result,
+        currentStatus: sessions.get(result.tenantId) || 'disconnected'
+      }));
+
+      res.json({
+        success: true,
+        data: {
+          enabled: config.SESSION_AUTO_RESTORE,
+          summary: summary && {
+            ...summary,
+            restored: withCurrentStatus(summary.restored),
+            failed: withCurrentStatus(summary.failed),
+            skipped: withCurrentStatus(summary.skipped)
+          }
+        },
+        timestamp: new Date().toISOString()
+      });
+    })
+  );
+
+  // Configurações do tenant (ex: política de consolidação das mensagens recebidas)
+  router.get('/:tenantId/settings',
+    validateTenantAccess(tenantManager, ['sessions:read']),
+    handleAsync(async (req, res) => {
+      const { tenantId } = req.params;
+
+      res.json({
+        success: true,
+        data: {
+          messageConsolidation: await tenantManager.getMessageConsolidationPolicy(tenantId),
+          autoReconnect: await tenantManager.shouldAutoReconnect(tenantId),
+          groupMessages: (await tenantManager.shouldIncludeGroupMessages(tenantId)) ? 'include' : 'ignore'
+        },
+        timestamp: new Date().toISOString()
+      });
+    })
+  );
+
+  router.patch('/:tenantId/settings',
+    validateTenantAccess(tenantManager, ['sessions:write']),
+    validateRequestBody(tenantSettingsSchema),
+    handleAsync(async (req, res) => {
+      const { tenantId } = req.params;
+      const tenant = await tenantManager.getTenant(tenantId);
+
+      try {
+        await tenantManager.updateTenant(tenantId, {
+          settings: {
+            ...tenant!.settings,
+            ...(req.body.autoReconnect !== undefined && { autoReconnect: req.body.autoReconnect }),
+            ...(req.body.groupMessages && { groupMessages: req.body.groupMessages }),
+            ...(req.body.messageConsolidation && {
+              messageConsolidation: {
+                ...tenant!.settings.messageConsolidation,
+                ...req.body.messageConsolidation
+              }
+            })
+          }
+        });
+      } catch (error: unknown) {
+        const err = error as Error;
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid settings',
+          message: err.message,
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      res.json({
+        success: true,
+        data: {
+          messageConsolidation: await tenantManager.getMessageConsolidationPolicy(tenantId),
+          autoReconnect: await tenantManager.shouldAutoReconnect(tenantId),
+          groupMessages: (await tenantManager.shouldIncludeGroupMessages(tenantId)) ? 'include' : 'ignore'
+        },
+        timestamp: new Date().toISOString()
+      });
+    })
+  );
+
   // Status da transcrição de áudio
   router.get('/transcription/status',
     handleAsync(async (req, res) => {
@@ -225,6 +352,53 @@ export function sessionRoutes(whatsappService: WhatsAppService, tenantManager: T
     })
   );
 
+  // Stream SSE do ciclo de vida da sessão (QR, código de pareamento, conexão, reconexões)
+  router.get('/:tenantId/events',
+    validateTenantAccess(tenantManager, ['sessions:read']),
+    handleAsync(async (req, res) => {
+      const { tenantId } = req.params;
+
+      res.status(200).set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no' // Nginx: não bufferizar o stream
+      });
+      res.flushHeaders();
+
+      const send = (event: string, data: unknown) => {
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      };
+
+      // Registrar antes do primeiro await: o cliente pode desconectar enquanto o status é buscado
+      let closed = false;
+      let heartbeat: NodeJS.Timeout | null = null;
+      let unsubscribe: (() => void) | null = null;
+      res.on('close', () => {
+        closed = true;
+        if (heartbeat) clearInterval(heartbeat);
+        unsubscribe?.();
+      });
+
+      // Estado atual primeiro: a UI não precisa esperar o próximo evento
+      res.write('retry: 5000\n\n');
+      const status = await whatsappService.getSessionStatus(tenantId);
+      if (closed) {
+        return;
+      }
+
+      send('status', {
+        tenantId,
+        ...status,
+        timestamp: new Date().toISOString()
+      });
+
+      unsubscribe = whatsappService.subscribeSessionEvents(tenantId, (event) => send(event.type, event));
+      // Comentário periódico mantém a conexão aberta em proxies com idle timeout
+      heartbeat = setInterval(() => res.write(': ping\n\n'), 25000);
+    })
+  );
+
   // Endpoint para polling de status (otimizado)
   router.get('/:tenantId/poll', 
     validateTenantAccess(tenantManager, ['sessions:read']),
@@ -240,8 +414,8 @@ export function sessionRoutes(whatsappService: WhatsAppService, tenantManager: T
         while (Date.now() - startTime < maxTimeout) {
           const status = await whatsappService.getSessionStatus(tenantId);
           
-          // Se tiver QR code ou estiver conectado, retornar imediatamente
-          if (status.qrCode || status.connected) {
+          // Se tiver QR code, código de pareamento ou estiver conectado, retornar imediatamente
+          if (status.qrCode || status.pairingCode || status.connected) {
             return res.json({
               success: true,
               data: status,
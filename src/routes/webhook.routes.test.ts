@@ -0,0 +1,158 @@
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import pino from 'pino';
+import jwt from 'jsonwebtoken';
+import { config } from '../config/config';
+import { TenantManager } from '../services/tenant.service';
+import { WebhookService } from '../services/webhook.service';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { webhookRoutes } from './webhook.routes';
+
+describe('webhook routes', () => {
+  let tenantManager: TenantManager;
+  let webhookService: Record<string, jest.Mock>;
+  let server: Server;
+  let baseUrl: string;
+
+  const tenantToken = (tenantId: string, permissions: string[]) =>
+    jwt.sign({ type: 'tenant_access', tenantId, permissions }, config.JWT_SECRET);
+
+  const request = (method: string, path: string, token?: string, body?: unknown) =>
+    fetch(`${baseUrl}/api/v1/webhooks${path}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token && { Authorization: `Bearer ${token}` })
+      },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+
+  beforeAll(async () => {
+    tenantManager = new TenantManager(pino({ level: 'silent' }));
+    await tenantManager.createTenant({
+      id: 'tenant-a',
+      name: 'Tenant A',
+      settings: { maxSessions: 1, rateLimit: { windowMs: 60000, max: 100 } },
+      status: 'active'
+    });
+    await tenantManager.createTenantAuth('tenant-a', { permissions: ['*'] });
+
+    webhookService = {
+      listDeadLetters: jest.fn(),
+      purgeDeadLetters: jest.fn(),
+      replayDeadLetters: jest.fn(),
+      rotateWebhookSecret: jest.fn()
+    };
+
+    // Mesma montagem do server.ts
+    const requireAuth = authMiddleware(tenantManager);
+    const app = express();
+    app.use(express.json());
+    app.use('/api/v1/webhooks', (req, res, next) => req.path === '/validate' ? next() : requireAuth(req, res, next));
+    app.use('/api/v1/webhooks', webhookRoutes({} as any, tenantManager, webhookService as unknown as WebhookService));
+
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await tenantManager.shutdown();
+  });
+
+  beforeEach(() => {
+    webhookService.listDeadLetters.mockResolvedValue([]);
+    webhookService.purgeDeadLetters.mockResolvedValue(0);
+    webhookService.replayDeadLetters.mockResolvedValue({ delivered: [], failed: [] });
+    webhookService.rotateWebhookSecret.mockResolvedValue({
+      webhook: { id: 'wh-1', url: 'https://example.com/hook', secret: 'new-secret', events: ['message'], active: true },
+      secret: 'new-secret',
+      secretId: 'secret-1'
+    });
+  });
+
+  describe('dead letters', () => {
+    it.each([
+      ['GET', '/dead-letters/tenant-a'],
+      ['POST', '/dead-letters/tenant-a/replay'],
+      ['POST', '/dead-letters/tenant-a/dl-1/replay'],
+      ['DELETE', '/dead-letters/tenant-a'],
+      ['DELETE', '/dead-letters/tenant-a/dl-1']
+    ])('rejects unauthenticated %s %s with 401', async (method, path) => {
+      const response = await request(method, path, undefined, method === 'POST' ? {} : undefined);
+
+      expect(response.status).toBe(401);
+      expect(webhookService.listDeadLetters).not.toHaveBeenCalled();
+      expect(webhookService.replayDeadLetters).not.toHaveBeenCalled();
+      expect(webhookService.purgeDeadLetters).not.toHaveBeenCalled();
+    });
+
+    it('lists dead letters for the token tenant with webhooks:read', async () => {
+      const response = await request('GET', '/dead-letters/tenant-a', tenantToken('tenant-a', ['webhooks:read']));
+
+      expect(response.status).toBe(200);
+      expect(webhookService.listDeadLetters).toHaveBeenCalledWith('tenant-a', undefined);
+    });
+
+    it('requires webhooks:write to purge', async () => {
+      const response = await request('DELETE', '/dead-letters/tenant-a', tenantToken('tenant-a', ['webhooks:read']));
+
+      expect(response.status).toBe(403);
+      expect(webhookService.purgeDeadLetters).not.toHaveBeenCalled();
+    });
+
+    it('rejects a token issued for another tenant', async () => {
+      const response = await request('GET', '/dead-letters/tenant-a', tenantToken('tenant-b', ['*']));
+
+      expect(response.status).toBe(403);
+      expect(webhookService.listDeadLetters).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rotate-secret', () => {
+    it('rejects unauthenticated requests with 401 without rotating', async () => {
+      const response = await request('POST', '/tenant-a/wh-1/rotate-secret', undefined, {});
+
+      expect(response.status).toBe(401);
+      expect(webhookService.rotateWebhookSecret).not.toHaveBeenCalled();
+    });
+
+    it('rejects tokens without webhooks:write', async () => {
+      const response = await request('POST', '/tenant-a/wh-1/rotate-secret', tenantToken('tenant-a', ['webhooks:read']), {});
+
+      expect(response.status).toBe(403);
+      expect(webhookService.rotateWebhookSecret).not.toHaveBeenCalled();
+    });
+
+    it('rejects a token issued for another tenant', async () => {
+      const response = await request('POST', '/tenant-a/wh-1/rotate-secret', tenantToken('tenant-b', ['*']), {});
+
+      expect(response.status).toBe(403);
+      expect(webhookService.rotateWebhookSecret).not.toHaveBeenCalled();
+    });
+
+    it('returns the new secret to the owning tenant', async () => {
+      const response = await request('POST', '/tenant-a/wh-1/rotate-secret', tenantToken('tenant-a', ['webhooks:write']), {});
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.data.secret).toBe('new-secret');
+      expect(body.data.webhook.secret).toBe('[HIDDEN]');
+    });
+  });
+
+  it('keeps /validate public', async () => {
+    process.env.WEBHOOK_VERIFY_TOKEN = 'verify-me';
+    const response = await fetch(`${baseUrl}/api/v1/webhooks/validate?hub.mode=subscribe&hub.verify_token=verify-me&hub.challenge=42`);
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe('42');
+  });
+
+  it('restricts internal routes to the service API key', async () => {
+    const response = await request('POST', '/internal/status', tenantToken('tenant-a', ['*']), { tenantId: 'tenant-a' });
+
+    expect(response.status).toBe(403);
+  });
+});
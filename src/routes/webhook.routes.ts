@@ -2,8 +2,10 @@ import { Router } from 'express';
 import { WhatsAppService } from '../services/whatsapp.service';
 import { TenantManager } from '../services/tenant.service';
 import { handleAsync } from '../utils/async-handler';
-import { WebhookService } from '../services/webhook.service';
-import { validateRequestBody } from '../middleware/validation.middleware';
+import { requireAdmin } from '../middleware/auth.middleware';
+import { validateTenantAccess } from '../middleware/tenant.middleware';
+import { WebhookService, WebhookConfig, WEBHOOK_EVENTS } from '../services/webhook.service';
+import { validateRequestBody, validateRequestQuery } from '../middleware/validation.middleware';
 import Joi from 'joi';
 import crypto from 'crypto';
 
@@ -20,13 +22,58 @@ const incomingMessageSchema = Joi.object({
   caption: Joi.string().optional()
 });
 
-export function webhookRoutes(whatsappService: WhatsAppService, tenantManager: TenantManager): Router {
+// Schemas para registro e atualização de webhooks
+const registerWebhookSchema = Joi.object({
+  url: Joi.string().uri({ scheme: ['http', 'https'] }).required(),
+  secret: Joi.string().min(8).max(256).optional(),
+  events: Joi.array().items(Joi.string().valid(...WEBHOOK_EVENTS)).min(1).unique().default(['message', 'status']),
+  active: Joi.boolean().default(true)
+});
+
+const updateWebhookSchema = Joi.object({
+  url: Joi.string().uri({ scheme: ['http', 'https'] }),
+  secret: Joi.string().min(8).max(256).allow(null),
+  events: Joi.array().items(Joi.string().valid(...WEBHOOK_EVENTS)).min(1).unique(),
+  active: Joi.boolean()
+}).min(1);
+
+const deadLetterQuerySchema = Joi.object({
+  status: Joi.string().valid('retrying', 'exhausted').optional()
+});
+
+const replayDeadLettersSchema = Joi.object({
+  ids: Joi.array().items(Joi.string()).min(1).max(500).optional()
+});
+
+const rotateSecretSchema = Joi.object({
+  secret: Joi.string().min(32).max(256).optional(), // Sem secret: gerado automaticamente
+  gracePeriodSeconds: Joi.number().integer().min(0).max(7 * 24 * 60 * 60).default(24 * 60 * 60)
+});
+
+// Nunca expor secrets nas respostas
+function serializeWebhook(webhook: WebhookConfig) {
+  const { previousSecrets, ...rest } = webhook;
+  return {
+    ...rest,
+    secret: webhook.secret ? '[HIDDEN]' : null,
+    previousSecrets: (previousSecrets || []).map(previous => ({
+      id: previous.id,
+      expiresAt: previous.expiresAt
+    }))
+  };
+}
+
+export function webhookRoutes(
+  whatsappService: WhatsAppService,
+  tenantManager: TenantManager,
+  webhookService: WebhookService
+): Router {
   const router = Router();
-  const webhookService = new WebhookService();
 
   // Webhook para receber mensagens do WhatsApp (interno)
-  // Este endpoint é chamado pelo próprio microserviço quando recebe mensagens
+  // Este endpoint é chamado pelo próprio microserviço quando recebe mensagens - só com a API key do serviço
   router.post('/internal/message', 
+    requireAdmin,
     validateRequestBody(incomingMessageSchema),
     handleAsync(async (req, res) => {
       const messageData = req.body;
@@ -56,6 +103,7 @@ export function webhookRoutes(whatsappService: WhatsAppService, tenantManager: T
 
   // Webhook para notificar mudanças de status das sessões
   router.post('/internal/status', 
+    requireAdmin,
     handleAsync(async (req, res) => {
       const { tenantId, status, phoneNumber, event } = req.body;
       
@@ -88,21 +136,21 @@ export function webhookRoutes(whatsappService: WhatsAppService, tenantManager: T
   );
 
   // Endpoint para registrar webhooks externos (LocAI)
+  // Cada tenant pode ter vários webhooks; registrar a mesma URL atualiza o existente
   router.post('/register/:tenantId', 
+    validateTenantAccess(tenantManager, ['webhooks:write']),
+    validateRequestBody(registerWebhookSchema),
     handleAsync(async (req, res) => {
       const { tenantId } = req.params;
-      const { url, secret, events = ['message', 'status'] } = req.body;
+      const { url, secret, events, active } = req.body;
       
       try {
-        // Validar URL
-        new URL(url); // Throws if invalid
-        
         // Registrar webhook para o tenant
-        await webhookService.registerWebhook(tenantId, {
+        const webhookId = await webhookService.registerWebhook(tenantId, {
           url,
           secret,
           events,
-          active: true
+          active
         });
         
         res.json({
@@ -110,9 +158,10 @@ export function webhookRoutes(whatsappService: WhatsAppService, tenantManager: T
           message: 'Webhook registered successfully',
           data: {
             tenantId,
+            webhookId,
             url,
             events,
-            active: true
+            active
           },
           timestamp: new Date().toISOString()
         });
@@ -131,6 +180,7 @@ export function webhookRoutes(whatsappService: WhatsAppService, tenantManager: T
 
   // Listar webhooks registrados
   router.get('/list/:tenantId', 
+    validateTenantAccess(tenantManager, ['webhooks:read']),
     handleAsync(async (req, res) => {
       const { tenantId } = req.params;
       
@@ -141,10 +191,7 @@ export function webhookRoutes(whatsappService: WhatsAppService, tenantManager: T
           success: true,
           data: {
             tenantId,
-            webhooks: webhooks.map(webhook => ({
-              ...webhook,
-              secret: webhook.secret ? '[HIDDEN]' : null // Não expor secrets
-            }))
+            webhooks: webhooks.map(serializeWebhook)
           },
           timestamp: new Date().toISOString()
         });
@@ -161,13 +208,185 @@ export function webhookRoutes(whatsappService: WhatsAppService, tenantManager: T
     })
   );
 
+  // Dead letters: entregas que falharam e estão no outbox (re-tentadas em background)
+  // Registradas antes de '/:tenantId/:webhookId' para não colidir com DELETE /dead-letters/:tenantId
+  router.get('/dead-letters/:tenantId',
+    validateTenantAccess(tenantManager, ['webhooks:read']),
+    validateRequestQuery(deadLetterQuerySchema),
+    handleAsync(async (req, res) => {
+      const { tenantId } = req.params;
+      const deadLetters = await webhookService.listDeadLetters(tenantId, req.query.status as any);
+
+      res.json({
+        success: true,
+        data: {
+          tenantId,
+          deadLetters,
+          count: deadLetters.length
+        },
+        timestamp: new Date().toISOString()
+      });
+    })
+  );
+
+  // Reenviar agora (todas do tenant ou ids específicos)
+  router.post('/dead-letters/:tenantId/replay',
+    validateTenantAccess(tenantManager, ['webhooks:write']),
+    validateRequestBody(replayDeadLettersSchema),
+    handleAsync(async (req, res) => {
+      const { tenantId } = req.params;
+      const result = await webhookService.replayDeadLetters(tenantId, req.body.ids);
+
+      res.json({
+        success: result.failed.length === 0,
+        data: result,
+        timestamp: new Date().toISOString()
+      });
+    })
+  );
+
+  router.post('/dead-letters/:tenantId/:deadLetterId/replay',
+    validateTenantAccess(tenantManager, ['webhooks:write']),
+    handleAsync(async (req, res) => {
+      const { tenantId, deadLetterId } = req.params;
+
+      if (!await webhookService.getDeadLetter(tenantId, deadLetterId)) {
+        return res.status(404).json({
+          success: false,
+          error: 'Dead letter not found',
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      const result = await webhookService.replayDeadLetters(tenantId, [deadLetterId]);
+
+      res.json({
+        success: result.delivered.length === 1,
+        data: {
+          deadLetterId,
+          delivered: result.delivered.length === 1,
+          error: result.failed[0]?.error || null,
+          deadLetter: await webhookService.getDeadLetter(tenantId, deadLetterId)
+        },
+        timestamp: new Date().toISOString()
+      });
+    })
+  );
+
+  // Descartar dead letters (todas, por status ou uma específica)
+  router.delete('/dead-letters/:tenantId',
+    validateTenantAccess(tenantManager, ['webhooks:write']),
+    validateRequestQuery(deadLetterQuerySchema),
+    handleAsync(async (req, res) => {
+      const { tenantId } = req.params;
+      const removed = await webhookService.purgeDeadLetters(tenantId, { status: req.query.status as any });
+
+      res.json({
+        success: true,
+        data: { removed },
+        timestamp: new Date().toISOString()
+      });
+    })
+  );
+
+  router.delete('/dead-letters/:tenantId/:deadLetterId',
+    validateTenantAccess(tenantManager, ['webhooks:write']),
+    handleAsync(async (req, res) => {
+      const { tenantId, deadLetterId } = req.params;
+      const removed = await webhookService.purgeDeadLetters(tenantId, { deadLetterId });
+
+      if (removed === 0) {
+        return res.status(404).json({
+          success: false,
+          error: 'Dead letter not found',
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      res.json({
+        success: true,
+        data: { removed },
+        timestamp: new Date().toISOString()
+      });
+    })
+  );
+
+  // Atualizar webhook (eventos, secret, URL ou ativar/desativar)
+  router.patch('/:tenantId/:webhookId',
+    validateTenantAccess(tenantManager, ['webhooks:write']),
+    validateRequestBody(updateWebhookSchema),
+    handleAsync(async (req, res) => {
+      const { tenantId, webhookId } = req.params;
+      const { secret, ...changes } = req.body;
+
+      const webhook = await webhookService.updateWebhook(tenantId, webhookId, {
+        ...changes,
+        ...(secret !== undefined && { secret: secret || undefined })
+      });
+
+      if (!webhook) {
+        return res.status(404).json({
+          success: false,
+          error: 'Webhook not found',
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      res.json({
+        success: true,
+        message: 'Webhook updated successfully',
+        data: serializeWebhook(webhook),
+        timestamp: new Date().toISOString()
+      });
+    })
+  );
+
+  // Rotacionar secret - o anterior continua válido durante gracePeriodSeconds
+  // O novo secret só é retornado nesta resposta
+  router.post('/:tenantId/:webhookId/rotate-secret',
+    validateTenantAccess(tenantManager, ['webhooks:write']),
+    validateRequestBody(rotateSecretSchema),
+    handleAsync(async (req, res) => {
+      const { tenantId, webhookId } = req.params;
+      const { secret, gracePeriodSeconds } = req.body;
+
+      const result = await webhookService.rotateWebhookSecret(tenantId, webhookId, { secret, gracePeriodSeconds });
+      if (!result) {
+        return res.status(404).json({
+          success: false,
+          error: 'Webhook not found',
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      res.json({
+        success: true,
+        message: 'Webhook secret rotated successfully',
+        data: {
+          webhook: serializeWebhook(result.webhook),
+          secret: result.secret,
+          secretId: result.secretId
+        },
+        timestamp: new Date().toISOString()
+      });
+    })
+  );
+
   // Remover webhook
   router.delete('/:tenantId/:webhookId', 
+    validateTenantAccess(tenantManager, ['webhooks:write']),
     handleAsync(async (req, res) => {
       const { tenantId, webhookId } = req.params;
       
       try {
-        await webhookService.removeWebhook(tenantId, webhookId);
+        const removed = await webhookService.removeWebhook(tenantId, webhookId);
+        if (!removed) {
+          return res.status(404).json({
+            success: false,
+            error: 'Webhook not found',
+            timestamp: new Date().toISOString()
+          });
+        }
         
         res.json({
           success: true,
@@ -189,11 +408,19 @@ export function webhookRoutes(whatsappService: WhatsAppService, tenantManager: T
 
   // Testar webhook
   router.post('/test/:tenantId/:webhookId', 
+    validateTenantAccess(tenantManager, ['webhooks:write']),
     handleAsync(async (req, res) => {
       const { tenantId, webhookId } = req.params;
       
       try {
         const testResult = await webhookService.testWebhook(tenantId, webhookId);
+        if (testResult.error === 'Webhook not found') {
+          return res.status(404).json({
+            success: false,
+            error: testResult.error,
+            timestamp: new Date().toISOString()
+          });
+        }
         
         res.json({
           success: testResult.success,
@@ -213,7 +440,7 @@ export function webhookRoutes(whatsappService: WhatsAppService, tenantManager: T
     })
   );
 
-  // Endpoint público para validação de webhook (similar ao WhatsApp)
+  // Endpoint público para validação de webhook (similar ao WhatsApp) - isento do requireAuth em server.ts
   router.get('/validate', 
     handleAsync(async (req, res) => {
       const { 'hub.mode': mode, 'hub.challenge': challenge, 'hub.verify_token': token } = req.query;
@@ -233,6 +460,7 @@ export function webhookRoutes(whatsappService: WhatsAppService, tenantManager: T
 
   // Estatísticas de webhooks
   router.get('/stats/:tenantId', 
+    validateTenantAccess(tenantManager, ['webhooks:read']),
     handleAsync(async (req, res) => {
       const { tenantId } = req.params;
       
@@ -262,6 +490,7 @@ export function webhookRoutes(whatsappService: WhatsAppService, tenantManager: T
 
   // 🔴 NOVO: Debug do cache de mensagens enviadas
   router.get('/debug/cache', 
+    requireAdmin,
     handleAsync(async (req, res) => {
       try {
         const cache = await webhookService.getSentMessagesCache();
@@ -291,6 +520,7 @@ export function webhookRoutes(whatsappService: WhatsAppService, tenantManager: T
 
   // 🔴 NOVO: Limpar cache manualmente (para debugging)
   router.post('/debug/clear-cache', 
+    requireAdmin,
     handleAsync(async (req, res) => {
       try {
         // Limpar cache de mensagens enviadas
@@ -0,0 +1,263 @@
+import { Server, IncomingMessage } from 'http';
+import { Duplex } from 'stream';
+import { WebSocketServer, WebSocket, RawData } from 'ws';
+import { WhatsAppService, MessageData } from '../services/whatsapp.service';
+import { TenantManager } from '../services/tenant.service';
+import { WebhookService } from '../services/webhook.service';
+import { SendQueueService } from '../services/send-queue.service';
+import { authenticateToken } from '../middleware/auth.middleware';
+import { resolveTenant } from '../middleware/tenant.middleware';
+import { sendMessageSchema, serializeJob } from './message.routes';
+import { config } from '../config/config';
+
+const WS_PATH = /^\/api\/v1\/ws\/([^/?]+)\/?$/;
+const HEARTBEAT_INTERVAL_MS = 30000;
+
+interface GatewayClient {
+  socket: WebSocket;
+  tenantId: string;
+  alive: boolean;
+}
+
+/**
+ * Gateway WebSocket por tenant: ws(s)://host/api/v1/ws/:tenantId
+ *
+ * Servidor -> cliente: { type: 'ready' }, { type: 'event', event, payload } (mesmo payload do webhook)
+ * Cliente -> servidor: { type: 'send', requestId, message } validado com sendMessageSchema,
+ * respondido com { type: 'ack', requestId, success, ... }
+ */
+export function attachWebSocketGateway(
+  server: Server,
+  whatsappService: WhatsAppService,
+  tenantManager: TenantManager,
+  webhookService: WebhookService,
+  sendQueueService: SendQueueService
+): WebSocketServer {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: 1024 * 1024 });
+  const clients: Map<string, Set<GatewayClient>> = new Map();
+
+  const rejectUpgrade = (socket: Duplex, statusCode: number, message: string) => {
+    socket.write(`HTTP/1.1 ${statusCode} ${message}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`);
+    socket.destroy();
+  };
+
+  const send = (client: GatewayClient, data: unknown) => {
+    if (client.socket.readyState === WebSocket.OPEN) {
+      client.socket.send(JSON.stringify(data));
+    }
+  };
+
+  // Autenticar antes do upgrade: mesmo token do HTTP (header Authorization ou ?access_token=)
+  server.on('upgrade', async (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const match = WS_PATH.exec(url.pathname);
+    if (!match) {
+      return rejectUpgrade(socket, 404, 'Not Found');
+    }
+
+    const tenantId = decodeURIComponent(match[1]);
+
+    try {
+      let authTenantId: string | undefined;
+
+      if (config.REQUIRE_AUTH || !config.IS_DEVELOPMENT) {
+        const authHeader = req.headers.authorization;
+        const token = authHeader?.startsWith('Bearer ')
+          ? authHeader.slice(7)
+          : url.searchParams.get('access_token');
+
+        const auth = token ? await authenticateToken(tenantManager, token, tenantId) : null;
+        if (!auth) {
+          return rejectUpgrade(socket, 401, 'Unauthorized');
+        }
+        if (!tenantManager.checkPermissions(auth.permissions, ['messages:send'])) {
+          return rejectUpgrade(socket, 403, 'Forbidden');
+        }
+        authTenantId = auth.tenantId;
+
+        if (auth.isAdmin) {
+          console.log('🛂 [Auth] Service API key acting on tenant', {
+            tenantId: tenantId.substring(0, 8) + '***',
+            path: '/api/v1/ws/:tenantId'
+          });
+        }
+      }
+
+      // A API key do serviço recebe o tenant da URL em authenticateToken; os demais tokens precisam bater
+      if (authTenantId && authTenantId !== tenantId) {
+        return rejectUpgrade(socket, 403, 'Forbidden');
+      }
+
+      const provisionToken = (req.headers['x-provision-token'] as string) || url.searchParams.get('provision_token') || undefined;
+      if (!(await resolveTenant(tenantManager, tenantId, provisionToken))) {
+        return rejectUpgrade(socket, 404, 'Not Found');
+      }
+      if (!(await tenantManager.validateTenantAccess(tenantId, ['messages:send']))) {
+        return rejectUpgrade(socket, 403, 'Forbidden');
+      }
+    } catch {
+      return rejectUpgrade(socket, 401, 'Unauthorized');
+    }
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      wss.emit('connection', ws, req, tenantId);
+    });
+  });
+
+  wss.on('connection', async (socket: WebSocket, _req: IncomingMessage, tenantId: string) => {
+    const client: GatewayClient = { socket, tenantId, alive: true };
+
+    let tenantClients = clients.get(tenantId);
+    if (!tenantClients) {
+      tenantClients = new Set();
+      clients.set(tenantId, tenantClients);
+    }
+    tenantClients.add(client);
+
+    console.log('🔌 [WebSocket] Client connected', {
+      tenantId: tenantId.substring(0, 8) + '***',
+      clients: tenantClients.size
+    });
+
+    socket.on('pong', () => {
+      client.alive = true;
+    });
+
+    socket.on('message', (raw: RawData) => {
+      handleClientMessage(client, raw).catch((error) => {
+        console.log('❌ [WebSocket] Failed to handle client message', {
+          tenantId: tenantId.substring(0, 8) + '***',
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      });
+    });
+
+    socket.on('close', () => {
+      tenantClients!.delete(client);
+      if (tenantClients!.size === 0 && clients.get(tenantId) === tenantClients) {
+        clients.delete(tenantId);
+      }
+
+      console.log('🔌 [WebSocket] Client disconnected', {
+        tenantId: tenantId.substring(0, 8) + '***'
+      });
+    });
+
+    send(client, {
+      type: 'ready',
+      tenantId,
+      session: await whatsappService.getSessionStatus(tenantId),
+      timestamp: new Date().toISOString()
+    });
+  });
+
+  const handleClientMessage = async (client: GatewayClient, raw: RawData) => {
+    let command: any;
+    try {
+      command = JSON.parse(raw.toString());
+    } catch {
+      return send(client, { type: 'error', error: 'Invalid JSON' });
+    }
+
+    if (command?.type === 'ping') {
+      return send(client, { type: 'pong', timestamp: new Date().toISOString() });
+    }
+
+    if (command?.type !== 'send') {
+      return send(client, {
+        type: 'error',
+        requestId: command?.requestId,
+        error: `Unknown command type: ${command?.type}`
+      });
+    }
+
+    const requestId = command.requestId;
+    const ack = (result: Record<string, unknown>) => send(client, {
+      type: 'ack',
+      requestId,
+      ...result,
+      timestamp: new Date().toISOString()
+    });
+
+    if (typeof requestId !== 'string' || !requestId) {
+      return send(client, { type: 'error', error: 'requestId is required' });
+    }
+
+    const { error, value } = sendMessageSchema.validate(command.message, { abortEarly: false, stripUnknown: true });
+    if (error) {
+      return ack({
+        success: false,
+        error: 'Validation failed',
+        details: error.details.map(detail => ({
+          field: detail.path.join('.'),
+          message: detail.message
+        }))
+      });
+    }
+
+    const { sendAt, queue, tenantId: _bodyTenantId, ...body } = value;
+    const messageData: MessageData = {
+      ...body,
+      to: body.to || body.clientPhone
+    };
+
+    // Mesmas regras do POST /send: agendado, fila explícita ou sessão ainda conectando
+    const status = whatsappService.getSession(client.tenantId)?.status;
+    if (sendAt || queue || status === 'connecting' || status === 'qr' || status === 'pairing_code') {
+      const job = sendQueueService.enqueue(client.tenantId, messageData, { sendAt });
+      return ack({ success: true, queued: true, data: serializeJob(job) });
+    }
+
+    try {
+      const result = await whatsappService.sendMessage(client.tenantId, messageData);
+
+      if (result.success) {
+        return ack({
+          success: true,
+          data: {
+            messageId: result.messageId,
+            to: messageData.to,
+            type: messageData.type || 'text'
+          }
+        });
+      }
+
+      return ack({ success: false, error: result.error });
+    } catch (sendError) {
+      return ack({
+        success: false,
+        error: sendError instanceof Error ? sendError.message : 'Internal server error'
+      });
+    }
+  };
+
+  // Mesmos payloads entregues aos webhooks (message, status_change, message_status)
+  webhookService.on('event', (tenantId: string, payload: any) => {
+    const tenantClients = clients.get(tenantId);
+    if (!tenantClients) return;
+
+    for (const client of tenantClients) {
+      send(client, { type: 'event', event: payload.event, payload });
+    }
+  });
+
+  // Encerrar conexões que não respondem ao ping (proxy/rede caiu sem close)
+  const heartbeat = setInterval(() => {
+    for (const tenantClients of clients.values()) {
+      for (const client of tenantClients) {
+        if (!client.alive) {
+          client.socket.terminate();
+          continue;
+        }
+        client.alive = false;
+        client.socket.ping();
+      }
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+
+  wss.on('close', () => clearInterval(heartbeat));
+
+  console.log('✅ [WebSocket] Gateway attached at /api/v1/ws/:tenantId');
+
+  return wss;
+}
@@ -0,0 +1,136 @@
+/**
+ * Migrar credenciais Baileys entre backends do AuthStateStore
+ *
+ * Uso (com o serviço parado, para nenhuma sessão gravar durante a cópia):
+ *   npm run auth-state:migrate -- --from filesystem --to s3
+ *   npm run auth-state:migrate -- --from filesystem --to sql --tenant tenant-123 --delete-source
+ *
+ * Opções:
+ *   --from, --to       filesystem | sql | s3
+ *   --tenant <id>      Migrar apenas este tenant (pode repetir). Padrão: todos do backend de origem
+ *   --delete-source    Apagar da origem depois de copiar e conferir
+ *   --dry-run          Apenas listar o que seria migrado
+ */
+import {
+  AuthStateBackend,
+  createAuthStateStore,
+  copyTenantAuthState
+} from '../services/auth-state.service';
+import { closeDatabasePool } from '../utils/database';
+
+const BACKENDS: AuthStateBackend[] = ['filesystem', 'sql', 's3'];
+
+interface MigrationOptions {
+  from: AuthStateBackend;
+  to: AuthStateBackend;
+  tenants: string[];
+  deleteSource: boolean;
+  dryRun: boolean;
+}
+
+function parseArgs(argv: string[]): MigrationOptions {
+  const options: Partial<MigrationOptions> = { tenants: [], deleteSource: false, dryRun: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    switch (arg) {
+      case '--from':
+      case '--to': {
+        const backend = argv[++i] as AuthStateBackend;
+        if (!BACKENDS.includes(backend)) {
+          throw new Error(`${arg} must be one of: ${BACKENDS.join(', ')}`);
+        }
+        options[arg === '--from' ? 'from' : 'to'] = backend;
+        break;
+      }
+      case '--tenant':
+        if (!argv[i + 1]) {
+          throw new Error('--tenant requires a tenant id');
+        }
+        options.tenants!.push(argv[++i]);
+        break;
+      case '--delete-source':
+        options.deleteSource = true;
+        break;
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+      default:
+        throw new Error(`Unknown option: ${arg}`);
+    }
+  }
+
+  if (!options.from || !options.to) {
+    throw new Error('Both --from and --to are required');
+  }
+
+  if (options.from === options.to) {
+    throw new Error('--from and --to must be different backends');
+  }
+
+  return options as MigrationOptions;
+}
+
+async function migrate(options: MigrationOptions): Promise<boolean> {
+  const source = createAuthStateStore(options.from);
+  const target = createAuthStateStore(options.to);
+  const tenants = options.tenants.length > 0 ? options.tenants : await source.listTenants();
+
+  console.log(`🔄 [AuthState Migration] ${options.from} -> ${options.to} (${tenants.length} tenant(s)${options.dryRun ? ', dry run' : ''})`);
+
+  let failures = 0;
+
+  for (const tenantId of tenants) {
+    try {
+      const sourceKeys = await source.listKeys(tenantId);
+
+      if (sourceKeys.length === 0) {
+        console.log(`⚠️ [AuthState Migration] ${tenantId}: no keys in source, skipping`);
+        continue;
+      }
+
+      if (options.dryRun) {
+        console.log(`📋 [AuthState Migration] ${tenantId}: ${sourceKeys.length} key(s) would be copied`);
+        continue;
+      }
+
+      const copied = await copyTenantAuthState(source, target, tenantId);
+
+      // Conferir antes de apagar qualquer coisa da origem
+      const targetKeys = new Set(await target.listKeys(tenantId));
+      const missing = sourceKeys.filter(key => !targetKeys.has(key));
+      if (missing.length > 0) {
+        throw new Error(`${missing.length} key(s) missing in target after copy`);
+      }
+
+      if (options.deleteSource) {
+        await source.clear(tenantId);
+      }
+
+      console.log(`✅ [AuthState Migration] ${tenantId}: ${copied} key(s) copied${options.deleteSource ? ', source deleted' : ''}`);
+    } catch (error) {
+      failures++;
+      console.log(`❌ [AuthState Migration] ${tenantId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  console.log(`🏁 [AuthState Migration] Finished (tenants: ${tenants.length}, failed: ${failures})`);
+  return failures === 0;
+}
+
+async function main(): Promise<void> {
+  let success = false;
+
+  try {
+    success = await migrate(parseArgs(process.argv.slice(2)));
+  } catch (error) {
+    console.log(`❌ [AuthState Migration] ${error instanceof Error ? error.message : 'Unknown error'}`);
+  } finally {
+    await closeDatabasePool();
+  }
+
+  process.exit(success ? 0 : 1);
+}
+
+main();
@@ -7,15 +7,22 @@ import pinoHttp from 'pino-http';
 import { config } from './config/config';
 import { WhatsAppService } from './services/whatsapp.service';
 import { TenantManager } from './services/tenant.service';
-import { authMiddleware } from './middleware/auth.middleware';
+import { authMiddleware, requireAdmin } from './middleware/auth.middleware';
 import { errorHandler } from './middleware/error.middleware';
 import { validateRequestBody } from './middleware/validation.middleware';
 import { sessionRoutes } from './routes/session.routes';
 import { messageRoutes } from './routes/message.routes';
 import { webhookRoutes } from './routes/webhook.routes';
 import { debugRoutes } from './routes/debug.routes';
+import { campaignRoutes } from './routes/campaign.routes';
+import { mediaRoutes } from './routes/media.routes';
+import { adminRoutes } from './routes/admin.routes';
+import { attachWebSocketGateway } from './routes/websocket.gateway';
 import { StatusService } from './services/status.service';
 import { WebhookService } from './services/webhook.service';
+import { SendQueueService } from './services/send-queue.service';
+import { CampaignService } from './services/campaign.service';
+import { QuotaService } from './services/quota.service';
 
 // Configurar logger
 const logger = pino({
@@ -44,15 +51,15 @@ app.use(helmet({
 app.use(cors({
   origin: config.ALLOWED_ORIGINS,
   credentials: true,
-  methods: ['GET', 'POST', 'PUT', 'DELETE'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Tenant-ID']
+  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Tenant-ID', 'X-Provision-Token']
 }));
 
-// Rate limiting
+// Rate limiting por IP (o limite por tenant é aplicado nas rotas com :tenantId)
 const limiter = rateLimit({
-  windowMs: 15 * 60 * 1000, // 15 minutos
-  max: 100, // limite de 100 requests por windowMs por IP
-  message: 'Muitas requisições deste IP, tente novamente em 15 minutos.',
+  windowMs: config.RATE_LIMIT_WINDOW,
+  max: config.RATE_LIMIT_MAX,
+  message: `Muitas requisições deste IP, tente novamente em ${Math.ceil(config.RATE_LIMIT_WINDOW / 60000)} minutos.`,
   standardHeaders: true,
   legacyHeaders: false,
 });
@@ -60,16 +67,25 @@ const limiter = rateLimit({
 app.use(limiter);
 
 // Logging HTTP
-app.use(pinoHttp({ logger: logger as any }));
+app.use(pinoHttp({
+  logger: logger as any,
+  serializers: {
+    // Não registrar o token aceito na query pelos streams SSE
+    req: (req) => ({ ...req, url: req.url?.replace(/access_token=[^&]+/, 'access_token=***') })
+  }
+}));
 
 // Body parsing
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
 // Inicializar serviços
-const whatsappService = new WhatsAppService(logger);
 const tenantManager = new TenantManager(logger);
+const quotaService = new QuotaService(logger, tenantManager);
+const whatsappService = new WhatsAppService(logger, tenantManager, quotaService);
 const statusService = new StatusService(logger);
+const sendQueueService = new SendQueueService(logger, whatsappService);
+const campaignService = new CampaignService(logger, whatsappService);
 
 // Inicializar WebhookService para gerenciar webhooks automáticos
 const webhookService = new WebhookService(logger);
@@ -87,7 +103,22 @@ whatsappService.on('message', async (tenantId: string, messageData: any) => {
       messageId: messageData.id || '',
       timestamp: messageData.timestamp || Date.now(),
       type: messageData.type || 'text',
-      messageReplied: messageData.messageReplied
+      caption: messageData.caption,
+      mediaUrl: messageData.mediaUrl,
+      mediaExpiresAt: messageData.mediaExpiresAt,
+      mediaSize: messageData.mediaSize,
+      mediaError: messageData.mediaError,
+      mimetype: messageData.mimetype,
+      fileName: messageData.fileName,
+      location: messageData.location,
+      contacts: messageData.contacts,
+      messageIds: messageData.messageIds,
+      originalMessages: messageData.originalMessages,
+      messageReplied: messageData.messageReplied,
+      isGroup: messageData.isGroup,
+      participant: messageData.participant,
+      participantName: messageData.participantName,
+      reply: messageData.reply
     });
     
     (logger as any).info('✅ [Webhook] Mensagem processada e enviada para LocAI', {
@@ -104,12 +135,87 @@ whatsappService.on('message', async (tenantId: string, messageData: any) => {
   }
 });
 
+// Status de entrega/leitura das mensagens enviadas
+whatsappService.on('message_status', async (tenantId: string, statusData: any) => {
+  try {
+    await webhookService.processMessageStatus({
+      tenantId,
+      messageId: statusData.messageId,
+      to: statusData.to,
+      status: statusData.status,
+      previousStatus: statusData.previousStatus,
+      timestamp: statusData.timestamp || Date.now()
+    });
+  } catch (error) {
+    (logger as any).error('❌ [Webhook] Erro ao enviar status de mensagem', {
+      tenantId: tenantId.substring(0, 8) + '***',
+      messageId: statusData.messageId,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Mudanças de conexão da sessão (webhooks inscritos em 'status' e clientes WebSocket)
+const forwardStatusChange = (event: 'connected' | 'disconnected') => async (tenantId: string, detail?: string) => {
+  try {
+    await webhookService.processStatusChange({
+      tenantId,
+      status: event,
+      phoneNumber: event === 'connected' ? detail : undefined,
+      event,
+      timestamp: Date.now()
+    });
+  } catch (error) {
+    (logger as any).error('❌ [Webhook] Erro ao enviar mudança de status da sessão', {
+      tenantId: tenantId.substring(0, 8) + '***',
+      event,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+whatsappService.on('connected', forwardStatusChange('connected'));
+whatsappService.on('disconnected', forwardStatusChange('disconnected'));
+
+// Tenant suspenso/inativo perde a conexão (credenciais mantidas); tenant removido é deslogado
+tenantManager.on('status_changed', async (tenantId: string, status: string) => {
+  if (status === 'active') {
+    return;
+  }
+
+  try {
+    await whatsappService.closeSession(tenantId, `tenant_${status}`);
+  } catch (error) {
+    (logger as any).error('❌ [Tenant] Erro ao fechar sessão do tenant', {
+      tenantId: tenantId.substring(0, 8) + '***',
+      status,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+tenantManager.on('deleted', async (tenantId: string) => {
+  const result = await whatsappService.disconnectSession(tenantId);
+  if (!result.success) {
+    (logger as any).error('❌ [Tenant] Erro ao desconectar sessão do tenant removido', {
+      tenantId: tenantId.substring(0, 8) + '***',
+      error: result.message
+    });
+  }
+});
+
 // AUTO-REGISTRAR WEBHOOK DO LOCAI SE CONFIGURADO
 if (config.LOCAI_WEBHOOK_URL) {
   // Registrar webhook automático para todos os tenants
   // Isso garante que as mensagens sejam enviadas para o LocAI
   const autoRegisterWebhook = async (tenantId: string) => {
     try {
+      // Não sobrescrever ajustes feitos via API (eventos, active) em reconexões
+      const existing = await webhookService.getWebhooks(tenantId);
+      if (existing.some(webhook => webhook.url === config.LOCAI_WEBHOOK_URL)) {
+        return;
+      }
+
       await webhookService.registerWebhook(tenantId, {
         url: config.LOCAI_WEBHOOK_URL!,
         secret: config.LOCAI_WEBHOOK_SECRET,
@@ -165,6 +271,7 @@ app.get('/', (req, res) => {
       health: '/health',
       sessions: '/api/v1/sessions',
       messages: '/api/v1/messages',
+      campaigns: '/api/v1/campaigns',
       webhooks: '/api/v1/webhooks'
     },
     documentation: '/docs',
@@ -173,15 +280,23 @@ app.get('/', (req, res) => {
 });
 
 // Middleware de autenticação (apenas para rotas protegidas)
-app.use('/api/v1/sessions', authMiddleware);
-app.use('/api/v1/messages', authMiddleware);
-app.use('/api/v1/debug', authMiddleware);
+const requireAuth = authMiddleware(tenantManager);
+app.use('/api/v1/sessions', requireAuth);
+app.use('/api/v1/messages', requireAuth);
+app.use('/api/v1/campaigns', requireAuth);
+app.use('/api/v1/debug', requireAuth);
+// /webhooks/validate continua público (desafio hub.verify_token)
+app.use('/api/v1/webhooks', (req, res, next) => req.path === '/validate' ? next() : requireAuth(req, res, next));
+app.use('/api/admin', requireAuth, requireAdmin);
 
 // Rotas da API
 app.use('/api/v1/sessions', sessionRoutes(whatsappService, tenantManager));
-app.use('/api/v1/messages', messageRoutes(whatsappService, tenantManager));
-app.use('/api/v1/webhooks', webhookRoutes(whatsappService, tenantManager));
+app.use('/api/v1/messages', messageRoutes(whatsappService, tenantManager, sendQueueService, campaignService, quotaService));
+app.use('/api/v1/campaigns', campaignRoutes(campaignService, tenantManager, quotaService));
+app.use('/api/v1/webhooks', webhookRoutes(whatsappService, tenantManager, webhookService));
 app.use('/api/v1/debug', debugRoutes(whatsappService, tenantManager));
+app.use('/api/v1/media', mediaRoutes(whatsappService.getMediaStorage())); // Pública - autorizada pela URL assinada
+app.use('/api/admin', adminRoutes(tenantManager, whatsappService));
 
 // Documentação da API
 app.get('/docs', (req, res) => {
@@ -243,9 +358,17 @@ process.on('SIGTERM', async () => {
   logger.info('SIGTERM received, shutting down gracefully');
   
   try {
-    // Desconectar todas as sessões WhatsApp
-    await whatsappService.disconnectAllSessions();
-    logger.info('All WhatsApp sessions disconnected');
+    // Persistir fila de envio, campanhas, outbox de webhooks e mensagens em debounce antes de desconectar
+    await sendQueueService.shutdown();
+    await campaignService.shutdown();
+    await webhookService.shutdown();
+    await whatsappService.shutdown();
+    await quotaService.shutdown();
+    await tenantManager.shutdown();
+
+    // Fechar as sessões WhatsApp mantendo as credenciais (restauradas no próximo boot)
+    await whatsappService.closeAllSessions();
+    logger.info('All WhatsApp sessions closed');
     
     // Fechar servidor
     server.close(() => {
@@ -262,7 +385,13 @@ process.on('SIGINT', async () => {
   logger.info('SIGINT received, shutting down gracefully');
   
   try {
-    await whatsappService.disconnectAllSessions();
+    await sendQueueService.shutdown();
+    await campaignService.shutdown();
+    await webhookService.shutdown();
+    await whatsappService.shutdown();
+    await quotaService.shutdown();
+    await tenantManager.shutdown();
+    await whatsappService.closeAllSessions();
     process.exit(0);
   } catch (error: unknown) {
     (logger as any).error(error, 'Error during SIGINT shutdown');
@@ -277,6 +406,16 @@ const server = app.listen(config.PORT, config.HOST, () => {
   logger.info(`💚 Health check: ${config.BASE_URL}/health`);
   logger.info(`🌍 Environment: ${config.NODE_ENV}`);
   logger.info(`🔑 Auth required: ${config.REQUIRE_AUTH ? 'Yes' : 'No'}`);
+
+  // Reconectar as sessões que já tinham credenciais salvas
+  if (config.SESSION_AUTO_RESTORE) {
+    whatsappService.restoreSessions().catch((error) => {
+      (logger as any).error(error, 'Failed to restore WhatsApp sessions');
+    });
+  }
 });
 
+// Gateway WebSocket compartilha a porta HTTP (upgrade em /api/v1/ws/:tenantId)
+attachWebSocketGateway(server, whatsappService, tenantManager, webhookService, sendQueueService);
+
 export { app, logger };
\ No newline at end of file
@@ -0,0 +1,410 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import crypto from 'crypto';
+import {
+  GetObjectCommand,
+  PutObjectCommand,
+  DeleteObjectCommand,
+  DeleteObjectsCommand,
+  ListObjectsV2Command
+} from '@aws-sdk/client-s3';
+import {
+  AuthenticationCreds,
+  AuthenticationState,
+  SignalDataTypeMap,
+  BufferJSON,
+  initAuthCreds,
+  proto
+} from '@whiskeysockets/baileys';
+import { config } from '../config/config';
+import { getDatabasePool } from '../utils/database';
+import { getSpacesClient } from '../utils/spaces';
+
+export type AuthStateBackend = 'filesystem' | 'sql' | 's3';
+
+/**
+ * Contrato para armazenamento das credenciais Baileys de cada tenant
+ * Cada chave guarda um documento JSON (serializado com BufferJSON) e segue o nome
+ * usado pelo useMultiFileAuthState: "creds", "pre-key-1", "session-5511...", etc.
+ */
+export interface AuthStateStore {
+  readonly name: AuthStateBackend;
+  read(tenantId: string, key: string): Promise<string | null>;
+  write(tenantId: string, key: string, data: string): Promise<void>;
+  remove(tenantId: string, key: string): Promise<void>;
+  listKeys(tenantId: string): Promise<string[]>;
+  listTenants(): Promise<string[]>;
+  clear(tenantId: string): Promise<void>;
+}
+
+// Mesmo formato de nome de arquivo do useMultiFileAuthState (compatível com pastas existentes)
+function toStoreKey(name: string): string {
+  return name.replace(/\//g, '__').replace(/:/g, '-');
+}
+
+/**
+ * Backend padrão: uma pasta por tenant em WHATSAPP_SESSION_DIR, um arquivo JSON por chave
+ */
+export class FileAuthStateStore implements AuthStateStore {
+  readonly name = 'filesystem';
+  private baseDir: string;
+
+  constructor(baseDir: string = config.WHATSAPP_SESSION_DIR) {
+    this.baseDir = baseDir;
+  }
+
+  private getFilePath(tenantId: string, key: string): string {
+    return path.join(this.baseDir, tenantId, `${key}.json`);
+  }
+
+  async read(tenantId: string, key: string): Promise<string | null> {
+    try {
+      return await fs.promises.readFile(this.getFilePath(tenantId, key), 'utf8');
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async write(tenantId: string, key: string, data: string): Promise<void> {
+    const filePath = this.getFilePath(tenantId, key);
+    // Arquivo temporário único: escritas simultâneas da mesma chave não corrompem o JSON
+    const tempPath = `${filePath}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(tempPath, data, 'utf8');
+    await fs.promises.rename(tempPath, filePath);
+  }
+
+  async remove(tenantId: string, key: string): Promise<void> {
+    await fs.promises.rm(this.getFilePath(tenantId, key), { force: true });
+  }
+
+  async listKeys(tenantId: string): Promise<string[]> {
+    try {
+      const files = await fs.promises.readdir(path.join(this.baseDir, tenantId));
+      return files
+        .filter(file => file.endsWith('.json'))
+        .map(file => file.slice(0, -'.json'.length));
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  async listTenants(): Promise<string[]> {
+    try {
+      const entries = await fs.promises.readdir(this.baseDir, { withFileTypes: true });
+      return entries.filter(entry => entry.isDirectory()).map(entry => entry.name);
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  async clear(tenantId: string): Promise<void> {
+    await fs.promises.rm(path.join(this.baseDir, tenantId), { recursive: true, force: true });
+  }
+}
+
+/**
+ * Postgres (DATABASE_URL): tabela whatsapp_auth_state, uma linha por chave
+ */
+export class SqlAuthStateStore implements AuthStateStore {
+  readonly name = 'sql';
+  private ready: Promise<void> | null = null;
+
+  private ensureSchema(): Promise<void> {
+    if (!this.ready) {
+      this.ready = getDatabasePool().query(`
+        CREATE TABLE IF NOT EXISTS whatsapp_auth_state (
+          tenant_id TEXT NOT NULL,
+          key TEXT NOT NULL,
+          data TEXT NOT NULL,
+          updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          PRIMARY KEY (tenant_id, key)
+        );
+      `).then(() => undefined);
+
+      // Permitir nova tentativa caso a criação falhe
+      this.ready.catch(() => {
+        this.ready = null;
+      });
+    }
+
+    return this.ready;
+  }
+
+  async read(tenantId: string, key: string): Promise<string | null> {
+    await this.ensureSchema();
+
+    const result = await getDatabasePool().query(
+      'SELECT data FROM whatsapp_auth_state WHERE tenant_id = $1 AND key = $2',
+      [tenantId, key]
+    );
+
+    return result.rows[0]?.data ?? null;
+  }
+
+  async write(tenantId: string, key: string, data: string): Promise<void> {
+    await this.ensureSchema();
+
+    await getDatabasePool().query(
+      `INSERT INTO whatsapp_auth_state (tenant_id, key, data, updated_at)
+       VALUES ($1, $2, $3, NOW())
+       ON CONFLICT (tenant_id, key) DO UPDATE SET
+         data = EXCLUDED.data,
+         updated_at = EXCLUDED.updated_at`,
+      [tenantId, key, data]
+    );
+  }
+
+  async remove(tenantId: string, key: string): Promise<void> {
+    await this.ensureSchema();
+
+    await getDatabasePool().query(
+      'DELETE FROM whatsapp_auth_state WHERE tenant_id = $1 AND key = $2',
+      [tenantId, key]
+    );
+  }
+
+  async listKeys(tenantId: string): Promise<string[]> {
+    await this.ensureSchema();
+
+    const result = await getDatabasePool().query(
+      'SELECT key FROM whatsapp_auth_state WHERE tenant_id = $1 ORDER BY key',
+      [tenantId]
+    );
+
+    return result.rows.map(row => row.key);
+  }
+
+  async listTenants(): Promise<string[]> {
+    await this.ensureSchema();
+
+    const result = await getDatabasePool().query(
+      'SELECT DISTINCT tenant_id FROM whatsapp_auth_state ORDER BY tenant_id'
+    );
+
+    return result.rows.map(row => row.tenant_id);
+  }
+
+  async clear(tenantId: string): Promise<void> {
+    await this.ensureSchema();
+
+    await getDatabasePool().query('DELETE FROM whatsapp_auth_state WHERE tenant_id = $1', [tenantId]);
+  }
+}
+
+/**
+ * S3-compatível (DO_SPACES_*): objetos em <AUTH_STATE_S3_PREFIX>/<tenantId>/<key>.json
+ */
+export class S3AuthStateStore implements AuthStateStore {
+  readonly name = 's3';
+  private prefix: string;
+
+  constructor(prefix: string = config.AUTH_STATE_S3_PREFIX) {
+    this.prefix = prefix.replace(/\/+$/, '');
+  }
+
+  private getObjectKey(tenantId: string, key: string): string {
+    return `${this.prefix}/${tenantId}/${key}.json`;
+  }
+
+  async read(tenantId: string, key: string): Promise<string | null> {
+    try {
+      const result = await getSpacesClient().send(new GetObjectCommand({
+        Bucket: config.DO_SPACES_BUCKET,
+        Key: this.getObjectKey(tenantId, key)
+      }));
+
+      return await result.Body!.transformToString('utf8');
+    } catch (error: any) {
+      if (error?.name === 'NoSuchKey' || error?.$metadata?.httpStatusCode === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async write(tenantId: string, key: string, data: string): Promise<void> {
+    await getSpacesClient().send(new PutObjectCommand({
+      Bucket: config.DO_SPACES_BUCKET,
+      Key: this.getObjectKey(tenantId, key),
+      Body: data,
+      ContentType: 'application/json',
+      ACL: 'private'
+    }));
+  }
+
+  async remove(tenantId: string, key: string): Promise<void> {
+    await getSpacesClient().send(new DeleteObjectCommand({
+      Bucket: config.DO_SPACES_BUCKET,
+      Key: this.getObjectKey(tenantId, key)
+    }));
+  }
+
+  async listKeys(tenantId: string): Promise<string[]> {
+    const tenantPrefix = `${this.prefix}/${tenantId}/`;
+    const objectKeys = await this.listObjects(tenantPrefix);
+
+    return objectKeys
+      .filter(objectKey => objectKey.endsWith('.json'))
+      .map(objectKey => objectKey.slice(tenantPrefix.length, -'.json'.length));
+  }
+
+  async listTenants(): Promise<string[]> {
+    const tenants: string[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const page = await getSpacesClient().send(new ListObjectsV2Command({
+        Bucket: config.DO_SPACES_BUCKET,
+        Prefix: `${this.prefix}/`,
+        Delimiter: '/',
+        ContinuationToken: continuationToken
+      }));
+
+      for (const commonPrefix of page.CommonPrefixes || []) {
+        tenants.push(commonPrefix.Prefix!.slice(this.prefix.length + 1, -1));
+      }
+      continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return tenants;
+  }
+
+  async clear(tenantId: string): Promise<void> {
+    const objectKeys = await this.listObjects(`${this.prefix}/${tenantId}/`);
+
+    // DeleteObjects aceita no máximo 1000 chaves por chamada
+    for (let i = 0; i < objectKeys.length; i += 1000) {
+      await getSpacesClient().send(new DeleteObjectsCommand({
+        Bucket: config.DO_SPACES_BUCKET,
+        Delete: {
+          Objects: objectKeys.slice(i, i + 1000).map(Key => ({ Key })),
+          Quiet: true
+        }
+      }));
+    }
+  }
+
+  private async listObjects(prefix: string): Promise<string[]> {
+    const objectKeys: string[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const page = await getSpacesClient().send(new ListObjectsV2Command({
+        Bucket: config.DO_SPACES_BUCKET,
+        Prefix: prefix,
+        ContinuationToken: continuationToken
+      }));
+
+      for (const object of page.Contents || []) {
+        objectKeys.push(object.Key!);
+      }
+      continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return objectKeys;
+  }
+}
+
+export function createAuthStateStore(backend: AuthStateBackend = config.AUTH_STATE_STORE): AuthStateStore {
+  switch (backend) {
+    case 'sql':
+      return new SqlAuthStateStore();
+    case 's3':
+      return new S3AuthStateStore();
+    default:
+      return new FileAuthStateStore();
+  }
+}
+
+/**
+ * Equivalente ao useMultiFileAuthState do Baileys, mas sobre qualquer AuthStateStore
+ */
+export async function useStoredAuthState(store: AuthStateStore, tenantId: string): Promise<{
+  state: AuthenticationState;
+  saveCreds: () => Promise<void>;
+}> {
+  const readData = async (key: string): Promise<any> => {
+    const raw = await store.read(tenantId, key);
+    return raw ? JSON.parse(raw, BufferJSON.reviver) : null;
+  };
+
+  const writeData = (key: string, value: any): Promise<void> => {
+    return store.write(tenantId, key, JSON.stringify(value, BufferJSON.replacer));
+  };
+
+  const creds: AuthenticationCreds = (await readData('creds')) || initAuthCreds();
+
+  return {
+    state: {
+      creds,
+      keys: {
+        get: async (type, ids) => {
+          const data: { [id: string]: SignalDataTypeMap[typeof type] } = {};
+
+          await Promise.all(ids.map(async (id) => {
+            let value = await readData(toStoreKey(`${type}-${id}`));
+            if (type === 'app-state-sync-key' && value) {
+              value = proto.Message.AppStateSyncKeyData.fromObject(value);
+            }
+            data[id] = value;
+          }));
+
+          return data;
+        },
+        set: async (data) => {
+          const tasks: Promise<void>[] = [];
+
+          for (const category in data) {
+            for (const id in data[category]) {
+              const value = data[category][id];
+              const key = toStoreKey(`${category}-${id}`);
+              tasks.push(value ? writeData(key, value) : store.remove(tenantId, key));
+            }
+          }
+
+          await Promise.all(tasks);
+        }
+      }
+    },
+    saveCreds: () => writeData('creds', creds)
+  };
+}
+
+/**
+ * Tenant já pareado (creds.me preenchido) - usado pela restauração automática no boot
+ */
+export async function hasRegisteredCreds(store: AuthStateStore, tenantId: string): Promise<boolean> {
+  try {
+    const raw = await store.read(tenantId, 'creds');
+    return !!(raw && JSON.parse(raw)?.me?.id);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Copiar todas as chaves de um tenant entre backends - retorna a quantidade copiada
+ */
+export async function copyTenantAuthState(source: AuthStateStore, target: AuthStateStore, tenantId: string): Promise<number> {
+  const keys = await source.listKeys(tenantId);
+
+  for (const key of keys) {
+    const data = await source.read(tenantId, key);
+    if (data !== null) {
+      await target.write(tenantId, key, data);
+    }
+  }
+
+  return keys.length;
+}
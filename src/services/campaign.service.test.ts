@@ -0,0 +1,174 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import pino from 'pino';
+import { config } from '../config/config';
+import { TooManyRequestsError } from '../middleware/error.middleware';
+import { CampaignService, CampaignRecipientInput } from './campaign.service';
+import { WhatsAppService } from './whatsapp.service';
+
+jest.mock('./whatsapp.service', () => ({}));
+
+describe('CampaignService runner', () => {
+  let sessionStatus: string;
+  let whatsappService: { getSession: jest.Mock; sendMessage: jest.Mock };
+  let campaignService: CampaignService;
+
+  const recipients = (...numbers: string[]): CampaignRecipientInput[] =>
+    numbers.map(to => ({ to, message: `Olá ${to}` }));
+
+  const sentTo = () => whatsappService.sendMessage.mock.calls.map(([, messageData]) => messageData.to);
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    fs.rmSync(path.join(config.DATA_DIR, 'campaigns.json'), { force: true });
+
+    sessionStatus = 'connected';
+    whatsappService = {
+      getSession: jest.fn(() => ({ status: sessionStatus })),
+      sendMessage: jest.fn().mockResolvedValue({ success: true, messageId: 'wamid-1' })
+    };
+    campaignService = new CampaignService(pino({ level: 'silent' }), whatsappService as unknown as WhatsAppService);
+  });
+
+  afterEach(async () => {
+    // Encerrar loops ainda ativos antes de trocar os timers
+    for (const campaign of campaignService.listCampaigns('tenant-a')) {
+      campaignService.cancelCampaign('tenant-a', campaign.id);
+    }
+    await jest.advanceTimersByTimeAsync(1000);
+    await campaignService.shutdown();
+    jest.useRealTimers();
+  });
+
+  it('sends each recipient and waits its delay before the next one', async () => {
+    const campaign = campaignService.createCampaign('tenant-a', {
+      defaultDelay: 2000,
+      recipients: [{ to: '5511900000001', message: 'primeira', delay: 5000 }, ...recipients('5511900000002', '5511900000003')]
+    });
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(sentTo()).toEqual(['5511900000001']);
+
+    await jest.advanceTimersByTimeAsync(4999);
+    expect(sentTo()).toHaveLength(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(sentTo()).toHaveLength(2);
+
+    // Sem delay próprio vale o defaultDelay da campanha
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(sentTo()).toHaveLength(2);
+    await jest.advanceTimersByTimeAsync(1);
+
+    expect(sentTo()).toEqual(['5511900000001', '5511900000002', '5511900000003']);
+    expect(campaign.status).toBe('completed');
+    expect(campaignService.getProgress(campaign)).toMatchObject({ total: 3, sent: 3, pending: 0, percent: 100 });
+  });
+
+  it('renders templates with each recipient variables', async () => {
+    campaignService.createCampaign('tenant-a', {
+      template: 'Olá {{nome}}',
+      recipients: [{ to: '5511900000001', variables: { nome: 'Ana' } }]
+    });
+
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(whatsappService.sendMessage).toHaveBeenCalledWith('tenant-a', expect.objectContaining({ message: 'Olá Ana' }));
+  });
+
+  it('marks failed sends and moves on', async () => {
+    whatsappService.sendMessage
+      .mockResolvedValueOnce({ success: false, error: 'Number not on WhatsApp' })
+      .mockResolvedValue({ success: true });
+    const campaign = campaignService.createCampaign('tenant-a', { defaultDelay: 1000, recipients: recipients('5511900000001', '5511900000002') });
+
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(campaign.recipients.map(recipient => recipient.status)).toEqual(['failed', 'sent']);
+    expect(campaign.recipients[0].error).toBe('Number not on WhatsApp');
+    expect(campaign.status).toBe('completed');
+  });
+
+  it('waits for a connected session without consuming recipients', async () => {
+    sessionStatus = 'connecting';
+    const campaign = campaignService.createCampaign('tenant-a', { recipients: recipients('5511900000001') });
+
+    await jest.advanceTimersByTimeAsync(30 * 1000);
+    expect(whatsappService.sendMessage).not.toHaveBeenCalled();
+    expect(campaign.recipients[0]).toMatchObject({ status: 'pending', attempts: 0 });
+
+    sessionStatus = 'connected';
+    await jest.advanceTimersByTimeAsync(5000);
+
+    expect(campaign.recipients[0].status).toBe('sent');
+  });
+
+  it('sleeps on quota errors and retries the same recipient', async () => {
+    whatsappService.sendMessage
+      .mockRejectedValueOnce(new TooManyRequestsError('Message quota exceeded (10 per minute)', 30))
+      .mockResolvedValue({ success: true });
+    const campaign = campaignService.createCampaign('tenant-a', { recipients: recipients('5511900000001') });
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(campaign.recipients[0]).toMatchObject({ status: 'pending', attempts: 0 });
+
+    await jest.advanceTimersByTimeAsync(29 * 1000);
+    expect(whatsappService.sendMessage).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(whatsappService.sendMessage).toHaveBeenCalledTimes(2);
+    expect(campaign.recipients[0]).toMatchObject({ status: 'sent', attempts: 1 });
+  });
+
+  describe('pause, resume and cancel', () => {
+    it('stops sending while paused and continues on resume', async () => {
+      const campaign = campaignService.createCampaign('tenant-a', {
+        defaultDelay: 2000,
+        recipients: recipients('5511900000001', '5511900000002', '5511900000003')
+      });
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(campaignService.pauseCampaign('tenant-a', campaign.id)).toMatchObject({ success: true });
+      await jest.advanceTimersByTimeAsync(60 * 1000);
+      expect(sentTo()).toHaveLength(1);
+      expect(campaign.status).toBe('paused');
+
+      expect(campaignService.resumeCampaign('tenant-a', campaign.id)).toMatchObject({ success: true });
+      await jest.advanceTimersByTimeAsync(0);
+      expect(sentTo()).toHaveLength(2);
+
+      await jest.advanceTimersByTimeAsync(2000);
+      expect(campaign.status).toBe('completed');
+    });
+
+    it('cancels the pending recipients', async () => {
+      const campaign = campaignService.createCampaign('tenant-a', {
+        defaultDelay: 2000,
+        recipients: recipients('5511900000001', '5511900000002', '5511900000003')
+      });
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(campaignService.cancelCampaign('tenant-a', campaign.id)).toMatchObject({ success: true });
+      await jest.advanceTimersByTimeAsync(10 * 1000);
+
+      expect(sentTo()).toHaveLength(1);
+      expect(campaign.recipients.map(recipient => recipient.status)).toEqual(['sent', 'cancelled', 'cancelled']);
+      expect(campaign.completedAt).toBeDefined();
+    });
+
+    it('rejects invalid transitions and other tenants', async () => {
+      const campaign = campaignService.createCampaign('tenant-a', { recipients: recipients('5511900000001') });
+
+      expect(campaignService.resumeCampaign('tenant-a', campaign.id)).toMatchObject({
+        success: false,
+        error: 'Campaign cannot change from running to running'
+      });
+      expect(campaignService.pauseCampaign('tenant-b', campaign.id)).toEqual({ success: false, error: 'Campaign not found' });
+
+      campaignService.cancelCampaign('tenant-a', campaign.id);
+      expect(campaignService.resumeCampaign('tenant-a', campaign.id)).toMatchObject({
+        success: false,
+        error: 'Campaign cannot change from cancelled to running'
+      });
+    });
+  });
+});
@@ -0,0 +1,364 @@
+import { Logger } from 'pino';
+import { randomUUID } from 'crypto';
+import { JsonFileStore } from '../utils/json-file-store';
+import { WhatsAppService, MessageData } from './whatsapp.service';
+import { TooManyRequestsError } from '../middleware/error.middleware';
+
+export type CampaignStatus = 'running' | 'paused' | 'cancelled' | 'completed';
+export type CampaignRecipientStatus = 'pending' | 'sent' | 'failed' | 'cancelled';
+
+export interface CampaignRecipient {
+  index: number;
+  to: string;
+  template?: string;
+  message?: string; // Texto literal (sem template)
+  variables?: Record<string, string | number>;
+  type?: MessageData['type'];
+  mediaUrl?: string;
+  mediaUrls?: string[];
+  mediaType?: MessageData['mediaType'];
+  caption?: string;
+  delay?: number; // Espera após este envio (ms)
+  status: CampaignRecipientStatus;
+  renderedMessage?: string;
+  messageId?: string | string[];
+  error?: string;
+  attempts: number;
+  sentAt?: string;
+}
+
+export interface Campaign {
+  id: string;
+  tenantId: string;
+  name?: string;
+  template?: string;
+  defaultDelay: number;
+  status: CampaignStatus;
+  recipients: CampaignRecipient[];
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
+export interface CampaignProgress {
+  total: number;
+  pending: number;
+  sent: number;
+  failed: number;
+  cancelled: number;
+  percent: number;
+}
+
+export type CampaignRecipientInput = Omit<CampaignRecipient, 'index' | 'status' | 'attempts'>;
+
+const DEFAULT_DELAY_MS = 2000;
+const SESSION_WAIT_MS = 5000;
+const RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const TEMPLATE_VARIABLE_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+/**
+ * Variáveis {{nome}} do template sem valor em variables
+ */
+export function findMissingVariables(template: string, variables: Record<string, string | number> = {}): string[] {
+  const missing = new Set<string>();
+  for (const [, key] of template.matchAll(TEMPLATE_VARIABLE_PATTERN)) {
+    if (variables[key] === undefined) {
+      missing.add(key);
+    }
+  }
+  return Array.from(missing);
+}
+
+/**
+ * Campanhas de envio em massa executadas em background
+ * Substitui o loop bloqueante do send-bulk: o progresso é persistido a cada destinatário
+ */
+export class CampaignService {
+  private logger: Logger;
+  private campaigns: Map<string, Campaign> = new Map();
+  private runners: Set<string> = new Set(); // Campanhas com loop de envio ativo
+  private store: JsonFileStore<Campaign[]>;
+  private cleanupInterval: NodeJS.Timeout | null = null;
+
+  constructor(logger: Logger, private whatsappService: WhatsAppService) {
+    this.logger = logger.child({ service: 'CampaignService' });
+    this.store = new JsonFileStore<Campaign[]>('campaigns.json');
+
+    for (const campaign of this.store.read([])) {
+      this.campaigns.set(campaign.id, campaign);
+    }
+
+    // Retomar campanhas que estavam rodando antes do restart
+    for (const campaign of this.campaigns.values()) {
+      if (campaign.status === 'running') {
+        this.startRunner(campaign.id);
+      }
+    }
+
+    this.startCleanup();
+
+    console.log(`✅ [Campaign] Service initialized (campaigns: ${this.campaigns.size})`);
+  }
+
+  private persist(): void {
+    this.store.scheduleWrite(() => Array.from(this.campaigns.values()));
+  }
+
+  private startCleanup(): void {
+    this.cleanupInterval = setInterval(() => {
+      const cutoff = Date.now() - RETENTION_MS;
+      let removed = 0;
+
+      for (const [campaignId, campaign] of this.campaigns.entries()) {
+        if (campaign.completedAt && new Date(campaign.completedAt).getTime() < cutoff) {
+          this.campaigns.delete(campaignId);
+          removed++;
+        }
+      }
+
+      if (removed > 0) {
+        console.log('🧹 [Campaign] Removed old campaigns', { removed });
+        this.persist();
+      }
+    }, 60 * 60 * 1000);
+  }
+
+  createCampaign(tenantId: string, input: {
+    name?: string;
+    template?: string;
+    defaultDelay?: number;
+    recipients: CampaignRecipientInput[];
+  }): Campaign {
+    const now = new Date().toISOString();
+
+    const campaign: Campaign = {
+      id: randomUUID(),
+      tenantId,
+      name: input.name,
+      template: input.template,
+      defaultDelay: input.defaultDelay ?? DEFAULT_DELAY_MS,
+      status: 'running',
+      recipients: input.recipients.map((recipient, index) => ({
+        ...recipient,
+        index,
+        status: 'pending',
+        attempts: 0
+      })),
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.campaigns.set(campaign.id, campaign);
+    this.persist();
+    this.startRunner(campaign.id);
+
+    console.log('📣 [Campaign] Campaign created', {
+      tenantId: tenantId.substring(0, 8) + '***',
+      campaignId: campaign.id,
+      recipients: campaign.recipients.length
+    });
+
+    return campaign;
+  }
+
+  getCampaign(tenantId: string, campaignId: string): Campaign | null {
+    const campaign = this.campaigns.get(campaignId);
+    return campaign && campaign.tenantId === tenantId ? campaign : null;
+  }
+
+  listCampaigns(tenantId: string): Campaign[] {
+    return Array.from(this.campaigns.values())
+      .filter(campaign => campaign.tenantId === tenantId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  getProgress(campaign: Campaign): CampaignProgress {
+    const count = (status: CampaignRecipientStatus) => campaign.recipients.filter(r => r.status === status).length;
+    const total = campaign.recipients.length;
+    const pending = count('pending');
+
+    return {
+      total,
+      pending,
+      sent: count('sent'),
+      failed: count('failed'),
+      cancelled: count('cancelled'),
+      percent: total > 0 ? Math.round(((total - pending) / total) * 100) : 100
+    };
+  }
+
+  pauseCampaign(tenantId: string, campaignId: string): { success: boolean; campaign?: Campaign; error?: string } {
+    return this.transition(tenantId, campaignId, ['running'], 'paused');
+  }
+
+  resumeCampaign(tenantId: string, campaignId: string): { success: boolean; campaign?: Campaign; error?: string } {
+    const result = this.transition(tenantId, campaignId, ['paused'], 'running');
+    if (result.success) {
+      this.startRunner(campaignId);
+    }
+    return result;
+  }
+
+  cancelCampaign(tenantId: string, campaignId: string): { success: boolean; campaign?: Campaign; error?: string } {
+    const result = this.transition(tenantId, campaignId, ['running', 'paused'], 'cancelled');
+    if (result.success) {
+      const campaign = result.campaign!;
+      campaign.recipients
+        .filter(recipient => recipient.status === 'pending')
+        .forEach(recipient => { recipient.status = 'cancelled'; });
+      campaign.completedAt = campaign.updatedAt;
+      this.persist();
+    }
+    return result;
+  }
+
+  private transition(
+    tenantId: string,
+    campaignId: string,
+    from: CampaignStatus[],
+    to: CampaignStatus
+  ): { success: boolean; campaign?: Campaign; error?: string } {
+    const campaign = this.getCampaign(tenantId, campaignId);
+    if (!campaign) {
+      return { success: false, error: 'Campaign not found' };
+    }
+
+    if (!from.includes(campaign.status)) {
+      return { success: false, campaign, error: `Campaign cannot change from ${campaign.status} to ${to}` };
+    }
+
+    campaign.status = to;
+    campaign.updatedAt = new Date().toISOString();
+    this.persist();
+
+    console.log('🔀 [Campaign] Status changed', {
+      tenantId: tenantId.substring(0, 8) + '***',
+      campaignId,
+      status: to
+    });
+
+    return { success: true, campaign };
+  }
+
+  renderMessage(campaign: Campaign, recipient: CampaignRecipient): string {
+    const template = recipient.message ?? recipient.template ?? campaign.template ?? '';
+    if (recipient.message !== undefined) {
+      return template;
+    }
+
+    const variables = recipient.variables || {};
+    return template.replace(TEMPLATE_VARIABLE_PATTERN, (_, key: string) =>
+      variables[key] !== undefined ? String(variables[key]) : ''
+    );
+  }
+
+  private startRunner(campaignId: string): void {
+    if (this.runners.has(campaignId)) {
+      return;
+    }
+
+    this.runners.add(campaignId);
+    this.runCampaign(campaignId)
+      .catch((error) => {
+        console.log('❌ [Campaign] Runner crashed', {
+          campaignId,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      })
+      .finally(() => {
+        this.runners.delete(campaignId);
+      });
+  }
+
+  private async runCampaign(campaignId: string): Promise<void> {
+    while (true) {
+      const campaign = this.campaigns.get(campaignId);
+      if (!campaign || campaign.status !== 'running') {
+        return;
+      }
+
+      const recipient = campaign.recipients.find(r => r.status === 'pending');
+      if (!recipient) {
+        campaign.status = 'completed';
+        campaign.updatedAt = new Date().toISOString();
+        campaign.completedAt = campaign.updatedAt;
+        this.persist();
+
+        console.log('🏁 [Campaign] Campaign completed', {
+          tenantId: campaign.tenantId.substring(0, 8) + '***',
+          campaignId,
+          progress: this.getProgress(campaign)
+        });
+        return;
+      }
+
+      // Aguardar a sessão conectar sem consumir o destinatário
+      if (this.whatsappService.getSession(campaign.tenantId)?.status !== 'connected') {
+        await this.sleep(SESSION_WAIT_MS, campaign);
+        continue;
+      }
+
+      const renderedMessage = this.renderMessage(campaign, recipient);
+      const messageData: MessageData = {
+        to: recipient.to,
+        message: renderedMessage,
+        type: recipient.type || 'text',
+        mediaUrl: recipient.mediaUrl,
+        mediaUrls: recipient.mediaUrls,
+        mediaType: recipient.mediaType,
+        caption: recipient.caption
+      };
+
+      recipient.attempts++;
+      recipient.renderedMessage = renderedMessage;
+
+      try {
+        const result = await this.whatsappService.sendMessage(campaign.tenantId, messageData);
+        recipient.status = result.success ? 'sent' : 'failed';
+        recipient.messageId = result.messageId;
+        recipient.error = result.error;
+      } catch (error) {
+        // Cota de envio esgotada: o destinatário continua pendente até a virada do período
+        if (error instanceof TooManyRequestsError) {
+          recipient.attempts--;
+          console.log('⏳ [Campaign] Quota exceeded, waiting', {
+            tenantId: campaign.tenantId.substring(0, 8) + '***',
+            campaignId,
+            retryAfter: error.retryAfter
+          });
+          await this.sleep((error.retryAfter || 60) * 1000, campaign);
+          continue;
+        }
+        recipient.status = 'failed';
+        recipient.error = error instanceof Error ? error.message : 'Unknown error';
+      }
+
+      recipient.sentAt = new Date().toISOString();
+      campaign.updatedAt = recipient.sentAt;
+      this.persist();
+
+      // Throttling: delay do destinatário ou padrão da campanha
+      if (campaign.recipients.some(r => r.status === 'pending')) {
+        await this.sleep(recipient.delay ?? campaign.defaultDelay, campaign);
+      }
+    }
+  }
+
+  /**
+   * Espera interrompível por pause/cancel
+   */
+  private async sleep(ms: number, campaign: Campaign): Promise<void> {
+    const end = Date.now() + ms;
+    while (Date.now() < end && campaign.status === 'running') {
+      await new Promise(resolve => setTimeout(resolve, Math.min(500, end - Date.now())));
+    }
+  }
+
+  async shutdown(): Promise<void> {
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+      this.cleanupInterval = null;
+    }
+    await this.store.flush(() => Array.from(this.campaigns.values()));
+  }
+}
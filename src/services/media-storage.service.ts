@@ -0,0 +1,172 @@
+import { Logger } from 'pino';
+import * as fs from 'fs';
+import * as path from 'path';
+import crypto from 'crypto';
+import { S3Client, PutObjectCommand, GetObjectCommand } from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { config } from '../config/config';
+import { getSpacesClient, isSpacesConfigured } from '../utils/spaces';
+
+export interface StoredMedia {
+  key: string;
+  url: string; // URL assinada com validade MEDIA_URL_TTL_SECONDS
+  mimetype: string;
+  size: number;
+  expiresAt: string;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'video/mp4': 'mp4',
+  'video/3gpp': '3gp',
+  'audio/ogg': 'ogg',
+  'audio/mpeg': 'mp3',
+  'audio/mp4': 'm4a',
+  'application/pdf': 'pdf'
+};
+
+/**
+ * Armazenamento de mídias recebidas
+ * - local: DATA_DIR/media, servido por /api/v1/media com URL assinada (HMAC + expiração)
+ * - spaces: bucket DO Spaces privado, com URL pré-assinada do S3
+ */
+export class MediaStorageService {
+  private logger: Logger;
+  private driver: 'local' | 'spaces';
+  private baseDir: string;
+  private s3: S3Client | null = null;
+
+  constructor(logger: Logger) {
+    this.logger = logger.child({ service: 'MediaStorageService' });
+    this.driver = config.MEDIA_STORAGE || (config.DO_SPACES_BUCKET ? 'spaces' : 'local');
+    this.baseDir = path.join(config.DATA_DIR, 'media');
+
+    if (this.driver === 'spaces') {
+      if (!isSpacesConfigured()) {
+        throw new Error('MEDIA_STORAGE=spaces requires DO_SPACES_ENDPOINT, DO_SPACES_ACCESS_KEY, DO_SPACES_SECRET_KEY and DO_SPACES_BUCKET');
+      }
+
+      this.s3 = getSpacesClient();
+    } else {
+      fs.mkdirSync(this.baseDir, { recursive: true });
+    }
+
+    console.log(`✅ [MediaStorage] Initialized (driver: ${this.driver})`);
+  }
+
+  getDriver(): 'local' | 'spaces' {
+    return this.driver;
+  }
+
+  async store(tenantId: string, buffer: Buffer, options: {
+    messageId: string;
+    mimetype: string;
+    fileName?: string;
+  }): Promise<StoredMedia> {
+    const key = this.buildKey(tenantId, options.messageId, options.mimetype, options.fileName);
+
+    if (this.s3) {
+      await this.s3.send(new PutObjectCommand({
+        Bucket: config.DO_SPACES_BUCKET,
+        Key: key,
+        Body: buffer,
+        ContentType: options.mimetype,
+        ACL: 'private',
+        ...(options.fileName && {
+          ContentDisposition: `attachment; filename="${options.fileName.replace(/"/g, '')}"`
+        })
+      }));
+    } else {
+      const filePath = this.resolveLocalPath(key)!;
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.promises.writeFile(filePath, buffer);
+    }
+
+    const { url, expiresAt } = await this.getSignedUrl(key);
+
+    console.log('💾 [MediaStorage] Media stored', {
+      tenantId: tenantId.substring(0, 8) + '***',
+      driver: this.driver,
+      mimetype: options.mimetype,
+      sizeInKB: Math.round(buffer.length / 1024)
+    });
+
+    return {
+      key,
+      url,
+      mimetype: options.mimetype,
+      size: buffer.length,
+      expiresAt
+    };
+  }
+
+  async getSignedUrl(key: string): Promise<{ url: string; expiresAt: string }> {
+    const ttl = config.MEDIA_URL_TTL_SECONDS;
+    const expires = Math.floor(Date.now() / 1000) + ttl;
+    const expiresAt = new Date(expires * 1000).toISOString();
+
+    if (this.s3) {
+      const url = await getSignedUrl(this.s3, new GetObjectCommand({
+        Bucket: config.DO_SPACES_BUCKET,
+        Key: key
+      }), { expiresIn: ttl });
+
+      return { url, expiresAt };
+    }
+
+    const signature = this.signLocalKey(key, expires);
+    const url = `${config.BASE_URL}/api/v1/media/${key}?expires=${expires}&signature=${signature}`;
+    return { url, expiresAt };
+  }
+
+  /**
+   * Validar URL local assinada - retorna o caminho do arquivo ou null
+   */
+  verifyLocalUrl(key: string, expires: string | undefined, signature: string | undefined): string | null {
+    if (this.driver !== 'local' || !expires || !signature) {
+      return null;
+    }
+
+    const expiresAt = Number(expires);
+    if (!Number.isFinite(expiresAt) || expiresAt < Math.floor(Date.now() / 1000)) {
+      return null;
+    }
+
+    const expected = Buffer.from(this.signLocalKey(key, expiresAt), 'hex');
+    const received = Buffer.from(signature, 'hex');
+    if (received.length !== expected.length || !crypto.timingSafeEqual(received, expected)) {
+      return null;
+    }
+
+    return this.resolveLocalPath(key);
+  }
+
+  private signLocalKey(key: string, expires: number): string {
+    return crypto
+      .createHmac('sha256', config.JWT_SECRET)
+      .update(`media:${key}:${expires}`, 'utf8')
+      .digest('hex');
+  }
+
+  private resolveLocalPath(key: string): string | null {
+    const filePath = path.resolve(this.baseDir, key);
+    // Impedir path traversal (../) para fora do diretório de mídia
+    return filePath.startsWith(path.resolve(this.baseDir) + path.sep) ? filePath : null;
+  }
+
+  private buildKey(tenantId: string, messageId: string, mimetype: string, fileName?: string): string {
+    const baseMimetype = mimetype.split(';')[0].trim();
+    const extension = EXTENSIONS[baseMimetype]
+      || (fileName && path.extname(fileName).slice(1).toLowerCase())
+      || baseMimetype.split('/')[1]?.replace(/[^a-z0-9]/g, '')
+      || 'bin';
+    const month = new Date().toISOString().substring(0, 7);
+    const safeTenant = tenantId.replace(/[^a-zA-Z0-9_-]/g, '_');
+    const safeId = messageId.replace(/[^a-zA-Z0-9_-]/g, '_');
+
+    return `${safeTenant}/${month}/${safeId}.${extension}`;
+  }
+}
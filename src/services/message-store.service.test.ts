@@ -0,0 +1,108 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { config } from '../config/config';
+import { FileMessageRepository, StoredMessage } from './message-store.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const buildMessage = (id: string, overrides: Partial<StoredMessage> = {}): StoredMessage => ({
+  id,
+  tenantId: 'tenant-a',
+  direction: 'outbound',
+  phoneNumber: '5511999990000',
+  remoteJid: '5511999990000@s.whatsapp.net',
+  type: 'text',
+  text: `message ${id}`,
+  status: 'sent',
+  timestamp: Date.now(),
+  createdAt: new Date().toISOString(),
+  ...overrides
+});
+
+describe('FileMessageRepository', () => {
+  let baseDir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    baseDir = fs.mkdtempSync(path.join(config.DATA_DIR, 'messages-'));
+    filePath = path.join(baseDir, 'tenant-a.jsonl');
+  });
+
+  it('keeps messages saved while the history is still loading', async () => {
+    fs.writeFileSync(filePath, JSON.stringify(buildMessage('existing')) + '\n');
+    const repository = new FileMessageRepository(baseDir);
+
+    // Cada chamada fazia a própria leitura e a última sobrescrevia o que as outras tinham gravado
+    await Promise.all([
+      repository.save(buildMessage('first')),
+      repository.query('tenant-a', { page: 1, limit: 10 }),
+      repository.save(buildMessage('second'))
+    ]);
+
+    const page = await repository.query('tenant-a', { page: 1, limit: 10 });
+    expect(page.messages.map(message => message.id).sort()).toEqual(['existing', 'first', 'second']);
+  });
+
+  it('reads pages newest first from disk', async () => {
+    const repository = new FileMessageRepository(baseDir);
+    const now = Date.now();
+    for (let i = 0; i < 5; i++) {
+      await repository.save(buildMessage(`m${i}`, { timestamp: now + i * 1000 }));
+    }
+
+    const page = await repository.query('tenant-a', { page: 2, limit: 2 });
+
+    expect(page.messages.map(message => message.id)).toEqual(['m2', 'm1']);
+    expect(page.pagination).toMatchObject({ page: 2, limit: 2, total: 5 });
+  });
+
+  it('returns the latest version of an updated message after a restart', async () => {
+    const repository = new FileMessageRepository(baseDir);
+    const message = buildMessage('status');
+    await repository.save(message);
+    await repository.save({ ...message, status: 'read', updatedAt: new Date().toISOString() });
+
+    const reloaded = new FileMessageRepository(baseDir);
+
+    expect((await reloaded.find('tenant-a', 'outbound', 'status'))?.status).toBe('read');
+    expect((await reloaded.query('tenant-a', { page: 1, limit: 10 })).pagination.total).toBe(1);
+  });
+
+  it('keeps working after an interrupted write', async () => {
+    fs.writeFileSync(filePath, JSON.stringify(buildMessage('complete')) + '\n{"id":"trunc');
+    const repository = new FileMessageRepository(baseDir);
+
+    await repository.save(buildMessage('after'));
+
+    expect((await repository.find('tenant-a', 'outbound', 'after'))?.text).toBe('message after');
+    expect((await repository.find('tenant-a', 'outbound', 'complete'))?.text).toBe('message complete');
+  });
+
+  it('drops messages older than the retention window', async () => {
+    fs.writeFileSync(filePath, [
+      JSON.stringify(buildMessage('old', { timestamp: Date.now() - 10 * DAY_MS })),
+      JSON.stringify(buildMessage('recent'))
+    ].join('\n') + '\n');
+    const repository = new FileMessageRepository(baseDir, 7);
+
+    const page = await repository.query('tenant-a', { page: 1, limit: 10 });
+
+    expect(page.messages.map(message => message.id)).toEqual(['recent']);
+    expect(await repository.find('tenant-a', 'outbound', 'old')).toBeNull();
+  });
+
+  it('compacts the file when stale versions pile up', async () => {
+    const repository = new FileMessageRepository(baseDir);
+    const message = buildMessage('busy');
+    await repository.save(buildMessage('other'));
+    for (let i = 0; i < 1100; i++) {
+      await repository.save({ ...message, status: `status-${i}` });
+    }
+
+    const lines = fs.readFileSync(filePath, 'utf8').trim().split('\n');
+
+    expect(lines.length).toBeLessThan(1000);
+    expect((await repository.find('tenant-a', 'outbound', 'busy'))?.status).toBe('status-1099');
+    expect((await repository.find('tenant-a', 'outbound', 'other'))?.text).toBe('message other');
+  });
+});
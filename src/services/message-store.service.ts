@@ -0,0 +1,633 @@
+import { Logger } from 'pino';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import { config } from '../config/config';
+import { getDatabasePool, isDatabaseConfigured } from '../utils/database';
+
+export type MessageDirection = 'inbound' | 'outbound';
+
+// Ciclo de vida de mensagens enviadas (received é usado para as recebidas)
+export type MessageDeliveryStatus = 'pending' | 'server_ack' | 'delivered' | 'read' | 'failed';
+
+const DELIVERY_STATUS_ORDER: Record<string, number> = {
+  pending: 0,
+  server_ack: 1,
+  delivered: 2,
+  read: 3
+};
+
+export interface MessageStatusEntry {
+  status: string;
+  timestamp: number;
+}
+
+export interface StoredMessage {
+  id: string;
+  tenantId: string;
+  direction: MessageDirection;
+  phoneNumber: string; // Número (ou ID de conversa) sem sufixo do JID
+  remoteJid: string;
+  type: string;
+  text?: string;
+  mediaUrl?: string;
+  caption?: string;
+  fileName?: string;
+  status?: string;
+  statusHistory?: MessageStatusEntry[];
+  error?: string;
+  timestamp: number; // Epoch em ms
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface MessageHistoryQuery {
+  phoneNumber?: string;
+  direction?: MessageDirection;
+  type?: string;
+  from?: Date;
+  to?: Date;
+  page: number;
+  limit: number;
+}
+
+export interface MessageHistoryPage {
+  messages: StoredMessage[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    pages: number;
+  };
+}
+
+/**
+ * Contrato para armazenamento de mensagens - implementações em arquivo e Postgres
+ */
+export interface MessageRepository {
+  readonly name: string;
+  save(message: StoredMessage): Promise<void>;
+  find(tenantId: string, direction: MessageDirection, messageId: string): Promise<StoredMessage | null>;
+  query(tenantId: string, query: MessageHistoryQuery): Promise<MessageHistoryPage>;
+}
+
+function buildPage(messages: StoredMessage[], total: number, query: MessageHistoryQuery): MessageHistoryPage {
+  return {
+    messages,
+    pagination: {
+      page: query.page,
+      limit: query.limit,
+      total,
+      pages: Math.ceil(total / query.limit)
+    }
+  };
+}
+
+// Posição da versão mais recente de cada mensagem no JSONL - o conteúdo é lido do disco sob demanda
+interface MessageIndexEntry {
+  offset: number;
+  length: number; // Bytes da linha, sem o \n
+  direction: MessageDirection;
+  type: string;
+  phoneNumber: string;
+  remoteJid: string;
+  timestamp: number;
+}
+
+interface TenantMessageFile {
+  index: Map<string, MessageIndexEntry>;
+  size: number; // Bytes gravados no arquivo
+  lines: number; // Linhas válidas, incluindo versões antigas (atualizações de status)
+}
+
+// Reescrever o arquivo quando as versões antigas passam das atuais (e de um mínimo)
+const COMPACTION_MIN_STALE_LINES = 1000;
+
+/**
+ * Repositório padrão: um arquivo JSONL por tenant em DATA_DIR/messages
+ * Em memória fica só o índice (offset + campos de filtro); as páginas são lidas do arquivo
+ * Atualizações viram novas linhas - a compactação remove versões antigas e mensagens fora de MESSAGE_RETENTION_DAYS
+ */
+export class FileMessageRepository implements MessageRepository {
+  readonly name = 'file';
+  private baseDir: string;
+  private files: Map<string, Promise<TenantMessageFile>> = new Map();
+  private fileChains: Map<string, Promise<unknown>> = new Map();
+
+  constructor(
+    baseDir: string = path.join(config.DATA_DIR, 'messages'),
+    private retentionDays: number = config.MESSAGE_RETENTION_DAYS
+  ) {
+    this.baseDir = baseDir;
+    fs.mkdirSync(this.baseDir, { recursive: true });
+  }
+
+  private getFilePath(tenantId: string): string {
+    return path.join(this.baseDir, `${tenantId.replace(/[^a-zA-Z0-9_-]/g, '_')}.jsonl`);
+  }
+
+  private getKey(direction: MessageDirection, messageId: string): string {
+    return `${direction}_${messageId}`;
+  }
+
+  private getRetentionCutoff(): number | null {
+    return this.retentionDays > 0 ? Date.now() - this.retentionDays * 24 * 60 * 60 * 1000 : null;
+  }
+
+  /**
+   * Serializar operações no arquivo do tenant (append, leitura por offset e compactação)
+   */
+  private runInFileChain<T>(tenantId: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.fileChains.get(tenantId) || Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+
+    this.fileChains.set(tenantId, next);
+    return next;
+  }
+
+  // Uma única leitura por tenant, mesmo com chamadas concorrentes
+  private load(tenantId: string): Promise<TenantMessageFile> {
+    let file = this.files.get(tenantId);
+    if (!file) {
+      file = this.runInFileChain(tenantId, () => this.readIndex(tenantId));
+      this.files.set(tenantId, file);
+      // Permitir nova tentativa caso a leitura falhe
+      file.catch(() => this.files.delete(tenantId));
+    }
+    return file;
+  }
+
+  private async readIndex(tenantId: string): Promise<TenantMessageFile> {
+    const filePath = this.getFilePath(tenantId);
+    const file: TenantMessageFile = { index: new Map(), size: 0, lines: 0 };
+
+    if (!fs.existsSync(filePath)) {
+      return file;
+    }
+
+    const cutoff = this.getRetentionCutoff();
+    const lines = readline.createInterface({
+      input: fs.createReadStream(filePath, { encoding: 'utf8' }),
+      crlfDelay: Infinity
+    });
+
+    let offset = 0;
+    for await (const line of lines) {
+      const length = Buffer.byteLength(line, 'utf8');
+
+      if (line.trim()) {
+        try {
+          const message = JSON.parse(line) as StoredMessage;
+          file.lines++;
+          // Linhas posteriores sobrescrevem as anteriores (ex: atualização de status)
+          const key = this.getKey(message.direction, message.id);
+          if (cutoff !== null && message.timestamp < cutoff) {
+            file.index.delete(key);
+          } else {
+            file.index.set(key, this.toIndexEntry(message, offset, length));
+          }
+        } catch {
+          // Ignorar linha corrompida (ex: escrita interrompida)
+        }
+      }
+
+      offset += length + 1;
+    }
+
+    file.size = (await fs.promises.stat(filePath)).size;
+
+    // Escrita interrompida sem \n: fechar a linha para o próximo append não emendar nela
+    if (file.size > 0 && offset > file.size) {
+      await fs.promises.appendFile(filePath, '\n', 'utf8');
+      file.size++;
+    }
+
+    if (this.needsCompaction(file)) {
+      await this.compact(tenantId, file);
+    }
+
+    return file;
+  }
+
+  private toIndexEntry(message: StoredMessage, offset: number, length: number): MessageIndexEntry {
+    return {
+      offset,
+      length,
+      direction: message.direction,
+      type: message.type,
+      phoneNumber: message.phoneNumber,
+      remoteJid: message.remoteJid,
+      timestamp: message.timestamp
+    };
+  }
+
+  private needsCompaction(file: TenantMessageFile): boolean {
+    const staleLines = file.lines - file.index.size;
+    return staleLines >= COMPACTION_MIN_STALE_LINES && staleLines > file.index.size;
+  }
+
+  /**
+   * Reescrever o arquivo só com a versão atual de cada mensagem dentro da retenção
+   * Grava em arquivo temporário + rename para não perder o histórico se o processo cair no meio
+   */
+  private async compact(tenantId: string, file: TenantMessageFile): Promise<void> {
+    const filePath = this.getFilePath(tenantId);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    const cutoff = this.getRetentionCutoff();
+    const entries = Array.from(file.index.entries()).sort((a, b) => a[1].offset - b[1].offset);
+    const index = new Map<string, MessageIndexEntry>();
+    const previousLines = file.lines;
+
+    const input = await fs.promises.open(filePath, 'r');
+    const output = await fs.promises.open(tempPath, 'w');
+    let offset = 0;
+
+    try {
+      for (const [key, entry] of entries) {
+        if (cutoff !== null && entry.timestamp < cutoff) {
+          continue;
+        }
+
+        const buffer = Buffer.alloc(entry.length + 1, '\n');
+        await input.read(buffer, 0, entry.length, entry.offset);
+        await output.write(buffer);
+
+        index.set(key, { ...entry, offset });
+        offset += buffer.length;
+      }
+    } finally {
+      await input.close();
+      await output.close();
+    }
+
+    await fs.promises.rename(tempPath, filePath);
+
+    file.index = index;
+    file.size = offset;
+    file.lines = index.size;
+
+    console.log('🧹 [MessageStore] History file compacted', {
+      tenantId: tenantId.substring(0, 8) + '***',
+      linesBefore: previousLines,
+      linesAfter: index.size
+    });
+  }
+
+  private async readEntries(tenantId: string, entries: MessageIndexEntry[]): Promise<StoredMessage[]> {
+    if (entries.length === 0) {
+      return [];
+    }
+
+    const handle = await fs.promises.open(this.getFilePath(tenantId), 'r');
+    try {
+      const messages: StoredMessage[] = [];
+      for (const entry of entries) {
+        const buffer = Buffer.alloc(entry.length);
+        await handle.read(buffer, 0, entry.length, entry.offset);
+        messages.push(JSON.parse(buffer.toString('utf8')) as StoredMessage);
+      }
+      return messages;
+    } finally {
+      await handle.close();
+    }
+  }
+
+  // Mensagens que saíram da retenção somem do índice e contam como linhas antigas para a compactação
+  private pruneExpired(file: TenantMessageFile): void {
+    const cutoff = this.getRetentionCutoff();
+    if (cutoff === null) {
+      return;
+    }
+
+    for (const [key, entry] of file.index) {
+      if (entry.timestamp < cutoff) {
+        file.index.delete(key);
+      }
+    }
+  }
+
+  async save(message: StoredMessage): Promise<void> {
+    const file = await this.load(message.tenantId);
+    const filePath = this.getFilePath(message.tenantId);
+
+    await this.runInFileChain(message.tenantId, async () => {
+      const line = JSON.stringify(message);
+      const length = Buffer.byteLength(line, 'utf8');
+
+      await fs.promises.appendFile(filePath, line + '\n', 'utf8');
+
+      file.index.set(this.getKey(message.direction, message.id), this.toIndexEntry(message, file.size, length));
+      file.size += length + 1;
+      file.lines++;
+
+      if (this.needsCompaction(file)) {
+        await this.compact(message.tenantId, file);
+      }
+    });
+  }
+
+  async find(tenantId: string, direction: MessageDirection, messageId: string): Promise<StoredMessage | null> {
+    const file = await this.load(tenantId);
+
+    return this.runInFileChain(tenantId, async () => {
+      const entry = file.index.get(this.getKey(direction, messageId));
+      const [message] = entry ? await this.readEntries(tenantId, [entry]) : [];
+      return message || null;
+    });
+  }
+
+  async query(tenantId: string, query: MessageHistoryQuery): Promise<MessageHistoryPage> {
+    const file = await this.load(tenantId);
+    const fromMs = query.from?.getTime();
+    const toMs = query.to?.getTime();
+
+    return this.runInFileChain(tenantId, async () => {
+      this.pruneExpired(file);
+
+      const filtered = Array.from(file.index.values())
+        .filter(entry => {
+          if (query.phoneNumber && entry.phoneNumber !== query.phoneNumber && entry.remoteJid !== query.phoneNumber) {
+            return false;
+          }
+          if (query.direction && entry.direction !== query.direction) return false;
+          if (query.type && entry.type !== query.type) return false;
+          if (fromMs !== undefined && entry.timestamp < fromMs) return false;
+          if (toMs !== undefined && entry.timestamp > toMs) return false;
+          return true;
+        })
+        .sort((a, b) => b.timestamp - a.timestamp);
+
+      const offset = (query.page - 1) * query.limit;
+      const messages = await this.readEntries(tenantId, filtered.slice(offset, offset + query.limit));
+
+      return buildPage(messages, filtered.length, query);
+    });
+  }
+}
+
+/**
+ * Repositório Postgres, usado quando DATABASE_URL está configurado
+ */
+export class PostgresMessageRepository implements MessageRepository {
+  readonly name = 'postgres';
+  private ready: Promise<void> | null = null;
+
+  private ensureSchema(): Promise<void> {
+    if (!this.ready) {
+      this.ready = getDatabasePool().query(`
+        CREATE TABLE IF NOT EXISTS whatsapp_messages (
+          tenant_id TEXT NOT NULL,
+          message_id TEXT NOT NULL,
+          direction TEXT NOT NULL,
+          phone_number TEXT NOT NULL,
+          remote_jid TEXT NOT NULL,
+          type TEXT NOT NULL,
+          text TEXT,
+          media_url TEXT,
+          caption TEXT,
+          file_name TEXT,
+          status TEXT,
+          status_history JSONB,
+          error TEXT,
+          timestamp TIMESTAMPTZ NOT NULL,
+          created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMPTZ,
+          PRIMARY KEY (tenant_id, direction, message_id)
+        );
+        ALTER TABLE whatsapp_messages ADD COLUMN IF NOT EXISTS status_history JSONB;
+        ALTER TABLE whatsapp_messages ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ;
+        CREATE INDEX IF NOT EXISTS whatsapp_messages_history_idx
+          ON whatsapp_messages (tenant_id, timestamp DESC);
+        CREATE INDEX IF NOT EXISTS whatsapp_messages_phone_idx
+          ON whatsapp_messages (tenant_id, phone_number, timestamp DESC);
+      `).then(() => undefined);
+
+      // Permitir nova tentativa caso a criação falhe
+      this.ready.catch(() => {
+        this.ready = null;
+      });
+    }
+
+    return this.ready;
+  }
+
+  async save(message: StoredMessage): Promise<void> {
+    await this.ensureSchema();
+
+    await getDatabasePool().query(
+      `INSERT INTO whatsapp_messages
+        (tenant_id, message_id, direction, phone_number, remote_jid, type, text, media_url, caption, file_name, status, status_history, error, timestamp, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
+       ON CONFLICT (tenant_id, direction, message_id) DO UPDATE SET
+         status = EXCLUDED.status,
+         status_history = EXCLUDED.status_history,
+         error = EXCLUDED.error,
+         updated_at = EXCLUDED.updated_at`,
+      [
+        message.tenantId,
+        message.id,
+        message.direction,
+        message.phoneNumber,
+        message.remoteJid,
+        message.type,
+        message.text ?? null,
+        message.mediaUrl ?? null,
+        message.caption ?? null,
+        message.fileName ?? null,
+        message.status ?? null,
+        message.statusHistory ? JSON.stringify(message.statusHistory) : null,
+        message.error ?? null,
+        new Date(message.timestamp),
+        message.createdAt,
+        message.updatedAt ?? null
+      ]
+    );
+  }
+
+  async find(tenantId: string, direction: MessageDirection, messageId: string): Promise<StoredMessage | null> {
+    await this.ensureSchema();
+
+    const result = await getDatabasePool().query(
+      'SELECT * FROM whatsapp_messages WHERE tenant_id = $1 AND direction = $2 AND message_id = $3',
+      [tenantId, direction, messageId]
+    );
+
+    return result.rows[0] ? this.mapRow(result.rows[0]) : null;
+  }
+
+  async query(tenantId: string, query: MessageHistoryQuery): Promise<MessageHistoryPage> {
+    await this.ensureSchema();
+
+    const conditions: string[] = ['tenant_id = $1'];
+    const params: any[] = [tenantId];
+
+    if (query.phoneNumber) {
+      params.push(query.phoneNumber);
+      conditions.push(`(phone_number = $${params.length} OR remote_jid = $${params.length})`);
+    }
+    if (query.direction) {
+      params.push(query.direction);
+      conditions.push(`direction = $${params.length}`);
+    }
+    if (query.type) {
+      params.push(query.type);
+      conditions.push(`type = $${params.length}`);
+    }
+    if (query.from) {
+      params.push(query.from);
+      conditions.push(`timestamp >= $${params.length}`);
+    }
+    if (query.to) {
+      params.push(query.to);
+      conditions.push(`timestamp <= $${params.length}`);
+    }
+
+    const where = conditions.join(' AND ');
+    const pool = getDatabasePool();
+
+    const countResult = await pool.query(`SELECT COUNT(*)::int AS total FROM whatsapp_messages WHERE ${where}`, params);
+    const rowsResult = await pool.query(
+      `SELECT * FROM whatsapp_messages WHERE ${where}
+       ORDER BY timestamp DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, query.limit, (query.page - 1) * query.limit]
+    );
+
+    const messages: StoredMessage[] = rowsResult.rows.map(row => this.mapRow(row));
+
+    return buildPage(messages, countResult.rows[0]?.total || 0, query);
+  }
+
+  private mapRow(row: any): StoredMessage {
+    return {
+      id: row.message_id,
+      tenantId: row.tenant_id,
+      direction: row.direction,
+      phoneNumber: row.phone_number,
+      remoteJid: row.remote_jid,
+      type: row.type,
+      text: row.text ?? undefined,
+      mediaUrl: row.media_url ?? undefined,
+      caption: row.caption ?? undefined,
+      fileName: row.file_name ?? undefined,
+      status: row.status ?? undefined,
+      statusHistory: row.status_history ?? undefined,
+      error: row.error ?? undefined,
+      timestamp: new Date(row.timestamp).getTime(),
+      createdAt: new Date(row.created_at).toISOString(),
+      updatedAt: row.updated_at ? new Date(row.updated_at).toISOString() : undefined
+    };
+  }
+}
+
+/**
+ * Persistência do histórico de mensagens recebidas e enviadas
+ */
+export class MessageStoreService {
+  private logger: Logger;
+  private repository: MessageRepository;
+  private messageLocks: Map<string, Promise<void>> = new Map();
+
+  constructor(logger: Logger, repository?: MessageRepository) {
+    this.logger = logger.child({ service: 'MessageStoreService' });
+    this.repository = repository || (isDatabaseConfigured()
+      ? new PostgresMessageRepository()
+      : new FileMessageRepository());
+
+    console.log(`✅ [MessageStore] Initialized (repository: ${this.repository.name})`);
+  }
+
+  /**
+   * Serializar operações sobre a mesma mensagem (gravação inicial e atualizações de status
+   * podem chegar quase juntas e não devem se sobrescrever)
+   */
+  private runExclusive<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.messageLocks.get(key) || Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+    const settled = next.then(() => undefined, () => undefined);
+
+    this.messageLocks.set(key, settled);
+    settled.then(() => {
+      if (this.messageLocks.get(key) === settled) {
+        this.messageLocks.delete(key);
+      }
+    });
+
+    return next;
+  }
+
+  /**
+   * Grava a mensagem sem interromper o fluxo de envio/recebimento em caso de erro
+   */
+  async record(message: Omit<StoredMessage, 'createdAt'>): Promise<void> {
+    const createdAt = new Date().toISOString();
+
+    try {
+      await this.runExclusive(`${message.tenantId}_${message.direction}_${message.id}`, () => this.repository.save({
+        ...message,
+        statusHistory: message.statusHistory || (message.status ? [{ status: message.status, timestamp: message.timestamp }] : undefined),
+        createdAt
+      }));
+    } catch (error) {
+      console.log('❌ [MessageStore] Failed to record message', {
+        tenantId: message.tenantId.substring(0, 8) + '***',
+        messageId: message.id.substring(0, 8) + '***',
+        direction: message.direction,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Avançar o status de entrega de uma mensagem enviada
+   * Retorna null quando a mensagem não é conhecida ou o status não avança (ex: read -> delivered)
+   */
+  async updateDeliveryStatus(
+    tenantId: string,
+    messageId: string,
+    status: MessageDeliveryStatus,
+    timestamp: number = Date.now()
+  ): Promise<{ message: StoredMessage; previousStatus?: string } | null> {
+    return this.runExclusive(`${tenantId}_outbound_${messageId}`, async () => {
+      const message = await this.repository.find(tenantId, 'outbound', messageId);
+      if (!message) {
+        return null;
+      }
+
+      const previousStatus = message.status;
+      const currentOrder = DELIVERY_STATUS_ORDER[previousStatus || ''] ?? -1;
+
+      if (status === 'failed') {
+        // Falha só é aceita antes da entrega
+        if (previousStatus === 'failed' || currentOrder >= DELIVERY_STATUS_ORDER.delivered) {
+          return null;
+        }
+      } else if (previousStatus !== 'failed' && DELIVERY_STATUS_ORDER[status] <= currentOrder) {
+        // Status nunca regride (recibos podem chegar fora de ordem)
+        return null;
+      }
+
+      const updated: StoredMessage = {
+        ...message,
+        status,
+        statusHistory: [...(message.statusHistory || []), { status, timestamp }],
+        updatedAt: new Date(timestamp).toISOString()
+      };
+
+      await this.repository.save(updated);
+      return { message: updated, previousStatus };
+    });
+  }
+
+  async getMessage(tenantId: string, direction: MessageDirection, messageId: string): Promise<StoredMessage | null> {
+    return this.repository.find(tenantId, direction, messageId);
+  }
+
+  async getHistory(tenantId: string, query: MessageHistoryQuery): Promise<MessageHistoryPage> {
+    return this.repository.query(tenantId, query);
+  }
+
+  getRepositoryName(): string {
+    return this.repository.name;
+  }
+}
@@ -0,0 +1,102 @@
+import pino from 'pino';
+import { TenantManager } from './tenant.service';
+import { QuotaService } from './quota.service';
+import { TooManyRequestsError } from '../middleware/error.middleware';
+
+describe('QuotaService', () => {
+  const logger = pino({ level: 'silent' });
+  let tenantManager: TenantManager;
+  let quotaService: QuotaService;
+
+  const createTenant = async (id: string, settings: Record<string, unknown> = {}) => {
+    await tenantManager.createTenant({
+      id,
+      name: `Tenant ${id}`,
+      settings: { maxSessions: 1, rateLimit: { windowMs: 60000, max: 3 }, ...settings },
+      status: 'active'
+    });
+  };
+
+  beforeAll(async () => {
+    tenantManager = new TenantManager(logger);
+    quotaService = new QuotaService(logger, tenantManager);
+
+    await createTenant('quota-msg', { quotas: { messagesPerMinute: 3, messagesPerDay: 5 } });
+    await createTenant('quota-req');
+    await createTenant('quota-sessions', { maxSessions: 2 });
+    await createTenant('quota-unlimited', { maxSessions: undefined, quotas: { messagesPerMinute: 0 } });
+  });
+
+  afterAll(async () => {
+    await quotaService.shutdown();
+    await tenantManager.shutdown();
+  });
+
+  describe('message quota', () => {
+    it('reserves messages and rejects a reservation that would overflow', async () => {
+      await quotaService.consumeMessages('quota-msg', 2);
+
+      await expect(quotaService.consumeMessages('quota-msg', 2)).rejects.toBeInstanceOf(TooManyRequestsError);
+      expect((await quotaService.getUsage('quota-msg')).messages.minute.used).toBe(2);
+    });
+
+    it('frees the reservation on release', async () => {
+      quotaService.releaseMessages('quota-msg', 2);
+
+      const usage = await quotaService.getUsage('quota-msg');
+      expect(usage.messages.minute.used).toBe(0);
+      expect(usage.messages.day.remaining).toBe(5);
+
+      await quotaService.consumeMessages('quota-msg', 3);
+      quotaService.releaseMessages('quota-msg', 3);
+    });
+
+    it('never releases below zero', async () => {
+      quotaService.releaseMessages('quota-msg', 10);
+
+      expect((await quotaService.getUsage('quota-msg')).messages.minute.used).toBe(0);
+    });
+
+    it('reports the exceeded period with a Retry-After', async () => {
+      const error = await quotaService.assertMessageQuota('quota-msg', 6, ['day']).catch(err => err);
+
+      expect(error).toBeInstanceOf(TooManyRequestsError);
+      expect(error.message).toContain('Daily message quota exceeded');
+      expect(error.retryAfter).toBeGreaterThan(0);
+    });
+
+    it('checks only the requested periods', async () => {
+      await expect(quotaService.assertMessageQuota('quota-msg', 4, ['day'])).resolves.toBeUndefined();
+      await expect(quotaService.assertMessageQuota('quota-msg', 4, ['minute'])).rejects.toBeInstanceOf(TooManyRequestsError);
+    });
+
+    it('treats 0 as unlimited', async () => {
+      await expect(quotaService.consumeMessages('quota-unlimited', 1000)).resolves.toBeUndefined();
+      expect((await quotaService.getUsage('quota-unlimited')).messages.minute.limit).toBeNull();
+    });
+  });
+
+  describe('request limit', () => {
+    it('counts requests in a fixed window per tenant', async () => {
+      const states = [];
+      for (let i = 0; i < 4; i++) {
+        states.push(await quotaService.consumeRequest('quota-req'));
+      }
+
+      expect(states.map(state => state.allowed)).toEqual([true, true, true, false]);
+      expect(states[3].remaining).toBe(0);
+      expect((await quotaService.consumeRequest('quota-msg')).allowed).toBe(true);
+    });
+  });
+
+  describe('session limit', () => {
+    it('allows up to maxSessions open sessions', async () => {
+      await expect(quotaService.assertSessionLimit('quota-sessions', 2)).resolves.toBeUndefined();
+      await expect(quotaService.assertSessionLimit('quota-sessions', 3)).rejects.toThrow('Session limit reached');
+    });
+
+    it('does not limit tenants without maxSessions', async () => {
+      await expect(quotaService.assertSessionLimit('quota-unlimited', 50)).resolves.toBeUndefined();
+    });
+  });
+});
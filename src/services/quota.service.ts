@@ -0,0 +1,282 @@
+import { Logger } from 'pino';
+import { config } from '../config/config';
+import { JsonFileStore } from '../utils/json-file-store';
+import { TooManyRequestsError } from '../middleware/error.middleware';
+import { TenantManager } from './tenant.service';
+
+export type QuotaPeriod = 'minute' | 'day' | 'month';
+
+const QUOTA_PERIODS: QuotaPeriod[] = ['minute', 'day', 'month'];
+
+const PERIOD_LABELS: Record<QuotaPeriod, string> = {
+  minute: 'Per-minute',
+  day: 'Daily',
+  month: 'Monthly'
+};
+
+export interface RequestLimitState {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  windowMs: number;
+  resetAt: Date;
+}
+
+export interface QuotaUsage {
+  limit: number | null; // null = sem limite
+  used: number;
+  remaining: number | null;
+  resetAt: string;
+}
+
+export interface TenantUsageReport {
+  tenantId: string;
+  requests: {
+    limit: number;
+    used: number;
+    remaining: number;
+    windowMs: number;
+    resetAt: string;
+  };
+  messages: Record<QuotaPeriod, QuotaUsage>;
+}
+
+// Contador do período corrente (period = chave UTC: 2026-10-19T17:59, 2026-10-19 ou 2026-10)
+interface UsageCounter {
+  period: string;
+  count: number;
+}
+
+type TenantMessageUsage = Record<QuotaPeriod, UsageCounter>;
+
+interface RequestWindow {
+  windowStart: number;
+  count: number;
+}
+
+/**
+ * Limites por tenant: requisições HTTP (settings.rateLimit) e cota de mensagens enviadas (settings.quotas)
+ * Os contadores de mensagens ficam em usage.json para a cota diária/mensal sobreviver a restarts
+ */
+export class QuotaService {
+  private logger: Logger;
+  private requestWindows: Map<string, RequestWindow> = new Map();
+  private messageUsage: Map<string, TenantMessageUsage> = new Map();
+  private store = new JsonFileStore<Record<string, TenantMessageUsage>>('usage.json');
+
+  constructor(logger: Logger, private tenantManager: TenantManager) {
+    this.logger = logger.child({ service: 'QuotaService' });
+
+    for (const [tenantId, usage] of Object.entries(this.store.read({}))) {
+      this.messageUsage.set(tenantId, usage);
+    }
+
+    tenantManager.on('deleted', (tenantId: string) => {
+      this.requestWindows.delete(tenantId);
+      this.messageUsage.delete(tenantId);
+      this.persist();
+    });
+
+    console.log(`✅ [Quota] Initialized (tenants with usage: ${this.messageUsage.size})`);
+  }
+
+  private persist(): void {
+    this.store.scheduleWrite(() => Object.fromEntries(this.messageUsage));
+  }
+
+  /**
+   * Contabilizar uma requisição na janela fixa do tenant (settings.rateLimit ou RATE_LIMIT_WINDOW/RATE_LIMIT_MAX)
+   */
+  async consumeRequest(tenantId: string): Promise<RequestLimitState> {
+    const { windowMs, max } = await this.getRequestLimit(tenantId);
+    const now = Date.now();
+
+    let window = this.requestWindows.get(tenantId);
+    if (!window || now - window.windowStart >= windowMs) {
+      window = { windowStart: now, count: 0 };
+      this.requestWindows.set(tenantId, window);
+    }
+
+    const allowed = window.count < max;
+    if (allowed) {
+      window.count++;
+    }
+
+    return {
+      allowed,
+      limit: max,
+      remaining: Math.max(0, max - window.count),
+      windowMs,
+      resetAt: new Date(window.windowStart + windowMs)
+    };
+  }
+
+  /**
+   * Reservar `count` mensagens na cota do tenant - lança TooManyRequestsError se algum período estourar
+   * Usar releaseMessages se o envio falhar
+   */
+  async consumeMessages(tenantId: string, count: number = 1): Promise<void> {
+    await this.assertMessageQuota(tenantId, count);
+
+    const usage = this.getCurrentUsage(tenantId);
+    for (const period of QUOTA_PERIODS) {
+      usage[period].count += count;
+    }
+    this.persist();
+  }
+
+  releaseMessages(tenantId: string, count: number = 1): void {
+    const usage = this.getCurrentUsage(tenantId);
+    for (const period of QUOTA_PERIODS) {
+      usage[period].count = Math.max(0, usage[period].count - count);
+    }
+    this.persist();
+  }
+
+  /**
+   * Verificar se ainda cabem `count` mensagens sem consumir a cota (usado pelo send-bulk antes de criar a campanha)
+   */
+  async assertMessageQuota(tenantId: string, count: number, periods: QuotaPeriod[] = QUOTA_PERIODS): Promise<void> {
+    const limits = await this.getMessageLimits(tenantId);
+    const usage = this.getCurrentUsage(tenantId);
+    const now = new Date();
+
+    for (const period of periods) {
+      const limit = limits[period];
+      if (!limit || usage[period].count + count <= limit) {
+        continue;
+      }
+
+      const retryAfter = Math.max(1, Math.ceil((this.getPeriodEnd(period, now).getTime() - now.getTime()) / 1000));
+
+      console.log('🚫 [Quota] Message quota exceeded', {
+        tenantId: tenantId.substring(0, 8) + '***',
+        period,
+        used: usage[period].count,
+        requested: count,
+        limit
+      });
+
+      throw new TooManyRequestsError(
+        `${PERIOD_LABELS[period]} message quota exceeded (${usage[period].count}/${limit})`,
+        retryAfter
+      );
+    }
+  }
+
+  /**
+   * Verificar se o tenant pode ter `openSessions` sessões abertas ao mesmo tempo (settings.maxSessions)
+   * Sem maxSessions configurado não há limite
+   */
+  async assertSessionLimit(tenantId: string, openSessions: number): Promise<void> {
+    const maxSessions = (await this.tenantManager.getTenant(tenantId))?.settings.maxSessions;
+    if (!maxSessions || openSessions <= maxSessions) {
+      return;
+    }
+
+    console.log('🚫 [Quota] Session limit reached', {
+      tenantId: tenantId.substring(0, 8) + '***',
+      requested: openSessions,
+      maxSessions
+    });
+
+    throw new TooManyRequestsError(`Session limit reached (${maxSessions} per tenant)`);
+  }
+
+  async getUsage(tenantId: string): Promise<TenantUsageReport> {
+    const { windowMs, max } = await this.getRequestLimit(tenantId);
+    const limits = await this.getMessageLimits(tenantId);
+    const usage = this.getCurrentUsage(tenantId);
+    const now = new Date();
+
+    const window = this.requestWindows.get(tenantId);
+    const windowActive = !!window && now.getTime() - window.windowStart < windowMs;
+    const requestsUsed = windowActive ? window!.count : 0;
+
+    const messages = {} as Record<QuotaPeriod, QuotaUsage>;
+    for (const period of QUOTA_PERIODS) {
+      const limit = limits[period] || null;
+      messages[period] = {
+        limit,
+        used: usage[period].count,
+        remaining: limit === null ? null : Math.max(0, limit - usage[period].count),
+        resetAt: this.getPeriodEnd(period, now).toISOString()
+      };
+    }
+
+    return {
+      tenantId,
+      requests: {
+        limit: max,
+        used: requestsUsed,
+        remaining: Math.max(0, max - requestsUsed),
+        windowMs,
+        resetAt: new Date(windowActive ? window!.windowStart + windowMs : now.getTime() + windowMs).toISOString()
+      },
+      messages
+    };
+  }
+
+  private async getRequestLimit(tenantId: string): Promise<{ windowMs: number; max: number }> {
+    const tenant = await this.tenantManager.getTenant(tenantId);
+    return tenant?.settings.rateLimit || { windowMs: config.RATE_LIMIT_WINDOW, max: config.RATE_LIMIT_MAX };
+  }
+
+  // 0 ou ausente = sem limite
+  private async getMessageLimits(tenantId: string): Promise<Record<QuotaPeriod, number>> {
+    const quotas = (await this.tenantManager.getTenant(tenantId))?.settings.quotas || {};
+    return {
+      minute: quotas.messagesPerMinute ?? config.MESSAGE_QUOTA_PER_MINUTE,
+      day: quotas.messagesPerDay ?? config.MESSAGE_QUOTA_PER_DAY,
+      month: quotas.messagesPerMonth ?? config.MESSAGE_QUOTA_PER_MONTH
+    };
+  }
+
+  /**
+   * Contadores do tenant, zerando os períodos que já viraram
+   */
+  private getCurrentUsage(tenantId: string): TenantMessageUsage {
+    const now = new Date();
+    let usage = this.messageUsage.get(tenantId);
+    if (!usage) {
+      usage = {} as TenantMessageUsage;
+      this.messageUsage.set(tenantId, usage);
+    }
+
+    for (const period of QUOTA_PERIODS) {
+      const key = this.getPeriodKey(period, now);
+      if (usage[period]?.period !== key) {
+        usage[period] = { period: key, count: 0 };
+      }
+    }
+
+    return usage;
+  }
+
+  private getPeriodKey(period: QuotaPeriod, date: Date): string {
+    const iso = date.toISOString();
+    switch (period) {
+      case 'minute':
+        return iso.substring(0, 16);
+      case 'day':
+        return iso.substring(0, 10);
+      case 'month':
+        return iso.substring(0, 7);
+    }
+  }
+
+  private getPeriodEnd(period: QuotaPeriod, date: Date): Date {
+    switch (period) {
+      case 'minute':
+        return new Date(Math.floor(date.getTime() / 60000) * 60000 + 60000);
+      case 'day':
+        return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1));
+      case 'month':
+        return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1));
+    }
+  }
+
+  async shutdown(): Promise<void> {
+    await this.store.flush(() => Object.fromEntries(this.messageUsage));
+  }
+}
@@ -0,0 +1,228 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import pino from 'pino';
+import { config } from '../config/config';
+import { TooManyRequestsError } from '../middleware/error.middleware';
+import { SendQueueService, SendJob } from './send-queue.service';
+import { WhatsAppService } from './whatsapp.service';
+
+jest.mock('./whatsapp.service', () => ({}));
+
+const storePath = path.join(config.DATA_DIR, 'send-queue.json');
+const message = { to: '5511999990000', message: 'Olá', type: 'text' as const };
+
+describe('SendQueueService', () => {
+  let sessionStatus: string | undefined;
+  let whatsappService: { getSession: jest.Mock; sendMessage: jest.Mock };
+  let sendQueue: SendQueueService;
+
+  // Cada envio grava o job em disco antes - esperar o I/O real terminar
+  const flushIo = async () => {
+    for (let i = 0; i < 10000 && sendQueue.listJobs('tenant-a', 'sending').length > 0; i++) {
+      await new Promise(resolve => setImmediate(resolve));
+    }
+  };
+
+  const advance = async (ms: number) => {
+    for (let elapsed = 0; elapsed < ms; elapsed += 1000) {
+      await jest.advanceTimersByTimeAsync(Math.min(1000, ms - elapsed));
+      await flushIo();
+    }
+  };
+
+  const createQueue = () => new SendQueueService(pino({ level: 'silent' }), whatsappService as unknown as WhatsAppService);
+
+  beforeEach(() => {
+    jest.useFakeTimers({ doNotFake: ['setImmediate', 'nextTick'] });
+    fs.rmSync(storePath, { force: true });
+
+    sessionStatus = 'connected';
+    whatsappService = {
+      getSession: jest.fn(() => sessionStatus && { status: sessionStatus }),
+      sendMessage: jest.fn().mockResolvedValue({ success: true, messageId: 'wamid-1' })
+    };
+    sendQueue = createQueue();
+  });
+
+  afterEach(async () => {
+    await sendQueue.shutdown();
+    jest.useRealTimers();
+  });
+
+  it('sends pending jobs on the next worker tick', async () => {
+    const job = sendQueue.enqueue('tenant-a', message);
+
+    await advance(1000);
+
+    expect(whatsappService.sendMessage).toHaveBeenCalledWith('tenant-a', message);
+    expect(job).toMatchObject({ status: 'sent', attempts: 1, messageId: 'wamid-1' });
+  });
+
+  it('persists the job as sending before calling WhatsApp', async () => {
+    let storedStatus: string | undefined;
+    whatsappService.sendMessage.mockImplementation(async () => {
+      storedStatus = JSON.parse(fs.readFileSync(storePath, 'utf8'))[0].status;
+      return { success: true };
+    });
+    sendQueue.enqueue('tenant-a', message);
+
+    await advance(1000);
+
+    expect(storedStatus).toBe('sending');
+  });
+
+  it('retries transient errors with exponential backoff', async () => {
+    whatsappService.sendMessage
+      .mockResolvedValueOnce({ success: false, error: 'Connection Closed' })
+      .mockResolvedValueOnce({ success: false, error: 'Timed Out' })
+      .mockResolvedValue({ success: true, messageId: 'wamid-1' });
+    const job = sendQueue.enqueue('tenant-a', message);
+
+    await advance(1000);
+    expect(job).toMatchObject({ status: 'retrying', attempts: 1, lastError: 'Connection Closed' });
+
+    // 1ª nova tentativa após 5s, 2ª após 10s
+    await advance(4000);
+    expect(whatsappService.sendMessage).toHaveBeenCalledTimes(1);
+    await advance(1000);
+    expect(whatsappService.sendMessage).toHaveBeenCalledTimes(2);
+
+    await advance(9000);
+    expect(whatsappService.sendMessage).toHaveBeenCalledTimes(2);
+    await advance(1000);
+    expect(job).toMatchObject({ status: 'sent', attempts: 3 });
+  });
+
+  it('fails after maxAttempts transient errors', async () => {
+    whatsappService.sendMessage.mockResolvedValue({ success: false, error: 'WhatsApp session not connected' });
+    const job = sendQueue.enqueue('tenant-a', message);
+
+    await advance(5 * 60 * 1000);
+
+    expect(job).toMatchObject({ status: 'failed', attempts: config.SEND_QUEUE_MAX_ATTEMPTS });
+    expect(whatsappService.sendMessage).toHaveBeenCalledTimes(config.SEND_QUEUE_MAX_ATTEMPTS);
+  });
+
+  it.each([
+    'Invalid socket configuration',
+    'Media upload failed'
+  ])('does not retry non-transient error "%s"', async (error) => {
+    whatsappService.sendMessage.mockResolvedValue({ success: false, error });
+    const job = sendQueue.enqueue('tenant-a', message);
+
+    await advance(60 * 1000);
+
+    expect(job).toMatchObject({ status: 'failed', attempts: 1, lastError: error });
+    expect(whatsappService.sendMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it.each(['connecting', 'qr', 'pairing_code'])('holds jobs while the session is %s', async (status) => {
+    sessionStatus = status;
+    const job = sendQueue.enqueue('tenant-a', message);
+
+    await advance(10 * 1000);
+    expect(whatsappService.sendMessage).not.toHaveBeenCalled();
+    expect(job).toMatchObject({ status: 'pending', attempts: 0 });
+
+    sessionStatus = 'connected';
+    await advance(1000);
+    expect(job.status).toBe('sent');
+  });
+
+  it('sends scheduled jobs at sendAt', async () => {
+    const job = sendQueue.enqueue('tenant-a', message, { sendAt: new Date(Date.now() + 60 * 1000) });
+    expect(job.status).toBe('scheduled');
+
+    await advance(59 * 1000);
+    expect(whatsappService.sendMessage).not.toHaveBeenCalled();
+
+    await advance(2000);
+    expect(job.status).toBe('sent');
+  });
+
+  it('postpones jobs on quota errors without spending an attempt', async () => {
+    whatsappService.sendMessage
+      .mockRejectedValueOnce(new TooManyRequestsError('Daily message quota exceeded', 30))
+      .mockResolvedValue({ success: true });
+    const job = sendQueue.enqueue('tenant-a', message);
+
+    await advance(1000);
+    expect(job).toMatchObject({ status: 'retrying', attempts: 0, lastError: 'Daily message quota exceeded' });
+
+    await advance(29 * 1000);
+    expect(whatsappService.sendMessage).toHaveBeenCalledTimes(1);
+
+    await advance(2000);
+    expect(job).toMatchObject({ status: 'sent', attempts: 1 });
+  });
+
+  describe('cancelJob', () => {
+    it('cancels jobs that were not sent yet', () => {
+      const job = sendQueue.enqueue('tenant-a', message, { sendAt: new Date(Date.now() + 60 * 1000) });
+
+      expect(sendQueue.cancelJob('tenant-a', job.id)).toMatchObject({ success: true, job: { status: 'cancelled' } });
+      expect(sendQueue.cancelJob('tenant-a', job.id)).toMatchObject({
+        success: false,
+        error: 'Job cannot be cancelled in status cancelled'
+      });
+    });
+
+    it('does not cancel sent jobs or jobs of another tenant', async () => {
+      const job = sendQueue.enqueue('tenant-a', message);
+      await advance(1000);
+
+      expect(sendQueue.cancelJob('tenant-a', job.id)).toMatchObject({
+        success: false,
+        error: 'Job cannot be cancelled in status sent'
+      });
+      expect(sendQueue.cancelJob('tenant-b', job.id)).toEqual({ success: false, error: 'Job not found' });
+    });
+
+    it('skips jobs cancelled before their turn', async () => {
+      const job = sendQueue.enqueue('tenant-a', message);
+      sendQueue.cancelJob('tenant-a', job.id);
+
+      await advance(1000);
+
+      expect(whatsappService.sendMessage).not.toHaveBeenCalled();
+    });
+  });
+
+  it('restores queued jobs and does not resend jobs interrupted while sending', async () => {
+    await sendQueue.shutdown();
+    const now = new Date().toISOString();
+    const storedJob = (id: string, status: SendJob['status']): SendJob => ({
+      id,
+      tenantId: 'tenant-a',
+      messageData: message,
+      status,
+      attempts: 1,
+      maxAttempts: 5,
+      nextAttemptAt: now,
+      createdAt: now,
+      updatedAt: now
+    });
+    fs.writeFileSync(storePath, JSON.stringify([storedJob('interrupted', 'sending'), storedJob('waiting', 'retrying')]));
+
+    sendQueue = createQueue();
+    await advance(1000);
+
+    expect(sendQueue.getJob('tenant-a', 'interrupted')).toMatchObject({
+      status: 'failed',
+      lastError: 'Interrupted while sending (delivery unknown)'
+    });
+    expect(sendQueue.getJob('tenant-a', 'waiting')?.status).toBe('sent');
+    expect(whatsappService.sendMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it('clears the worker and cleanup timers on shutdown', async () => {
+    await sendQueue.shutdown();
+    sendQueue = createQueue();
+
+    expect(jest.getTimerCount()).toBe(2);
+
+    await sendQueue.shutdown();
+
+    expect(jest.getTimerCount()).toBe(0);
+  });
+});
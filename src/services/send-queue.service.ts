@@ -0,0 +1,313 @@
+import { Logger } from 'pino';
+import { randomUUID } from 'crypto';
+import { config } from '../config/config';
+import { JsonFileStore } from '../utils/json-file-store';
+import { WhatsAppService, MessageData } from './whatsapp.service';
+import { TooManyRequestsError } from '../middleware/error.middleware';
+
+export type SendJobStatus = 'scheduled' | 'pending' | 'sending' | 'retrying' | 'sent' | 'failed' | 'cancelled';
+
+export interface SendJob {
+  id: string;
+  tenantId: string;
+  messageData: MessageData;
+  status: SendJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  sendAt?: string;
+  nextAttemptAt: string;
+  lastError?: string;
+  messageId?: string | string[];
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
+// Erros de socket/conexão que valem nova tentativa
+const TRANSIENT_ERROR_PATTERNS = [
+  /not connected/i,
+  /connection (closed|lost|failure|terminated)/i,
+  /timed? ?out/i,
+  /socket hang up/i,
+  /stream errored/i,
+  /ECONNRESET|ETIMEDOUT|EPIPE/
+];
+
+const INTERRUPTED_SEND_ERROR = 'Interrupted while sending (delivery unknown)';
+
+const ACTIVE_STATUSES: SendJobStatus[] = ['scheduled', 'pending', 'sending', 'retrying'];
+
+/**
+ * OUTBOUND QUEUE: fila persistente de envio por tenant
+ * Segura mensagens enquanto a sessão está em 'connecting' ou 'qr',
+ * re-tenta erros transitórios com backoff e suporta envio agendado (sendAt)
+ */
+export class SendQueueService {
+  private logger: Logger;
+  private jobs: Map<string, SendJob> = new Map();
+  private activeTenants: Set<string> = new Set(); // Tenants com envio em andamento
+  private store: JsonFileStore<SendJob[]>;
+  private workerInterval: NodeJS.Timeout | null = null;
+  private cleanupInterval: NodeJS.Timeout | null = null;
+
+  constructor(logger: Logger, private whatsappService: WhatsAppService) {
+    this.logger = logger.child({ service: 'SendQueueService' });
+    this.store = new JsonFileStore<SendJob[]>('send-queue.json');
+
+    this.restoreJobs();
+    this.startWorker();
+    this.startCleanup();
+
+    console.log(`✅ [SendQueue] Initialized (jobs: ${this.jobs.size}, maxAttempts: ${config.SEND_QUEUE_MAX_ATTEMPTS})`);
+  }
+
+  private restoreJobs(): void {
+    for (const job of this.store.read([])) {
+      // Job interrompido no meio do envio pode já ter chegado ao destinatário - não reenviar
+      if (job.status === 'sending') {
+        job.status = 'failed';
+        job.lastError = INTERRUPTED_SEND_ERROR;
+        job.updatedAt = new Date().toISOString();
+        job.completedAt = job.updatedAt;
+      }
+      this.jobs.set(job.id, job);
+    }
+  }
+
+  private persist(): void {
+    this.store.scheduleWrite(() => Array.from(this.jobs.values()));
+  }
+
+  private startWorker(): void {
+    this.workerInterval = setInterval(() => {
+      this.processDueJobs().catch((error) => {
+        console.log('❌ [SendQueue] Worker tick failed', {
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      });
+    }, 1000);
+  }
+
+  private startCleanup(): void {
+    // Remover jobs finalizados após o período de retenção
+    this.cleanupInterval = setInterval(() => {
+      const cutoff = Date.now() - config.SEND_QUEUE_RETENTION_HOURS * 60 * 60 * 1000;
+      let removed = 0;
+
+      for (const [jobId, job] of this.jobs.entries()) {
+        if (!ACTIVE_STATUSES.includes(job.status) && new Date(job.updatedAt).getTime() < cutoff) {
+          this.jobs.delete(jobId);
+          removed++;
+        }
+      }
+
+      if (removed > 0) {
+        console.log('🧹 [SendQueue] Removed finished jobs', { removed, remaining: this.jobs.size });
+        this.persist();
+      }
+    }, 30 * 60 * 1000);
+  }
+
+  enqueue(tenantId: string, messageData: MessageData, options: { sendAt?: Date } = {}): SendJob {
+    const now = new Date();
+    const sendAt = options.sendAt && options.sendAt > now ? options.sendAt : undefined;
+
+    const job: SendJob = {
+      id: randomUUID(),
+      tenantId,
+      messageData,
+      status: sendAt ? 'scheduled' : 'pending',
+      attempts: 0,
+      maxAttempts: config.SEND_QUEUE_MAX_ATTEMPTS,
+      sendAt: sendAt?.toISOString(),
+      nextAttemptAt: (sendAt || now).toISOString(),
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString()
+    };
+
+    this.jobs.set(job.id, job);
+    this.persist();
+
+    console.log('📥 [SendQueue] Job enqueued', {
+      tenantId: tenantId.substring(0, 8) + '***',
+      jobId: job.id,
+      to: messageData.to.substring(0, 6) + '***',
+      scheduled: !!sendAt
+    });
+
+    return job;
+  }
+
+  getJob(tenantId: string, jobId: string): SendJob | null {
+    const job = this.jobs.get(jobId);
+    return job && job.tenantId === tenantId ? job : null;
+  }
+
+  listJobs(tenantId: string, status?: SendJobStatus): SendJob[] {
+    return Array.from(this.jobs.values())
+      .filter(job => job.tenantId === tenantId && (!status || job.status === status))
+      .sort((a, b) => new Date(a.nextAttemptAt).getTime() - new Date(b.nextAttemptAt).getTime());
+  }
+
+  /**
+   * Cancelar job que ainda não foi enviado
+   */
+  cancelJob(tenantId: string, jobId: string): { success: boolean; job?: SendJob; error?: string } {
+    const job = this.getJob(tenantId, jobId);
+    if (!job) {
+      return { success: false, error: 'Job not found' };
+    }
+
+    if (!['scheduled', 'pending', 'retrying'].includes(job.status)) {
+      return { success: false, job, error: `Job cannot be cancelled in status ${job.status}` };
+    }
+
+    job.status = 'cancelled';
+    job.updatedAt = new Date().toISOString();
+    job.completedAt = job.updatedAt;
+    this.persist();
+
+    return { success: true, job };
+  }
+
+  private async processDueJobs(): Promise<void> {
+    const now = Date.now();
+    const dueByTenant = new Map<string, SendJob[]>();
+
+    for (const job of this.jobs.values()) {
+      if (!['scheduled', 'pending', 'retrying'].includes(job.status)) continue;
+      if (new Date(job.nextAttemptAt).getTime() > now) continue;
+      if (this.activeTenants.has(job.tenantId)) continue;
+
+      const list = dueByTenant.get(job.tenantId) || [];
+      list.push(job);
+      dueByTenant.set(job.tenantId, list);
+    }
+
+    for (const [tenantId, dueJobs] of dueByTenant.entries()) {
+      const status = this.whatsappService.getSession(tenantId)?.status;
+
+      // Segurar mensagens enquanto a sessão está (re)conectando ou aguardando QR/código de pareamento
+      if (status === 'connecting' || status === 'qr' || status === 'pairing_code') {
+        continue;
+      }
+
+      dueJobs.sort((a, b) => new Date(a.nextAttemptAt).getTime() - new Date(b.nextAttemptAt).getTime());
+      this.activeTenants.add(tenantId);
+
+      // Tenants em paralelo, jobs do mesmo tenant em sequência
+      this.processTenantJobs(dueJobs).finally(() => {
+        this.activeTenants.delete(tenantId);
+      });
+    }
+  }
+
+  private async processTenantJobs(dueJobs: SendJob[]): Promise<void> {
+    for (const job of dueJobs) {
+      if (job.status === 'cancelled') continue;
+
+      const status = this.whatsappService.getSession(job.tenantId)?.status;
+      if (status === 'connecting' || status === 'qr' || status === 'pairing_code') {
+        return;
+      }
+
+      await this.processJob(job);
+    }
+  }
+
+  private async processJob(job: SendJob): Promise<void> {
+    job.status = 'sending';
+    job.attempts++;
+    job.updatedAt = new Date().toISOString();
+
+    // Gravar 'sending' antes do envio: após um restart o job não é enviado de novo
+    try {
+      await this.store.flush(() => Array.from(this.jobs.values()));
+    } catch (error) {
+      console.log('⚠️ [SendQueue] Failed to persist job before sending', {
+        jobId: job.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+
+    let result: { success: boolean; messageId?: string | string[]; error?: string };
+    try {
+      result = await this.whatsappService.sendMessage(job.tenantId, job.messageData);
+    } catch (error) {
+      // Cota de envio esgotada: aguardar a virada do período sem gastar tentativa
+      if (error instanceof TooManyRequestsError) {
+        job.attempts--;
+        job.status = 'retrying';
+        job.lastError = error.message;
+        job.updatedAt = new Date().toISOString();
+        job.nextAttemptAt = new Date(Date.now() + (error.retryAfter || 60) * 1000).toISOString();
+        this.persist();
+
+        console.log('⏳ [SendQueue] Quota exceeded, job postponed', {
+          tenantId: job.tenantId.substring(0, 8) + '***',
+          jobId: job.id,
+          nextAttemptAt: job.nextAttemptAt
+        });
+        return;
+      }
+      result = { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+
+    job.updatedAt = new Date().toISOString();
+
+    if (result.success) {
+      job.status = 'sent';
+      job.messageId = result.messageId;
+      job.lastError = undefined;
+      job.completedAt = job.updatedAt;
+
+      console.log('✅ [SendQueue] Job sent', {
+        tenantId: job.tenantId.substring(0, 8) + '***',
+        jobId: job.id,
+        attempts: job.attempts
+      });
+    } else if (this.isTransientError(result.error) && job.attempts < job.maxAttempts) {
+      const delay = Math.min(5000 * Math.pow(2, job.attempts - 1), 5 * 60 * 1000);
+      job.status = 'retrying';
+      job.lastError = result.error;
+      job.nextAttemptAt = new Date(Date.now() + delay).toISOString();
+
+      console.log('🔁 [SendQueue] Transient failure, retry scheduled', {
+        tenantId: job.tenantId.substring(0, 8) + '***',
+        jobId: job.id,
+        attempt: job.attempts,
+        delay,
+        error: result.error
+      });
+    } else {
+      job.status = 'failed';
+      job.lastError = result.error;
+      job.completedAt = job.updatedAt;
+
+      console.log('❌ [SendQueue] Job failed', {
+        tenantId: job.tenantId.substring(0, 8) + '***',
+        jobId: job.id,
+        attempts: job.attempts,
+        error: result.error
+      });
+    }
+
+    this.persist();
+  }
+
+  private isTransientError(error?: string): boolean {
+    return !!error && TRANSIENT_ERROR_PATTERNS.some(pattern => pattern.test(error));
+  }
+
+  async shutdown(): Promise<void> {
+    if (this.workerInterval) {
+      clearInterval(this.workerInterval);
+      this.workerInterval = null;
+    }
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+      this.cleanupInterval = null;
+    }
+    await this.store.flush(() => Array.from(this.jobs.values()));
+  }
+}
@@ -0,0 +1,154 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import pino from 'pino';
+import { config } from '../config/config';
+import { TenantManager } from './tenant.service';
+
+describe('TenantManager registry', () => {
+  it('does not write tenant JWTs to disk but accepts them after a restart', async () => {
+    const tenantManager = new TenantManager(pino({ level: 'silent' }));
+    await tenantManager.createTenant({ id: 'tenant-jwt', name: 'JWT Tenant', settings: { maxSessions: 1 }, status: 'active' });
+    const { jwtToken } = await tenantManager.createTenantAuth('tenant-jwt', { permissions: ['messages:read'] });
+    await tenantManager.shutdown();
+
+    const registry = fs.readFileSync(path.join(config.DATA_DIR, 'tenants.json'), 'utf8');
+    expect(registry).not.toContain(jwtToken);
+
+    const restarted = new TenantManager(pino({ level: 'silent' }));
+    await expect(restarted.validateTenantAuth('tenant-jwt', jwtToken!)).resolves.toMatchObject({
+      tenantId: 'tenant-jwt',
+      jwtIssued: true
+    });
+    await restarted.shutdown();
+  });
+});
+
+describe('TenantManager API keys', () => {
+  let tenantManager: TenantManager;
+
+  beforeAll(async () => {
+    // Registro no formato antigo: API key em texto puro dentro de auth
+    fs.writeFileSync(path.join(config.DATA_DIR, 'tenants.json'), JSON.stringify({
+      tenants: [{
+        id: 'tenant-legacy',
+        name: 'Legacy Tenant',
+        settings: { maxSessions: 1 },
+        status: 'active',
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString()
+      }],
+      auth: [{ tenantId: 'tenant-legacy', permissions: ['messages:send'], apiKey: 'legacy-plain-text-key' }]
+    }));
+
+    tenantManager = new TenantManager(pino({ level: 'silent' }));
+    await tenantManager.createTenant({
+      id: 'tenant-keys',
+      name: 'Keys Tenant',
+      settings: { maxSessions: 1 },
+      status: 'active'
+    });
+  });
+
+  afterAll(async () => {
+    await tenantManager.shutdown();
+  });
+
+  it('returns the scoped key for a valid token', async () => {
+    const { key, apiKey } = await tenantManager.createApiKey('tenant-keys', {
+      name: 'reader',
+      permissions: ['messages:read']
+    });
+
+    expect(key).toMatch(/^wak_[0-9a-f]{12}_[A-Za-z0-9_-]{43}$/);
+    expect(apiKey.maskedKey).toBe(`wak_${apiKey.id}_****${key.slice(-4)}`);
+
+    const verified = tenantManager.verifyApiKey(key);
+    expect(verified).toMatchObject({ id: apiKey.id, tenantId: 'tenant-keys', permissions: ['messages:read'] });
+    expect(verified!.lastUsedAt).toBeInstanceOf(Date);
+  });
+
+  it('stores only the SHA-256 hash of the key', async () => {
+    const { key } = await tenantManager.createApiKey('tenant-keys', { name: 'hashed', permissions: ['*'] });
+    await tenantManager.shutdown();
+
+    const registry = fs.readFileSync(path.join(config.DATA_DIR, 'tenants.json'), 'utf8');
+    expect(registry).not.toContain(key);
+    expect(registry).not.toContain('legacy-plain-text-key');
+  });
+
+  it('rejects unknown tokens and tokens with a known id but wrong secret', async () => {
+    const { key, apiKey } = await tenantManager.createApiKey('tenant-keys', { name: 'guess', permissions: ['*'] });
+    const forged = `wak_${apiKey.id}_${'A'.repeat(43)}`;
+
+    expect(forged).not.toBe(key);
+    expect(tenantManager.verifyApiKey(forged)).toBeNull();
+    expect(tenantManager.verifyApiKey('wak_000000000000_' + 'B'.repeat(43))).toBeNull();
+    expect(tenantManager.verifyApiKey('not-a-key')).toBeNull();
+  });
+
+  it('rejects expired keys', async () => {
+    const { key, apiKey } = await tenantManager.createApiKey('tenant-keys', {
+      name: 'expired',
+      permissions: ['*'],
+      expiresAt: new Date(Date.now() - 1000)
+    });
+
+    expect(apiKey.status).toBe('expired');
+    expect(tenantManager.verifyApiKey(key)).toBeNull();
+  });
+
+  it('rejects revoked keys but keeps them listed', async () => {
+    const { key, apiKey } = await tenantManager.createApiKey('tenant-keys', { name: 'revoked', permissions: ['*'] });
+
+    await tenantManager.revokeApiKey('tenant-keys', apiKey.id);
+
+    expect(tenantManager.verifyApiKey(key)).toBeNull();
+    expect(tenantManager.getApiKey('tenant-keys', apiKey.id)?.status).toBe('revoked');
+  });
+
+  it('invalidates the previous value on rotation', async () => {
+    const { key: oldKey, apiKey } = await tenantManager.createApiKey('tenant-keys', { name: 'rotated', permissions: ['messages:send'] });
+
+    const rotated = await tenantManager.rotateApiKey('tenant-keys', apiKey.id);
+
+    expect(tenantManager.verifyApiKey(oldKey)).toBeNull();
+    expect(tenantManager.verifyApiKey(rotated!.key)).toMatchObject({ id: apiKey.id, permissions: ['messages:send'] });
+  });
+
+  it('does not rotate keys of another tenant', async () => {
+    const { apiKey } = await tenantManager.createApiKey('tenant-keys', { name: 'owned', permissions: ['*'] });
+
+    await expect(tenantManager.rotateApiKey('tenant-legacy', apiKey.id)).resolves.toBeNull();
+    await expect(tenantManager.revokeApiKey('tenant-legacy', apiKey.id)).resolves.toBeNull();
+  });
+
+  describe('legacy keys', () => {
+    it('migrates plain-text keys to hashed legacy keys found by scan', () => {
+      const verified = tenantManager.verifyApiKey('legacy-plain-text-key');
+
+      expect(verified).toMatchObject({ tenantId: 'tenant-legacy', permissions: ['messages:send'], legacy: true });
+      expect(tenantManager.listApiKeys('tenant-legacy')[0].maskedKey).toBe('****-key');
+    });
+
+    it('matches keys passed to createTenantAuth', async () => {
+      await tenantManager.createTenantAuth('tenant-keys', { apiKey: 'custom-tenant-key-123', permissions: ['sessions:read'] });
+
+      expect(tenantManager.verifyApiKey('custom-tenant-key-123')).toMatchObject({
+        tenantId: 'tenant-keys',
+        permissions: ['sessions:read'],
+        legacy: true
+      });
+      expect(tenantManager.verifyApiKey('custom-tenant-key-124')).toBeNull();
+    });
+
+    it('leaves the legacy format on rotation', async () => {
+      const [legacy] = tenantManager.listApiKeys('tenant-legacy');
+
+      const rotated = await tenantManager.rotateApiKey('tenant-legacy', legacy.id);
+
+      expect(rotated!.key).toMatch(/^wak_/);
+      expect(rotated!.apiKey.legacy).toBeUndefined();
+      expect(tenantManager.verifyApiKey('legacy-plain-text-key')).toBeNull();
+    });
+  });
+});
@@ -3,6 +3,28 @@ import NodeCache from 'node-cache';
 import { config } from '../config/config';
 import jwt from 'jsonwebtoken';
 import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import { JsonFileStore } from '../utils/json-file-store';
+
+/**
+ * Política de consolidação (debounce) das mensagens recebidas de um mesmo cliente
+ */
+export interface MessageConsolidationPolicy {
+  enabled: boolean; // false = cada mensagem vai para o webhook imediatamente
+  windowMs: number; // Janela de silêncio - reinicia a cada nova mensagem
+  maxWaitMs: number; // Espera máxima desde a primeira mensagem da fila
+  maxMessages: number; // Ao atingir, a fila é enviada na hora
+  separator: string; // Separador usado para juntar textos e transcrições
+}
+
+export const DEFAULT_MESSAGE_CONSOLIDATION: MessageConsolidationPolicy = {
+  enabled: true,
+  windowMs: 12000,
+  maxWaitMs: 60000,
+  maxMessages: 20,
+  separator: ' '
+};
 
 export interface Tenant {
   id: string;
@@ -17,6 +39,14 @@ export interface Tenant {
       windowMs: number;
       max: number;
     };
+    quotas?: {
+      messagesPerMinute?: number; // 0 = sem limite
+      messagesPerDay?: number;
+      messagesPerMonth?: number;
+    };
+    messageConsolidation?: Partial<MessageConsolidationPolicy>;
+    autoReconnect?: boolean; // Reconectar a sessão automaticamente no boot (padrão: true)
+    groupMessages?: 'include' | 'ignore'; // Mensagens de grupos no webhook (padrão: include)
   };
   status: 'active' | 'suspended' | 'inactive';
   createdAt: Date;
@@ -26,19 +56,67 @@ export interface Tenant {
 
 export interface TenantAuth {
   tenantId: string;
-  apiKey?: string;
-  jwtToken?: string;
+  jwtToken?: string; // Só em memória, retornado na criação - nunca gravado em disco
+  jwtIssued?: boolean;
+  permissions: string[];
+  expiresAt?: Date;
+}
+
+/**
+ * API key de um tenant - apenas o hash SHA-256 é guardado
+ * O valor em texto só é retornado na criação e na rotação
+ */
+export interface TenantApiKey {
+  id: string;
+  tenantId: string;
+  name: string;
+  keyHash: string;
+  lastFour: string;
   permissions: string[];
+  createdAt: Date;
   expiresAt?: Date;
+  lastUsedAt?: Date;
+  rotatedAt?: Date;
+  revokedAt?: Date;
+  legacy?: boolean; // Key fora do formato wak_<id>_<segredo> (migrada ou informada em createTenantAuth)
+}
+
+export type TenantApiKeyStatus = 'active' | 'expired' | 'revoked';
+
+// Visão pública da key (sem hash)
+export interface TenantApiKeyInfo extends Omit<TenantApiKey, 'keyHash' | 'lastFour'> {
+  maskedKey: string;
+  status: TenantApiKeyStatus;
 }
 
-export class TenantManager {
+export type TenantStatus = Tenant['status'];
+
+// Registro de tenants gravado em disco (datas serializadas como ISO)
+interface PersistedTenantRegistry {
+  tenants: Tenant[];
+  auth: Array<TenantAuth & { apiKey?: string }>; // apiKey/jwtToken: formato antigo em texto puro, migrado no boot
+  apiKeys?: TenantApiKey[];
+}
+
+const API_KEY_PREFIX = 'wak';
+const API_KEY_FORMAT = /^wak_([a-f0-9]{12})_([A-Za-z0-9_-]{43})$/;
+// lastUsedAt é gravado em disco no máximo uma vez por minuto por key
+const API_KEY_USAGE_PERSIST_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Emite 'status_changed' (tenantId, status, previousStatus) e 'deleted' (tenantId)
+ * O server desconecta a sessão WhatsApp de tenants suspensos/removidos
+ */
+export class TenantManager extends EventEmitter {
   private cache: NodeCache;
   private logger: Logger;
   private tenants: Map<string, Tenant> = new Map();
   private tenantAuth: Map<string, TenantAuth> = new Map();
+  private apiKeys: Map<string, TenantApiKey> = new Map();
+  private registryStore = new JsonFileStore<PersistedTenantRegistry>('tenants.json');
 
   constructor(logger: Logger) {
+    super();
     this.logger = logger.child({ service: 'TenantManager' });
     this.cache = new NodeCache({ 
       stdTTL: config.CACHE_TTL * 2, // Cache tenants por mais tempo
@@ -46,8 +124,73 @@ export class TenantManager {
       useClones: false
     });
     
-    this.initializeDefaultTenants();
-    console.log('Tenant Manager initialized');
+    this.restoreRegistry();
+    if (!this.tenants.has('default')) {
+      this.initializeDefaultTenants();
+    }
+    console.log(`Tenant Manager initialized (tenants: ${this.tenants.size})`);
+  }
+
+  // Tenants e credenciais sobrevivem a restarts
+  private restoreRegistry(): void {
+    const registry = this.registryStore.read({ tenants: [], auth: [] });
+
+    for (const tenant of registry.tenants) {
+      this.tenants.set(tenant.id, {
+        ...tenant,
+        createdAt: new Date(tenant.createdAt),
+        updatedAt: new Date(tenant.updatedAt),
+        lastActivity: tenant.lastActivity ? new Date(tenant.lastActivity) : undefined
+      });
+    }
+
+    for (const key of registry.apiKeys || []) {
+      this.apiKeys.set(key.id, {
+        ...key,
+        createdAt: new Date(key.createdAt),
+        expiresAt: key.expiresAt ? new Date(key.expiresAt) : undefined,
+        lastUsedAt: key.lastUsedAt ? new Date(key.lastUsedAt) : undefined,
+        rotatedAt: key.rotatedAt ? new Date(key.rotatedAt) : undefined,
+        revokedAt: key.revokedAt ? new Date(key.revokedAt) : undefined
+      });
+    }
+
+    for (const { apiKey, jwtToken, ...auth } of registry.auth) {
+      this.tenantAuth.set(auth.tenantId, {
+        ...auth,
+        jwtIssued: auth.jwtIssued || !!jwtToken,
+        expiresAt: auth.expiresAt ? new Date(auth.expiresAt) : undefined
+      });
+
+      // Migrar a key em texto puro do formato antigo para hash
+      if (apiKey) {
+        this.storeApiKey(auth.tenantId, apiKey, { name: 'legacy', permissions: auth.permissions });
+      }
+      // Registro antigo com credenciais em texto puro: regravar sem elas
+      if (apiKey || jwtToken) {
+        this.persistRegistry();
+      }
+    }
+  }
+
+  private getRegistrySnapshot(): PersistedTenantRegistry {
+    return {
+      tenants: Array.from(this.tenants.values()),
+      // O JWT é verificado pela assinatura (validateTenantAuth) - basta gravar que foi emitido
+      auth: Array.from(this.tenantAuth.values()).map(({ jwtToken, ...auth }) => auth),
+      apiKeys: Array.from(this.apiKeys.values())
+    };
+  }
+
+  private persistRegistry(): void {
+    this.registryStore.scheduleWrite(() => this.getRegistrySnapshot());
+  }
+
+  /**
+   * Gravar alterações pendentes do registro (chamado no shutdown)
+   */
+  async shutdown(): Promise<void> {
+    await this.registryStore.flush(() => this.getRegistrySnapshot());
   }
 
   private initializeDefaultTenants(): void {
@@ -77,6 +220,7 @@ export class TenantManager {
     };
 
     this.tenantAuth.set('default', defaultAuth);
+    this.persistRegistry();
     
     console.log('Default tenant initialized', { tenantId: 'default' });
   }
@@ -100,6 +244,7 @@ export class TenantManager {
       // Salvar tenant
       this.tenants.set(tenant.id, tenant);
       this.cache.set(`tenant_${tenant.id}`, tenant);
+      this.persistRegistry();
 
       console.log('Tenant created successfully', { 
         tenantId: tenant.id, 
@@ -163,12 +308,17 @@ export class TenantManager {
       // Salvar atualizações
       this.tenants.set(tenantId, updatedTenant);
       this.cache.set(`tenant_${tenantId}`, updatedTenant);
+      this.persistRegistry();
 
       console.log('Tenant updated successfully', { 
         tenantId, 
         updates: Object.keys(updates) 
       });
 
+      if (updatedTenant.status !== existingTenant.status) {
+        this.emit('status_changed', tenantId, updatedTenant.status, existingTenant.status);
+      }
+
       return updatedTenant;
 
     } catch (error) {
@@ -190,10 +340,17 @@ export class TenantManager {
 
       this.tenants.delete(tenantId);
       this.tenantAuth.delete(tenantId);
+      for (const key of this.apiKeys.values()) {
+        if (key.tenantId === tenantId) {
+          this.apiKeys.delete(key.id);
+        }
+      }
       this.cache.del(`tenant_${tenantId}`);
       this.cache.del(`auth_${tenantId}`);
+      this.persistRegistry();
 
       console.log('Tenant deleted successfully', { tenantId });
+      this.emit('deleted', tenantId);
       return true;
 
     } catch (error) {
@@ -256,11 +413,13 @@ export class TenantManager {
       const auth: TenantAuth = {
         tenantId,
         permissions: options.permissions || ['read', 'write'],
-        apiKey: options.apiKey,
       };
 
-      // Gerar JWT token se necessário
-      if (!options.apiKey) {
+      // API key informada vira uma key com escopo (guardada só como hash)
+      if (options.apiKey) {
+        this.storeApiKey(tenantId, options.apiKey, { name: 'default', permissions: auth.permissions });
+      } else {
+        // Gerar JWT token
         const jwtPayload = {
           tenantId,
           permissions: auth.permissions,
@@ -288,16 +447,18 @@ export class TenantManager {
         }
 
         auth.jwtToken = jwt.sign(jwtPayload, config.JWT_SECRET, jwtOptions);
+        auth.jwtIssued = true;
       }
 
       // Salvar auth
       this.tenantAuth.set(tenantId, auth);
       this.cache.set(`auth_${tenantId}`, auth, options.expiresIn ? undefined : config.CACHE_TTL);
+      this.persistRegistry();
 
       console.log('Tenant auth created successfully', { 
         tenantId, 
-        hasApiKey: !!auth.apiKey,
-        hasJwtToken: !!auth.jwtToken,
+        hasApiKey: !!options.apiKey,
+        hasJwtToken: !!auth.jwtIssued,
         permissions: auth.permissions 
       });
 
@@ -320,15 +481,17 @@ export class TenantManager {
       if (auth.expiresAt && auth.expiresAt < new Date()) {
         console.log('Tenant auth expired', { tenantId });
         this.tenantAuth.delete(tenantId);
+        this.persistRegistry();
         return null;
       }
 
       // Validar token
-      if (auth.apiKey && auth.apiKey === token) {
+      const apiKey = this.verifyApiKey(token);
+      if (apiKey && apiKey.tenantId === tenantId) {
         return auth;
       }
 
-      if (auth.jwtToken) {
+      if (auth.jwtIssued) {
         try {
           const decoded = jwt.verify(token, config.JWT_SECRET) as any;
           if (decoded.tenantId === tenantId && decoded.type === 'tenant_access') {
@@ -347,7 +510,178 @@ export class TenantManager {
     }
   }
 
-  private checkPermissions(available: string[], required: string[]): boolean {
+  /**
+   * Emitir uma nova API key para o tenant
+   * Retorna a key em texto (única vez em que ela fica disponível) e a visão mascarada
+   */
+  async createApiKey(tenantId: string, options: {
+    name: string;
+    permissions: string[];
+    expiresAt?: Date;
+  }): Promise<{ key: string; apiKey: TenantApiKeyInfo }> {
+    const tenant = await this.getTenant(tenantId);
+    if (!tenant) {
+      throw new Error(`Tenant ${tenantId} not found`);
+    }
+
+    const id = crypto.randomBytes(6).toString('hex');
+    const key = this.generateApiKey(id);
+    const apiKey = this.storeApiKey(tenantId, key, options, id);
+    this.persistRegistry();
+
+    console.log('Tenant API key created', {
+      tenantId,
+      keyId: id,
+      name: options.name,
+      permissions: options.permissions
+    });
+
+    return { key, apiKey: this.toApiKeyInfo(apiKey) };
+  }
+
+  listApiKeys(tenantId: string): TenantApiKeyInfo[] {
+    return Array.from(this.apiKeys.values())
+      .filter(key => key.tenantId === tenantId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(key => this.toApiKeyInfo(key));
+  }
+
+  getApiKey(tenantId: string, keyId: string): TenantApiKeyInfo | null {
+    const key = this.apiKeys.get(keyId);
+    return key && key.tenantId === tenantId ? this.toApiKeyInfo(key) : null;
+  }
+
+  /**
+   * Gerar um novo segredo para a key (mesmo id, nome e escopo) - o valor anterior deixa de valer na hora
+   */
+  async rotateApiKey(tenantId: string, keyId: string, expiresAt?: Date): Promise<{ key: string; apiKey: TenantApiKeyInfo } | null> {
+    const existing = this.apiKeys.get(keyId);
+    if (!existing || existing.tenantId !== tenantId) {
+      return null;
+    }
+
+    if (existing.revokedAt) {
+      throw new Error(`API key ${keyId} is revoked`);
+    }
+
+    // Keys do formato antigo passam para o formato wak_<id>_<segredo>
+    const { legacy, ...current } = existing;
+    const key = this.generateApiKey(keyId);
+    const rotated: TenantApiKey = {
+      ...current,
+      keyHash: this.hashApiKey(key),
+      lastFour: key.slice(-4),
+      rotatedAt: new Date(),
+      ...(expiresAt && { expiresAt })
+    };
+
+    this.apiKeys.set(keyId, rotated);
+    this.persistRegistry();
+
+    console.log('Tenant API key rotated', { tenantId, keyId });
+
+    return { key, apiKey: this.toApiKeyInfo(rotated) };
+  }
+
+  /**
+   * Revogar a key - ela continua listada (status revoked) para auditoria
+   */
+  async revokeApiKey(tenantId: string, keyId: string): Promise<TenantApiKeyInfo | null> {
+    const key = this.apiKeys.get(keyId);
+    if (!key || key.tenantId !== tenantId) {
+      return null;
+    }
+
+    if (!key.revokedAt) {
+      key.revokedAt = new Date();
+      this.persistRegistry();
+      console.log('Tenant API key revoked', { tenantId, keyId });
+    }
+
+    return this.toApiKeyInfo(key);
+  }
+
+  /**
+   * Buscar a key ativa correspondente ao token (comparação de hash em tempo constante)
+   * Atualiza lastUsedAt; retorna null para key desconhecida, expirada ou revogada
+   */
+  verifyApiKey(token: string): TenantApiKey | null {
+    const tokenHash = Buffer.from(this.hashApiKey(token), 'hex');
+    const match = API_KEY_FORMAT.exec(token);
+
+    // Keys no formato wak_<id>_<segredo> são buscadas pelo id; keys migradas do formato antigo, por varredura
+    const candidates = match
+      ? [this.apiKeys.get(match[1])].filter(Boolean) as TenantApiKey[]
+      : Array.from(this.apiKeys.values()).filter(key => key.legacy);
+
+    const key = candidates.find(candidate =>
+      crypto.timingSafeEqual(Buffer.from(candidate.keyHash, 'hex'), tokenHash)
+    );
+
+    if (!key || this.getApiKeyStatus(key) !== 'active') {
+      return null;
+    }
+
+    const now = new Date();
+    const previousUse = key.lastUsedAt?.getTime() || 0;
+    key.lastUsedAt = now;
+    if (now.getTime() - previousUse >= API_KEY_USAGE_PERSIST_INTERVAL_MS) {
+      this.persistRegistry();
+    }
+
+    return key;
+  }
+
+  private generateApiKey(id: string): string {
+    return `${API_KEY_PREFIX}_${id}_${crypto.randomBytes(32).toString('base64url')}`;
+  }
+
+  // Keys têm 256 bits aleatórios: SHA-256 basta e evita o custo do bcrypt a cada requisição
+  private hashApiKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+  }
+
+  private storeApiKey(tenantId: string, key: string, options: {
+    name: string;
+    permissions: string[];
+    expiresAt?: Date;
+  }, id: string = crypto.randomBytes(6).toString('hex')): TenantApiKey {
+    const apiKey: TenantApiKey = {
+      id,
+      tenantId,
+      name: options.name,
+      keyHash: this.hashApiKey(key),
+      lastFour: key.slice(-4),
+      permissions: options.permissions,
+      createdAt: new Date(),
+      expiresAt: options.expiresAt,
+      ...(!API_KEY_FORMAT.test(key) && { legacy: true })
+    };
+
+    this.apiKeys.set(id, apiKey);
+    return apiKey;
+  }
+
+  private getApiKeyStatus(key: TenantApiKey): TenantApiKeyStatus {
+    if (key.revokedAt) {
+      return 'revoked';
+    }
+    if (key.expiresAt && key.expiresAt < new Date()) {
+      return 'expired';
+    }
+    return 'active';
+  }
+
+  private toApiKeyInfo(key: TenantApiKey): TenantApiKeyInfo {
+    const { keyHash, lastFour, ...info } = key;
+    return {
+      ...info,
+      maskedKey: key.legacy ? `****${lastFour}` : `${API_KEY_PREFIX}_${key.id}_****${lastFour}`,
+      status: this.getApiKeyStatus(key)
+    };
+  }
+
+  checkPermissions(available: string[], required: string[]): boolean {
     if (available.includes('*')) {
       return true; // Acesso total
     }
@@ -373,9 +707,30 @@ export class TenantManager {
       throw new Error('Max sessions must be at least 1');
     }
 
+    const rateLimit = tenant.settings.rateLimit;
+    if (rateLimit && (!(rateLimit.windowMs >= 1000) || !(rateLimit.max >= 1))) {
+      throw new Error('Rate limit requires windowMs >= 1000 and max >= 1');
+    }
+
+    const quotas = tenant.settings.quotas;
+    if (quotas && Object.values(quotas).some(value => value !== undefined && (!Number.isInteger(value) || value < 0))) {
+      throw new Error('Message quotas must be non-negative integers');
+    }
+
     if (tenant.settings.webhookUrl && !this.isValidUrl(tenant.settings.webhookUrl)) {
       throw new Error('Webhook URL must be a valid URL');
     }
+
+    const consolidation = tenant.settings.messageConsolidation;
+    if (consolidation) {
+      const policy = { ...DEFAULT_MESSAGE_CONSOLIDATION, ...consolidation };
+      if (policy.windowMs < 0 || policy.maxWaitMs < policy.windowMs) {
+        throw new Error('Message consolidation maxWaitMs must be greater than or equal to windowMs');
+      }
+      if (policy.maxMessages < 1) {
+        throw new Error('Message consolidation maxMessages must be at least 1');
+      }
+    }
   }
 
   private isValidUrl(string: string): boolean {
@@ -387,6 +742,41 @@ export class TenantManager {
     }
   }
 
+  /**
+   * Política de consolidação efetiva do tenant (padrões + overrides em settings)
+   */
+  async getMessageConsolidationPolicy(tenantId: string): Promise<MessageConsolidationPolicy> {
+    const tenant = this.tenants.get(tenantId);
+    return {
+      ...DEFAULT_MESSAGE_CONSOLIDATION,
+      ...(tenant?.settings.messageConsolidation || {})
+    };
+  }
+
+  async shouldAutoReconnect(tenantId: string): Promise<boolean> {
+    const tenant = this.tenants.get(tenantId);
+    if (tenant && tenant.status !== 'active') {
+      return false;
+    }
+    return tenant?.settings.autoReconnect !== false;
+  }
+
+  async shouldIncludeGroupMessages(tenantId: string): Promise<boolean> {
+    const tenant = this.tenants.get(tenantId);
+    return tenant?.settings.groupMessages !== 'ignore';
+  }
+
+  /**
+   * Ativar, suspender ou desativar o tenant (suspenso/inativo perde o acesso à API e a sessão é fechada)
+   */
+  async setTenantStatus(tenantId: string, status: TenantStatus): Promise<Tenant> {
+    return this.updateTenant(tenantId, { status });
+  }
+
+  getTenantAuth(tenantId: string): TenantAuth | undefined {
+    return this.tenantAuth.get(tenantId);
+  }
+
   getAllTenants(): Array<Omit<Tenant, 'settings'>> {
     return Array.from(this.tenants.values()).map(tenant => ({
       id: tenant.id,
@@ -416,6 +806,7 @@ export class TenantManager {
     }
 
     if (cleanedCount > 0) {
+      this.persistRegistry();
       console.log('Cleaned up expired auth tokens', { count: cleanedCount });
     }
   }
@@ -1,9 +1,11 @@
 import { Logger } from 'pino';
 import * as fs from 'fs';
 import * as path from 'path';
+import * as os from 'os';
 import FormData from 'form-data';
 import fetch from 'node-fetch';
 import { config } from '../config/config';
+import { runCommand, convertToWav16k } from '../utils/ffmpeg';
 
 export interface TranscriptionResult {
   success: boolean;
@@ -31,6 +33,17 @@ export class TranscriptionService {
       console.log('⚠️ [Transcription] OpenAI API key not configured');
     }
     
+    if (this.provider === 'local') {
+      // Para whisper.cpp o "modelo" é o arquivo ggml configurado
+      this.model = config.WHISPER_CPP_MODEL ? path.basename(config.WHISPER_CPP_MODEL) : 'not configured';
+      
+      if (!config.WHISPER_CPP_MODEL || !fs.existsSync(config.WHISPER_CPP_MODEL)) {
+        console.log('⚠️ [Transcription] WHISPER_CPP_MODEL not configured or not found', {
+          model: config.WHISPER_CPP_MODEL
+        });
+      }
+    }
+    
     console.log(`✅ [Transcription] Service initialized (provider: ${this.provider}, model: ${this.model}, language: ${this.language})`);
   }
 
@@ -157,13 +170,56 @@ export class TranscriptionService {
   }
 
   private async transcribeWithLocalWhisper(audioBuffer: Buffer, mimeType: string): Promise<TranscriptionResult> {
-    // Implementação para Whisper local
-    // Requer instalação do whisper.cpp ou whisper Python
-    
-    return {
-      success: false,
-      error: 'Local Whisper not implemented yet'
-    };
+    // whisper.cpp no próprio host: o áudio nunca sai da nossa infraestrutura
+    if (!config.WHISPER_CPP_MODEL) {
+      return {
+        success: false,
+        error: 'WHISPER_CPP_MODEL not configured'
+      };
+    }
+
+    const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'whisper-'));
+
+    try {
+      const inputPath = path.join(workDir, `input.${this.getFileExtension(mimeType)}`);
+      const wavPath = path.join(workDir, 'audio.wav');
+      const outputBase = path.join(workDir, 'transcript');
+
+      await fs.promises.writeFile(inputPath, audioBuffer);
+
+      // WhatsApp envia OGG/Opus; whisper.cpp exige WAV 16kHz mono
+      await convertToWav16k(inputPath, wavPath, config.WHISPER_CPP_TIMEOUT_MS);
+
+      await runCommand(config.WHISPER_CPP_BIN, [
+        '-m', config.WHISPER_CPP_MODEL,
+        '-f', wavPath,
+        '-l', this.language,
+        '-t', String(config.WHISPER_CPP_THREADS),
+        '-nt', // Sem timestamps no texto
+        '-np', // Sem logs de progresso
+        '-otxt',
+        '-of', outputBase
+      ], config.WHISPER_CPP_TIMEOUT_MS);
+
+      const text = (await fs.promises.readFile(`${outputBase}.txt`, 'utf8'))
+        .split('\n')
+        .map(line => line.trim())
+        .filter(Boolean)
+        .join(' ');
+
+      return {
+        success: true,
+        text,
+        language: this.language
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Local Whisper transcription failed'
+      };
+    } finally {
+      fs.promises.rm(workDir, { recursive: true, force: true }).catch(() => undefined);
+    }
   }
 
   private getFileExtension(mimeType: string): string {
@@ -178,13 +234,16 @@ export class TranscriptionService {
       'audio/aac': 'aac'
     };
     
-    return mimeToExt[mimeType] || 'ogg';
+    return mimeToExt[mimeType] || mimeToExt[mimeType.split(';')[0].trim()] || 'ogg';
   }
 
   isEnabled(): boolean {
     if (this.provider === 'openai') {
       return !!this.apiKey;
     }
+    if (this.provider === 'local') {
+      return !!config.WHISPER_CPP_MODEL;
+    }
     return true;
   }
 
@@ -1,11 +1,22 @@
 import { Logger } from 'pino';
 import axios, { AxiosResponse } from 'axios';
 import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import { JsonFileStore } from '../utils/json-file-store';
+import { signWebhookPayload } from '../utils/webhook-signature';
+
+export interface WebhookSecret {
+  id: string;
+  secret: string;
+  expiresAt: string;
+}
 
 export interface WebhookConfig {
   id?: string;
   url: string;
   secret?: string;
+  secretId?: string; // Enviado em X-Webhook-Key-Id para o consumidor saber qual secret está em uso
+  previousSecrets?: WebhookSecret[]; // Secrets antigos ainda válidos durante a rotação
   events: string[];
   active: boolean;
   retryCount?: number;
@@ -23,8 +34,43 @@ export interface IncomingMessage {
   timestamp: number;
   type?: string;
   mediaUrl?: string;
+  mediaExpiresAt?: string;
+  mediaSize?: number;
+  mediaError?: string;
+  mimetype?: string;
+  fileName?: string;
   caption?: string;
+  location?: {
+    latitude: number;
+    longitude: number;
+    name?: string;
+    address?: string;
+    live: boolean;
+  };
+  contacts?: { name: string; vcard: string }[];
+  // Mensagens consolidadas pelo debounce: ids e textos originais
+  messageIds?: string[];
+  originalMessages?: {
+    id: string;
+    type: string;
+    text: string;
+    timestamp: number;
+    messageReplied?: string;
+  }[];
   messageReplied?: string;
+  // Mensagens de grupo: from é o JID do grupo e participant quem enviou
+  isGroup?: boolean;
+  participant?: string;
+  participantName?: string;
+  // Escolha em botões, listas ou enquetes (type button_reply, list_reply ou poll_vote)
+  reply?: {
+    kind: 'button' | 'list' | 'poll';
+    id?: string;
+    title?: string;
+    description?: string;
+    selectedOptions?: string[];
+    messageId?: string;
+  };
 }
 
 export interface StatusChange {
@@ -35,6 +81,53 @@ export interface StatusChange {
   timestamp: number;
 }
 
+export interface MessageStatusUpdate {
+  tenantId: string;
+  messageId: string;
+  to: string;
+  status: 'pending' | 'server_ack' | 'delivered' | 'read' | 'failed';
+  previousStatus?: string;
+  timestamp: number;
+}
+
+// Eventos que podem ser assinados por cada webhook
+export const WEBHOOK_EVENTS = ['message', 'status', 'message_status'] as const;
+
+export type DeadLetterStatus = 'retrying' | 'exhausted';
+
+/**
+ * Entrega de webhook que falhou após as tentativas imediatas
+ */
+export interface WebhookDeadLetter {
+  id: string;
+  tenantId: string;
+  webhookId: string;
+  url: string;
+  event: string;
+  payload: any;
+  status: DeadLetterStatus;
+  attempts: number;
+  lastError: string;
+  lastStatusCode?: number;
+  nextAttemptAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Tentativas imediatas dentro de sendWebhook (backoff curto)
+const INLINE_RETRIES = 2;
+
+// Agenda de novas tentativas do outbox após a falha inicial
+const DEAD_LETTER_RETRY_SCHEDULE_MS = [
+  60 * 1000,
+  5 * 60 * 1000,
+  15 * 60 * 1000,
+  60 * 60 * 1000,
+  6 * 60 * 60 * 1000
+];
+
+const DEAD_LETTER_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
 export interface WebhookStats {
   totalCalls: number;
   successfulCalls: number;
@@ -44,18 +137,55 @@ export interface WebhookStats {
   uptime: number;
 }
 
-export class WebhookService {
-  private webhooks: Map<string, WebhookConfig> = new Map(); // 🔴 MUDANÇA: Um webhook por tenant
+/**
+ * Emite 'event' (tenantId, payload) para todo payload gerado, mesmo sem webhooks cadastrados
+ * (o gateway WebSocket entrega os mesmos eventos aos consumidores conectados)
+ */
+export class WebhookService extends EventEmitter {
+  private webhooks: Map<string, WebhookConfig[]> = new Map(); // Vários webhooks por tenant, cada um com seus eventos
   private stats: Map<string, WebhookStats> = new Map();
   private sentMessages: Map<string, number> = new Map(); // 🔴 NOVO: Cache de mensagens enviadas
+  private deadLetters: Map<string, WebhookDeadLetter> = new Map();
+  private webhookStore = new JsonFileStore<Record<string, WebhookConfig[]>>('webhooks.json');
+  private deadLetterStore = new JsonFileStore<WebhookDeadLetter[]>('webhook-dead-letters.json');
+  private outboxInterval: NodeJS.Timeout | null = null;
+  private outboxRunning = false;
+  private redeliveriesInFlight: Set<string> = new Set(); // Evita worker e replay manual na mesma entrega
   private logger = console; // Será injetado pelo construtor
 
   constructor(logger?: Logger) {
+    super();
     if (logger) {
       this.logger = console; // Simplified for compilation
     }
+    this.restoreState();
     this.startStatsCleanup();
     this.startMessageCacheCleanup(); // 🔴 NOVO: Limpeza do cache de mensagens
+    this.startOutboxWorker();
+  }
+
+  // Webhooks e dead letters sobrevivem a restarts (ids estáveis para o replay)
+  private restoreState(): void {
+    for (const [tenantId, webhooks] of Object.entries(this.webhookStore.read({}))) {
+      this.webhooks.set(tenantId, webhooks.map(webhook => ({
+        ...webhook,
+        lastUsed: webhook.lastUsed ? new Date(webhook.lastUsed) : undefined
+      })));
+    }
+
+    for (const deadLetter of this.deadLetterStore.read([])) {
+      this.deadLetters.set(deadLetter.id, deadLetter);
+    }
+
+    console.log(`✅ [Webhook] State restored (tenants: ${this.webhooks.size}, deadLetters: ${this.deadLetters.size})`);
+  }
+
+  private persistWebhooks(): void {
+    this.webhookStore.scheduleWrite(() => Object.fromEntries(this.webhooks.entries()));
+  }
+
+  private persistDeadLetters(): void {
+    this.deadLetterStore.scheduleWrite(() => Array.from(this.deadLetters.values()));
   }
 
   private startStatsCleanup(): void {
@@ -95,41 +225,44 @@ export class WebhookService {
     }, 2 * 60 * 1000); // Verificar a cada 2 minutos
   }
 
-  // 🔴 NOVO: Verificar se mensagem já foi enviada
-  private isMessageAlreadySent(tenantId: string, messageId: string): boolean {
-    const messageKey = `${tenantId}_${messageId}`;
+  // 🔴 NOVO: Verificar se mensagem já foi enviada (por webhook)
+  private isMessageAlreadySent(tenantId: string, webhookId: string, messageId: string): boolean {
+    const messageKey = `${tenantId}_${webhookId}_${messageId}`;
     return this.sentMessages.has(messageKey);
   }
 
-  // 🔴 NOVO: Marcar mensagem como enviada
-  private markMessageAsSent(tenantId: string, messageId: string): void {
-    const messageKey = `${tenantId}_${messageId}`;
+  // 🔴 NOVO: Marcar mensagem como enviada (por webhook)
+  private markMessageAsSent(tenantId: string, webhookId: string, messageId: string): void {
+    const messageKey = `${tenantId}_${webhookId}_${messageId}`;
     this.sentMessages.set(messageKey, Date.now());
   }
 
-  // 🔴 MODIFICADO: Registrar apenas um webhook por tenant
+  /**
+   * Webhooks ativos do tenant que assinam o evento
+   */
+  private getSubscribedWebhooks(tenantId: string, event: string): WebhookConfig[] {
+    return (this.webhooks.get(tenantId) || []).filter(webhook => webhook.active && webhook.events.includes(event));
+  }
+
+  // Registrar webhook - a mesma URL no mesmo tenant atualiza o webhook existente
   async registerWebhook(tenantId: string, config: Omit<WebhookConfig, 'id'>): Promise<string> {
-    // Verificar se já existe webhook para este tenant
-    const existingWebhook = this.webhooks.get(tenantId);
+    const tenantWebhooks = this.webhooks.get(tenantId) || [];
+    const existingWebhook = tenantWebhooks.find(webhook => webhook.url === config.url);
+
     if (existingWebhook) {
-      // Atualizar webhook existente ao invés de criar novo
-      const updatedWebhook: WebhookConfig = {
-        ...existingWebhook,
-        ...config,
-        successCount: existingWebhook.successCount || 0,
-        errorCount: existingWebhook.errorCount || 0
-      };
-      
-      this.webhooks.set(tenantId, updatedWebhook);
-      
-      this.logger.info?.('Webhook updated (only one per tenant allowed)', {
+      if (config.secret !== existingWebhook.secret) {
+        config = { ...config, secretId: config.secret ? crypto.randomUUID() : undefined, previousSecrets: [] };
+      }
+      Object.assign(existingWebhook, config);
+      this.persistWebhooks();
+
+      this.logger.info?.('Webhook updated (same URL already registered)', {
         tenantId,
         webhookId: existingWebhook.id,
-        oldUrl: existingWebhook.url,
-        newUrl: config.url,
+        url: config.url,
         events: config.events
       });
-      
+
       return existingWebhook.id!;
     }
 
@@ -138,66 +271,215 @@ export class WebhookService {
     const webhook: WebhookConfig = {
       ...config,
       id: webhookId,
+      secretId: config.secret ? crypto.randomUUID() : undefined,
       successCount: 0,
       errorCount: 0,
       retryCount: 0
     };
 
-    this.webhooks.set(tenantId, webhook);
+    tenantWebhooks.push(webhook);
+    this.webhooks.set(tenantId, tenantWebhooks);
+    this.persistWebhooks();
 
     this.logger.info?.('Webhook registered successfully', {
       tenantId,
       webhookId,
       url: config.url,
-      events: config.events
+      events: config.events,
+      totalWebhooks: tenantWebhooks.length
     });
 
     return webhookId;
   }
 
-  // 🔴 MODIFICADO: Retornar o webhook único do tenant
   async getWebhooks(tenantId: string): Promise<WebhookConfig[]> {
-    const webhook = this.webhooks.get(tenantId);
-    return webhook ? [webhook] : [];
+    return this.webhooks.get(tenantId) || [];
+  }
+
+  async getWebhook(tenantId: string, webhookId: string): Promise<WebhookConfig | null> {
+    return (this.webhooks.get(tenantId) || []).find(webhook => webhook.id === webhookId) || null;
+  }
+
+  // Atualizar URL, secret, eventos ou flag active de um webhook
+  async updateWebhook(
+    tenantId: string,
+    webhookId: string,
+    changes: Partial<Pick<WebhookConfig, 'url' | 'secret' | 'events' | 'active'>>
+  ): Promise<WebhookConfig | null> {
+    const webhook = await this.getWebhook(tenantId, webhookId);
+    if (!webhook) {
+      return null;
+    }
+
+    // Troca direta de secret (sem período de convivência - para isso use rotateWebhookSecret)
+    if (changes.secret !== undefined && changes.secret !== webhook.secret) {
+      webhook.secretId = changes.secret ? crypto.randomUUID() : undefined;
+      webhook.previousSecrets = [];
+    }
+
+    Object.assign(webhook, changes);
+    this.persistWebhooks();
+
+    this.logger.info?.('Webhook updated', {
+      tenantId,
+      webhookId,
+      changes: Object.keys(changes)
+    });
+
+    return webhook;
   }
 
-  // 🔴 MODIFICADO: Remover webhook do tenant
+  /**
+   * Rotacionar secret sem downtime: o secret atual continua assinando até o fim do período de convivência
+   */
+  async rotateWebhookSecret(
+    tenantId: string,
+    webhookId: string,
+    options: { secret?: string; gracePeriodSeconds?: number } = {}
+  ): Promise<{ webhook: WebhookConfig; secret: string; secretId: string } | null> {
+    const webhook = await this.getWebhook(tenantId, webhookId);
+    if (!webhook) {
+      return null;
+    }
+
+    const now = Date.now();
+    const gracePeriodMs = (options.gracePeriodSeconds ?? 24 * 60 * 60) * 1000;
+    const previousSecrets = this.getActivePreviousSecrets(webhook, now);
+
+    if (webhook.secret && gracePeriodMs > 0) {
+      previousSecrets.unshift({
+        id: webhook.secretId || crypto.randomUUID(),
+        secret: webhook.secret,
+        expiresAt: new Date(now + gracePeriodMs).toISOString()
+      });
+    }
+
+    const secret = options.secret || crypto.randomBytes(32).toString('hex');
+    const secretId = crypto.randomUUID();
+
+    webhook.secret = secret;
+    webhook.secretId = secretId;
+    webhook.previousSecrets = previousSecrets;
+    this.persistWebhooks();
+
+    this.logger.info?.('Webhook secret rotated', {
+      tenantId,
+      webhookId,
+      secretId,
+      activeSecrets: previousSecrets.length + 1
+    });
+
+    return { webhook, secret, secretId };
+  }
+
+  private getActivePreviousSecrets(webhook: WebhookConfig, now: number = Date.now()): WebhookSecret[] {
+    return (webhook.previousSecrets || []).filter(previous => new Date(previous.expiresAt).getTime() > now);
+  }
+
+  /**
+   * Headers da entrega, com assinatura sobre o corpo exato enviado
+   */
+  private buildHeaders(webhook: WebhookConfig, body: string, event: string, tenantId: string): Record<string, string> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': 'WhatsApp-Microservice/1.0.0',
+      'X-Webhook-Event': event,
+      'X-Tenant-ID': tenantId
+    };
+
+    // Assinatura versionada (t=...,v1=...) com todos os secrets ativos
+    if (webhook.secret) {
+      const timestamp = Math.floor(Date.now() / 1000);
+      const secrets = [webhook.secret, ...this.getActivePreviousSecrets(webhook).map(previous => previous.secret)];
+
+      headers['X-Webhook-Signature'] = signWebhookPayload(body, secrets, timestamp);
+      headers['X-Webhook-Timestamp'] = String(timestamp);
+      if (webhook.secretId) {
+        headers['X-Webhook-Key-Id'] = webhook.secretId;
+      }
+    }
+
+    return headers;
+  }
+
+  // Remover um webhook (ou todos do tenant quando webhookId não é informado)
   async removeWebhook(tenantId: string, webhookId?: string): Promise<boolean> {
-    const webhook = this.webhooks.get(tenantId);
-    
-    if (!webhook || (webhookId && webhook.id !== webhookId)) {
+    const tenantWebhooks = this.webhooks.get(tenantId) || [];
+    const remaining = webhookId ? tenantWebhooks.filter(webhook => webhook.id !== webhookId) : [];
+
+    if (remaining.length === tenantWebhooks.length) {
       return false;
     }
 
-    this.webhooks.delete(tenantId);
+    if (remaining.length > 0) {
+      this.webhooks.set(tenantId, remaining);
+    } else {
+      this.webhooks.delete(tenantId);
+    }
+    this.persistWebhooks();
 
     this.logger.info?.('Webhook removed successfully', {
       tenantId,
-      webhookId: webhook.id
+      webhookId: webhookId || 'all',
+      removed: tenantWebhooks.length - remaining.length
     });
 
     return true;
   }
 
-  // 🔴 MODIFICADO: Verificar duplicatas antes de processar
+  // 🔴 MODIFICADO: Verificar duplicatas antes de processar (por webhook)
   async processIncomingMessage(message: IncomingMessage): Promise<void> {
-    // Verificar se mensagem já foi enviada
-    if (this.isMessageAlreadySent(message.tenantId, message.messageId)) {
-      this.logger.info?.('Message already sent, skipping to prevent duplicate', {
-        tenantId: message.tenantId.substring(0, 8) + '***',
-        messageId: message.messageId.substring(0, 8) + '***',
-        from: message.from.substring(0, 6) + '***'
+    const webhookPayload = this.buildMessagePayload(message);
+    this.emit('event', message.tenantId, webhookPayload);
+
+    const webhooks = this.getSubscribedWebhooks(message.tenantId, 'message')
+      .filter(webhook => {
+        if (!this.isMessageAlreadySent(message.tenantId, webhook.id!, message.messageId)) {
+          return true;
+        }
+
+        this.logger.info?.('Message already sent, skipping to prevent duplicate', {
+          tenantId: message.tenantId.substring(0, 8) + '***',
+          webhookId: webhook.id,
+          messageId: message.messageId.substring(0, 8) + '***',
+          from: message.from.substring(0, 6) + '***'
+        });
+        return false;
       });
-      return;
-    }
 
-    const webhook = this.webhooks.get(message.tenantId);
-    
-    if (!webhook || !webhook.active || !webhook.events.includes('message')) {
+    if (webhooks.length === 0) {
       return;
     }
 
-    const webhookPayload = {
+    await Promise.all(webhooks.map(async (webhook) => {
+      // Marcar mensagem como sendo enviada ANTES do envio
+      this.markMessageAsSent(message.tenantId, webhook.id!, message.messageId);
+
+      try {
+        await this.sendWebhook(webhook, webhookPayload, message.tenantId);
+
+        this.logger.info?.('Message webhook sent successfully', {
+          tenantId: message.tenantId.substring(0, 8) + '***',
+          webhookId: webhook.id,
+          messageId: message.messageId.substring(0, 8) + '***',
+          webhookUrl: webhook.url.substring(0, 30) + '***'
+        });
+      } catch (error: any) {
+        this.logger.error?.('Failed to send message webhook', {
+          tenantId: message.tenantId.substring(0, 8) + '***',
+          webhookId: webhook.id,
+          messageId: message.messageId.substring(0, 8) + '***',
+          error: error.message
+        });
+
+        // Mantém a marcação de enviada: o outbox é quem re-tenta a entrega
+        this.addDeadLetter(webhook, webhookPayload, message.tenantId, error);
+      }
+    }));
+  }
+
+  private buildMessagePayload(message: IncomingMessage) {
+    return {
       event: 'message',
       timestamp: message.timestamp,
       tenantId: message.tenantId,
@@ -209,41 +491,30 @@ export class WebhookService {
         type: message.type || 'text',
         mediaUrl: message.mediaUrl,
         caption: message.caption,
-        ...(message.messageReplied && { messageReplied: message.messageReplied })
+        // Campos específicos de mídia, localização e contato
+        ...(message.mediaUrl && {
+          mediaExpiresAt: message.mediaExpiresAt,
+          mediaSize: message.mediaSize
+        }),
+        ...(message.mimetype && { mimetype: message.mimetype }),
+        ...(message.fileName && { fileName: message.fileName }),
+        ...(message.mediaError && { mediaError: message.mediaError }),
+        ...(message.location && { location: message.location }),
+        ...(message.contacts && { contacts: message.contacts }),
+        ...(message.messageIds && { messageIds: message.messageIds }),
+        ...(message.originalMessages && { originalMessages: message.originalMessages }),
+        ...(message.messageReplied && { messageReplied: message.messageReplied }),
+        ...(message.reply && { reply: message.reply }),
+        ...(message.isGroup && {
+          isGroup: true,
+          participant: message.participant,
+          participantName: message.participantName
+        })
       }
     };
-
-    // Marcar mensagem como sendo enviada ANTES do envio
-    this.markMessageAsSent(message.tenantId, message.messageId);
-
-    try {
-      await this.sendWebhook(webhook, webhookPayload, message.tenantId);
-      
-      this.logger.info?.('Message webhook sent successfully', {
-        tenantId: message.tenantId.substring(0, 8) + '***',
-        messageId: message.messageId.substring(0, 8) + '***',
-        webhookUrl: webhook.url.substring(0, 30) + '***'
-      });
-    } catch (error: any) {
-      this.logger.error?.('Failed to send message webhook', {
-        tenantId: message.tenantId.substring(0, 8) + '***',
-        messageId: message.messageId.substring(0, 8) + '***',
-        error: error.message
-      });
-      
-      // Em caso de erro, remover da cache para permitir retry posterior
-      const messageKey = `${message.tenantId}_${message.messageId}`;
-      this.sentMessages.delete(messageKey);
-    }
   }
 
   async processStatusChange(statusChange: StatusChange): Promise<void> {
-    const webhook = this.webhooks.get(statusChange.tenantId);
-    
-    if (!webhook || !webhook.active || !webhook.events.includes('status')) {
-      return;
-    }
-
     const webhookPayload = {
       event: 'status_change',
       timestamp: statusChange.timestamp,
@@ -255,7 +526,48 @@ export class WebhookService {
       }
     };
 
-    await this.sendWebhook(webhook, webhookPayload, statusChange.tenantId);
+    this.emit('event', statusChange.tenantId, webhookPayload);
+    await this.broadcast(statusChange.tenantId, 'status', webhookPayload);
+  }
+
+  async processMessageStatus(statusUpdate: MessageStatusUpdate): Promise<void> {
+    const webhookPayload = {
+      event: 'message_status',
+      timestamp: statusUpdate.timestamp,
+      tenantId: statusUpdate.tenantId,
+      data: {
+        messageId: statusUpdate.messageId,
+        to: statusUpdate.to,
+        status: statusUpdate.status,
+        previousStatus: statusUpdate.previousStatus
+      }
+    };
+
+    this.emit('event', statusUpdate.tenantId, webhookPayload);
+    await this.broadcast(statusUpdate.tenantId, 'message_status', webhookPayload);
+  }
+
+  /**
+   * Enviar o payload para todos os webhooks que assinam o evento
+   * Uma falha em um webhook não impede a entrega aos demais
+   */
+  private async broadcast(tenantId: string, event: string, payload: any): Promise<void> {
+    const webhooks = this.getSubscribedWebhooks(tenantId, event);
+    if (webhooks.length === 0) {
+      return;
+    }
+
+    const results = await Promise.allSettled(
+      webhooks.map(webhook => this.sendWebhook(webhook, payload, tenantId).catch((error) => {
+        this.addDeadLetter(webhook, payload, tenantId, error);
+        throw error;
+      }))
+    );
+
+    const failed = results.filter(result => result.status === 'rejected') as PromiseRejectedResult[];
+    if (failed.length === webhooks.length) {
+      throw failed[0].reason;
+    }
   }
 
   private async sendWebhook(
@@ -267,20 +579,11 @@ export class WebhookService {
     const startTime = Date.now();
     
     try {
-      const headers: Record<string, string> = {
-        'Content-Type': 'application/json',
-        'User-Agent': 'WhatsApp-Microservice/1.0.0',
-        'X-Webhook-Event': payload.event,
-        'X-Tenant-ID': tenantId
-      };
+      // Timestamp assinado é gerado a cada tentativa (replays do outbox incluídos)
+      const body = JSON.stringify(payload);
+      const headers = this.buildHeaders(webhook, body, payload.event, tenantId);
 
-      // Adicionar assinatura HMAC se secret estiver configurado
-      if (webhook.secret) {
-        const signature = this.generateSignature(JSON.stringify(payload), webhook.secret);
-        headers['X-Webhook-Signature'] = signature;
-      }
-
-      const response: AxiosResponse = await axios.post(webhook.url, payload, {
+      const response: AxiosResponse = await axios.post(webhook.url, body, {
         headers,
         timeout: 8000, // 8 segundos
         maxRedirects: 2,
@@ -310,8 +613,8 @@ export class WebhookService {
         webhook.errorCount++;
       }
 
-      // Retry logic - máximo 2 tentativas
-      if (retryCount < 2 && this.shouldRetry(error)) {
+      // Retry logic - máximo 2 tentativas imediatas (depois disso o outbox assume)
+      if (retryCount < INLINE_RETRIES && this.shouldRetry(error)) {
         const retryDelay = Math.min(1000 * Math.pow(2, retryCount), 5000); // Backoff exponencial, max 5s
         
         this.logger.warn?.('Webhook failed, retrying...', {
@@ -337,6 +640,198 @@ export class WebhookService {
     }
   }
 
+  // ==================== OUTBOX / DEAD LETTERS ====================
+
+  private addDeadLetter(webhook: WebhookConfig, payload: any, tenantId: string, error: any): void {
+    const now = new Date();
+    const deadLetter: WebhookDeadLetter = {
+      id: crypto.randomUUID(),
+      tenantId,
+      webhookId: webhook.id!,
+      url: webhook.url,
+      event: payload.event,
+      payload,
+      status: 'retrying',
+      attempts: INLINE_RETRIES + 1,
+      lastError: error?.message || 'Unknown error',
+      lastStatusCode: error?.response?.status,
+      nextAttemptAt: new Date(now.getTime() + DEAD_LETTER_RETRY_SCHEDULE_MS[0]).toISOString(),
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString()
+    };
+
+    this.deadLetters.set(deadLetter.id, deadLetter);
+    this.persistDeadLetters();
+
+    console.log('📮 [Webhook] Delivery moved to outbox', {
+      tenantId: tenantId.substring(0, 8) + '***',
+      webhookId: webhook.id,
+      deadLetterId: deadLetter.id,
+      event: deadLetter.event,
+      error: deadLetter.lastError
+    });
+  }
+
+  private startOutboxWorker(): void {
+    this.outboxInterval = setInterval(() => {
+      if (this.outboxRunning) {
+        return;
+      }
+
+      this.outboxRunning = true;
+      this.processOutbox()
+        .catch((error) => {
+          console.log('❌ [Webhook] Outbox tick failed', {
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+        })
+        .finally(() => {
+          this.outboxRunning = false;
+        });
+    }, 30 * 1000);
+  }
+
+  private async processOutbox(): Promise<void> {
+    const now = Date.now();
+
+    for (const deadLetter of Array.from(this.deadLetters.values())) {
+      if (deadLetter.status === 'retrying' && deadLetter.nextAttemptAt && new Date(deadLetter.nextAttemptAt).getTime() <= now) {
+        await this.attemptRedelivery(deadLetter);
+      } else if (deadLetter.status === 'exhausted' && new Date(deadLetter.updatedAt).getTime() < now - DEAD_LETTER_RETENTION_MS) {
+        this.deadLetters.delete(deadLetter.id);
+        this.persistDeadLetters();
+      }
+    }
+  }
+
+  /**
+   * Nova tentativa única de entrega - remove do outbox em caso de sucesso
+   */
+  private async attemptRedelivery(deadLetter: WebhookDeadLetter): Promise<boolean> {
+    if (this.redeliveriesInFlight.has(deadLetter.id)) {
+      return false;
+    }
+
+    this.redeliveriesInFlight.add(deadLetter.id);
+    try {
+      return await this.redeliver(deadLetter);
+    } finally {
+      this.redeliveriesInFlight.delete(deadLetter.id);
+    }
+  }
+
+  private async redeliver(deadLetter: WebhookDeadLetter): Promise<boolean> {
+    const webhook = await this.getWebhook(deadLetter.tenantId, deadLetter.webhookId);
+    deadLetter.attempts++;
+    deadLetter.updatedAt = new Date().toISOString();
+
+    if (!webhook) {
+      // Webhook removido: não há para onde entregar
+      deadLetter.status = 'exhausted';
+      deadLetter.nextAttemptAt = undefined;
+      deadLetter.lastError = 'Webhook no longer registered';
+      this.persistDeadLetters();
+      return false;
+    }
+
+    try {
+      // Tentativa única: o agendamento longo substitui o retry imediato
+      await this.sendWebhook(webhook, deadLetter.payload, deadLetter.tenantId, INLINE_RETRIES);
+
+      this.deadLetters.delete(deadLetter.id);
+      this.persistDeadLetters();
+
+      console.log('✅ [Webhook] Outbox delivery succeeded', {
+        tenantId: deadLetter.tenantId.substring(0, 8) + '***',
+        deadLetterId: deadLetter.id,
+        attempts: deadLetter.attempts
+      });
+      return true;
+    } catch (error: any) {
+      const retryIndex = deadLetter.attempts - (INLINE_RETRIES + 1);
+      const nextDelay = DEAD_LETTER_RETRY_SCHEDULE_MS[retryIndex];
+
+      deadLetter.lastError = error?.message || 'Unknown error';
+      deadLetter.lastStatusCode = error?.response?.status;
+      deadLetter.status = nextDelay !== undefined ? 'retrying' : 'exhausted';
+      deadLetter.nextAttemptAt = nextDelay !== undefined ? new Date(Date.now() + nextDelay).toISOString() : undefined;
+      this.persistDeadLetters();
+
+      console.log('⚠️ [Webhook] Outbox delivery failed', {
+        tenantId: deadLetter.tenantId.substring(0, 8) + '***',
+        deadLetterId: deadLetter.id,
+        attempts: deadLetter.attempts,
+        status: deadLetter.status,
+        error: deadLetter.lastError
+      });
+      return false;
+    }
+  }
+
+  async listDeadLetters(tenantId: string, status?: DeadLetterStatus): Promise<WebhookDeadLetter[]> {
+    return Array.from(this.deadLetters.values())
+      .filter(deadLetter => deadLetter.tenantId === tenantId && (!status || deadLetter.status === status))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async getDeadLetter(tenantId: string, deadLetterId: string): Promise<WebhookDeadLetter | null> {
+    const deadLetter = this.deadLetters.get(deadLetterId);
+    return deadLetter && deadLetter.tenantId === tenantId ? deadLetter : null;
+  }
+
+  /**
+   * Reenviar agora - replay de dead letters específicas ou de todas do tenant
+   */
+  async replayDeadLetters(tenantId: string, deadLetterIds?: string[]): Promise<{
+    delivered: string[];
+    failed: { id: string; error: string }[];
+  }> {
+    const targets = deadLetterIds
+      ? deadLetterIds.map(id => this.deadLetters.get(id)).filter((d): d is WebhookDeadLetter => !!d && d.tenantId === tenantId)
+      : await this.listDeadLetters(tenantId);
+
+    const delivered: string[] = [];
+    const failed: { id: string; error: string }[] = [];
+
+    for (const deadLetter of targets) {
+      if (await this.attemptRedelivery(deadLetter)) {
+        delivered.push(deadLetter.id);
+      } else {
+        failed.push({ id: deadLetter.id, error: deadLetter.lastError });
+      }
+    }
+
+    return { delivered, failed };
+  }
+
+  async purgeDeadLetters(tenantId: string, options: { deadLetterId?: string; status?: DeadLetterStatus } = {}): Promise<number> {
+    let removed = 0;
+
+    for (const deadLetter of Array.from(this.deadLetters.values())) {
+      if (deadLetter.tenantId !== tenantId) continue;
+      if (options.deadLetterId && deadLetter.id !== options.deadLetterId) continue;
+      if (options.status && deadLetter.status !== options.status) continue;
+
+      this.deadLetters.delete(deadLetter.id);
+      removed++;
+    }
+
+    if (removed > 0) {
+      this.persistDeadLetters();
+    }
+
+    return removed;
+  }
+
+  async shutdown(): Promise<void> {
+    if (this.outboxInterval) {
+      clearInterval(this.outboxInterval);
+      this.outboxInterval = null;
+    }
+    await this.webhookStore.flush(() => Object.fromEntries(this.webhooks.entries()));
+    await this.deadLetterStore.flush(() => Array.from(this.deadLetters.values()));
+  }
+
   private shouldRetry(error: any): boolean {
     // Retry em casos de timeout, conexão ou erro 5xx
     return (
@@ -347,13 +842,6 @@ export class WebhookService {
     );
   }
 
-  private generateSignature(payload: string, secret: string): string {
-    return crypto
-      .createHmac('sha256', secret)
-      .update(payload, 'utf8')
-      .digest('hex');
-  }
-
   private updateWebhookStats(tenantId: string, success: boolean, responseTime: number): void {
     let stats = this.stats.get(tenantId);
     
@@ -390,18 +878,21 @@ export class WebhookService {
     return this.stats.get(tenantId) || null;
   }
 
-  async testWebhook(tenantId: string): Promise<{
+  async testWebhook(tenantId: string, webhookId?: string): Promise<{
     success: boolean;
     responseTime: number;
     status?: number;
     error?: string;
   }> {
-    const webhook = this.webhooks.get(tenantId);
+    const webhook = webhookId
+      ? await this.getWebhook(tenantId, webhookId)
+      : (this.webhooks.get(tenantId) || [])[0];
+
     if (!webhook) {
       return {
         success: false,
         responseTime: 0,
-        error: 'No webhook configured for tenant'
+        error: webhookId ? 'Webhook not found' : 'No webhook configured for tenant'
       };
     }
 
@@ -409,6 +900,7 @@ export class WebhookService {
       event: 'test',
       timestamp: Date.now(),
       tenantId,
+      webhookId: webhook.id,
       data: {
         message: 'Test webhook connection',
         test: true
@@ -418,19 +910,10 @@ export class WebhookService {
     const startTime = Date.now();
 
     try {
-      const headers: Record<string, string> = {
-        'Content-Type': 'application/json',
-        'User-Agent': 'WhatsApp-Microservice/1.0.0',
-        'X-Webhook-Event': 'test',
-        'X-Tenant-ID': tenantId
-      };
-
-      if (webhook.secret) {
-        const signature = this.generateSignature(JSON.stringify(testPayload), webhook.secret);
-        headers['X-Webhook-Signature'] = signature;
-      }
+      const body = JSON.stringify(testPayload);
+      const headers = this.buildHeaders(webhook, body, 'test', tenantId);
 
-      const response = await axios.post(webhook.url, testPayload, {
+      const response = await axios.post(webhook.url, body, {
         headers,
         timeout: 5000,
         validateStatus: (status) => status < 500
@@ -473,6 +956,7 @@ export class WebhookService {
     totalWebhooks: number;
     cacheSize: number;
     oldestCacheEntry: string | null;
+    deadLetters: number;
   }> {
     const now = Date.now();
     let oldestTimestamp = now;
@@ -485,10 +969,11 @@ export class WebhookService {
 
     return {
       totalTenants: this.webhooks.size,
-      totalWebhooks: this.webhooks.size, // Sempre igual agora (1 webhook por tenant)
+      totalWebhooks: Array.from(this.webhooks.values()).reduce((total, webhooks) => total + webhooks.length, 0),
       cacheSize: this.sentMessages.size,
       oldestCacheEntry: oldestTimestamp < now ? 
-        `${Math.round((now - oldestTimestamp) / 1000)}s ago` : null
+        `${Math.round((now - oldestTimestamp) / 1000)}s ago` : null,
+      deadLetters: this.deadLetters.size
     };
   }
 }
\ No newline at end of file
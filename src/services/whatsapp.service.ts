@@ -1,28 +1,48 @@
 import makeWASocket, { 
   DisconnectReason, 
-  useMultiFileAuthState, 
   WASocket, 
   proto,
   WAMessageContent,
   WAMessageKey,
+  WAMessageUpdate,
+  MessageUserReceiptUpdate,
   fetchLatestBaileysVersion,
-  makeCacheableSignalKeyStore
+  makeCacheableSignalKeyStore,
+  downloadMediaMessage,
+  BufferJSON,
+  toNumber,
+  isJidGroup,
+  GroupMetadata,
+  getAggregateVotesInPollMessage
 } from '@whiskeysockets/baileys';
 import { Boom } from '@hapi/boom';
 import QRCode from 'qrcode';
 import * as fs from 'fs';
 import * as path from 'path';
+import * as os from 'os';
 import { EventEmitter } from 'events';
 import { Logger } from 'pino';
 import { config } from '../config/config';
 import NodeCache from 'node-cache';
 import { PersistentQRService } from './persistent-qr.service';
 import { TranscriptionService } from './transcription.service';
+import { MessageStoreService, MessageHistoryQuery, MessageHistoryPage, MessageDeliveryStatus, StoredMessage } from './message-store.service';
+import { MediaStorageService } from './media-storage.service';
+import { TenantManager, MessageConsolidationPolicy, DEFAULT_MESSAGE_CONSOLIDATION } from './tenant.service';
+import { QuotaService } from './quota.service';
+import { TooManyRequestsError } from '../middleware/error.middleware';
+import { randomUUID } from 'crypto';
+import { withConcurrencyLimit } from '../utils/async-handler';
+import { JsonFileStore } from '../utils/json-file-store';
+import { convertToOggOpus, analyzeAudio, AudioAnalysis } from '../utils/ffmpeg';
+import { AuthStateStore, createAuthStateStore, useStoredAuthState, hasRegisteredCreds } from './auth-state.service';
 
 export interface WhatsAppSession {
   socket: WASocket | null;
-  status: 'disconnected' | 'connecting' | 'qr' | 'connected';
+  status: 'disconnected' | 'connecting' | 'qr' | 'pairing_code' | 'connected';
   qrCode: string | null;
+  pairingCode: string | null; // Código de 8 caracteres (login por número, sem QR)
+  pairingPhoneNumber: string | null; // Definido quando a sessão foi iniciada por código de pareamento
   phoneNumber: string | null;
   businessName: string | null;
   lastActivity: Date;
@@ -30,39 +50,204 @@ export interface WhatsAppSession {
   sessionId: string;
 }
 
+export type SessionEventType =
+  | 'session_created'
+  | 'connecting'
+  | 'qr'
+  | 'pairing_code'
+  | 'connected'
+  | 'reconnecting'
+  | 'disconnected';
+
+/**
+ * Evento do ciclo de vida da sessão (stream SSE em /sessions/:tenantId/events)
+ */
+export interface SessionEvent {
+  type: SessionEventType;
+  tenantId: string;
+  status: WhatsAppSession['status'];
+  timestamp: string;
+  data?: Record<string, any>;
+}
+
+export interface SessionRestoreResult {
+  tenantId: string;
+  status: 'restored' | 'failed' | 'skipped';
+  reason?: string;
+  durationMs?: number;
+}
+
+export interface SessionRestoreSummary {
+  startedAt: string;
+  finishedAt: string | null; // null enquanto a restauração está em andamento
+  total: number;
+  restored: SessionRestoreResult[];
+  failed: SessionRestoreResult[];
+  skipped: SessionRestoreResult[];
+}
+
+export interface PollContent {
+  options: string[];
+  selectableCount?: number; // 1 = escolha única, 0 = qualquer quantidade
+}
+
+export interface ReplyButton {
+  id: string;
+  text: string;
+}
+
+export interface ListContent {
+  buttonText: string; // Texto do botão que abre a lista
+  title?: string;
+  sections: {
+    title: string;
+    rows: { id: string; title: string; description?: string }[];
+  }[];
+}
+
+/**
+ * Escolha do cliente em uma mensagem interativa (botão, item de lista ou voto em enquete)
+ */
+export interface InteractiveReply {
+  kind: 'button' | 'list' | 'poll';
+  id?: string; // buttonId / rowId informado no envio
+  title?: string; // Texto exibido do botão/item (ou pergunta da enquete)
+  description?: string;
+  selectedOptions?: string[]; // Enquete: opções marcadas (vazio = voto removido)
+  messageId?: string; // Mensagem interativa original
+}
+
 export interface MessageData {
   to: string;
-  message: string;
-  type?: 'text' | 'image' | 'video' | 'document' | 'media';
+  message: string; // Texto, legenda ou corpo/pergunta das mensagens interativas
+  type?: 'text' | 'image' | 'video' | 'document' | 'audio' | 'media' | 'poll' | 'list' | 'buttons';
   mediaUrl?: string;
   mediaUrls?: string[]; // Para múltiplas mídias
   mediaType?: 'image' | 'video' | 'document'; // Tipo das mídias quando type="media"
   mediaCount?: number; // Quantidade de mídias
   caption?: string;
   fileName?: string;
+  ptt?: boolean; // Áudio como mensagem de voz (convertido para OGG/Opus)
+  mentions?: string[]; // Telefones/JIDs mencionados - o texto precisa conter @<número> para aparecer destacado
+  poll?: PollContent;
+  buttons?: ReplyButton[];
+  list?: ListContent;
+  footer?: string; // Rodapé de botões e listas
+}
+
+export interface GroupParticipant {
+  jid: string;
+  phoneNumber: string;
+  admin: 'admin' | 'superadmin' | null;
+}
+
+export interface GroupInfo {
+  id: string;
+  subject: string;
+  description?: string;
+  owner?: string;
+  createdAt?: string;
+  size: number;
+  announce: boolean; // Apenas admins podem enviar mensagens
+  restrict: boolean; // Apenas admins podem editar os dados do grupo
+  participants: GroupParticipant[];
+  admins: string[];
+}
+
+export interface NumberCheckResult {
+  phoneNumber: string;
+  isOnWhatsApp: boolean;
+  jid?: string;
+  businessAccount: boolean;
+  businessProfile?: {
+    description?: string;
+    category?: string;
+    email?: string;
+    website?: string[];
+    address?: string;
+  };
+  cached: boolean;
+}
+
+export type InboundMediaKind = 'image' | 'video' | 'document' | 'sticker' | 'location' | 'contact';
+
+// Conteúdo normalizado de mensagens de mídia recebidas
+interface InboundMediaContent {
+  kind: InboundMediaKind;
+  downloadable: boolean;
+  mimetype?: string;
+  caption?: string;
+  fileName?: string;
+  fileLength?: number;
+  fileSha256?: string;
+  location?: {
+    latitude: number;
+    longitude: number;
+    name?: string;
+    address?: string;
+    live: boolean;
+  };
+  contacts?: { name: string; vcard: string }[];
 }
 
 interface MessageQueue {
+  tenantId: string;
+  clientPhone: string;
+  participant?: string; // Autor das mensagens quando clientPhone é um grupo (fila por participante)
   messages: proto.IWebMessageInfo[];
   repliedMessages: (string | undefined)[]; // Armazenar messageReplied para cada mensagem
   timeout: NodeJS.Timeout | null;
+  firstMessageAt: number; // Base para o limite maxWaitMs
+  dueAt: number; // Quando a fila deve ser enviada (restaurado após restart)
+  separator: string;
 }
 
+// Estado do debounce gravado em disco - o timer é recriado a partir de dueAt
+type PersistedMessageQueue = Omit<MessageQueue, 'timeout'>;
+
+interface PersistedQueueState {
+  processedMessages: string[];
+  queues: PersistedMessageQueue[];
+}
+
+// Enquete enviada - a mensagem original (com messageSecret) é necessária para descriptografar os votos
+interface StoredPoll {
+  tenantId: string;
+  key: WAMessageKey;
+  message: proto.IMessage;
+  createdAt: number;
+}
+
+const POLL_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
 export class WhatsAppService extends EventEmitter {
   private sessions: Map<string, WhatsAppSession> = new Map();
   private cache: NodeCache;
   private logger: Logger;
   private sessionDir: string;
+  private authStateStore: AuthStateStore;
   private reconnectTimers: Map<string, NodeJS.Timeout> = new Map();
   private persistentQRService: PersistentQRService;
   private transcriptionService: TranscriptionService;
+  private messageStore: MessageStoreService;
+  private mediaStorage: MediaStorageService;
   private processedMessages: Set<string> = new Set(); // Cache de mensagens processadas
   private messageQueues: Map<string, MessageQueue> = new Map(); // Filas de mensagens por cliente
-
-  constructor(logger: Logger) {
+  private processingQueues: Set<MessageQueue> = new Set(); // Retiradas do mapa, mas ainda não entregues
+  private queueStore = new JsonFileStore<PersistedQueueState>('message-queues.json');
+  private queuePersistenceStopped = false;
+  private polls: Map<string, StoredPoll> = new Map();
+  private pollStore = new JsonFileStore<StoredPoll[]>('polls.json');
+  private restoreSummary: SessionRestoreSummary | null = null;
+  private sessionEventListeners: Map<string, Set<(event: SessionEvent) => void>> = new Map();
+  private pairingCodeSockets: WeakSet<WASocket> = new WeakSet(); // Um código por socket (o QR do Baileys é renovado a cada ~20s)
+  private startingSessions: Map<string, number> = new Map(); // startSession em andamento por tenant
+
+  constructor(logger: Logger, private tenantManager?: TenantManager, private quotaService?: QuotaService) {
     super();
     this.logger = (logger as any).child({ service: 'WhatsAppService' });
     this.sessionDir = config.WHATSAPP_SESSION_DIR;
+    this.authStateStore = createAuthStateStore();
     this.cache = new NodeCache({ 
       stdTTL: config.CACHE_TTL,
       checkperiod: 60,
@@ -75,11 +260,21 @@ export class WhatsAppService extends EventEmitter {
     // Initialize transcription service
     this.transcriptionService = new TranscriptionService(this.logger);
     
-    this.ensureSessionDirectory();
+    // Histórico persistente de mensagens (arquivo ou DATABASE_URL)
+    this.messageStore = new MessageStoreService(this.logger);
+    
+    // Armazenamento das mídias recebidas (local ou DO Spaces)
+    this.mediaStorage = new MediaStorageService(this.logger);
+    
+    if (this.authStateStore.name === 'filesystem') {
+      this.ensureSessionDirectory();
+    }
+    this.restoreMessageQueues();
+    this.restorePolls();
     this.startCleanupInterval();
     this.startMessageCleanup();
     
-    console.log(`WhatsApp Service initialized (sessionDir: ${this.sessionDir}, cacheTTL: ${config.CACHE_TTL})`);
+    console.log(`WhatsApp Service initialized (authStateStore: ${this.authStateStore.name}, sessionDir: ${this.sessionDir}, cacheTTL: ${config.CACHE_TTL})`);
   }
 
   private ensureSessionDirectory(): void {
@@ -127,11 +322,156 @@ export class WhatsAppService extends EventEmitter {
         this.processedMessages.clear();
         messages.slice(-1500).forEach(msgId => this.processedMessages.add(msgId));
         console.log(`Processed messages cache cleaned (new size: ${this.processedMessages.size})`);
+        this.persistMessageQueues();
       }
     }, 15 * 60 * 1000); // AUMENTADO: 15 minutos
   }
 
-  async startSession(tenantId: string): Promise<{
+  /**
+   * Restaurar filas de debounce e cache anti-duplicação gravados antes do restart
+   * Filas cujo prazo já passou são enviadas assim que o event loop libera
+   * (depois que o server registrou os listeners de 'message')
+   */
+  private restoreMessageQueues(): void {
+    const state = this.queueStore.read({ processedMessages: [], queues: [] }, BufferJSON.reviver);
+
+    state.processedMessages.forEach(key => this.processedMessages.add(key));
+
+    const now = Date.now();
+    let overdue = 0;
+
+    for (const persisted of state.queues) {
+      if (!persisted.messages?.length) continue;
+
+      const queueKey = this.getQueueKey(persisted.tenantId, persisted.clientPhone, persisted.participant);
+      const queue: MessageQueue = {
+        ...persisted,
+        // Long serializado como { low, high } - voltar para número
+        messages: persisted.messages.map(message => ({
+          ...message,
+          messageTimestamp: toNumber(message.messageTimestamp as any)
+        })),
+        timeout: null
+      };
+
+      // Mesmo cliente com duas filas salvas (uma em processamento): juntar na ordem
+      const existing = this.messageQueues.get(queueKey);
+      if (existing) {
+        existing.messages.push(...queue.messages);
+        existing.repliedMessages.push(...queue.repliedMessages);
+        existing.dueAt = Math.min(existing.dueAt, queue.dueAt);
+        continue;
+      }
+
+      this.messageQueues.set(queueKey, queue);
+      if (queue.dueAt <= now) overdue++;
+    }
+
+    for (const [queueKey, queue] of this.messageQueues.entries()) {
+      queue.timeout = setTimeout(async () => {
+        await this.processMessageQueue(queue.tenantId, queue.clientPhone, queueKey);
+      }, Math.max(0, queue.dueAt - now));
+    }
+
+    if (this.messageQueues.size > 0 || this.processedMessages.size > 0) {
+      console.log(`✅ [Queue] Pending queues restored (queues: ${this.messageQueues.size}, overdue: ${overdue}, processedMessages: ${this.processedMessages.size})`);
+    }
+  }
+
+  private persistMessageQueues(): void {
+    if (this.queuePersistenceStopped) {
+      return;
+    }
+    this.queueStore.scheduleWrite(() => this.getPersistedQueueState(), 200, BufferJSON.replacer);
+  }
+
+  private restorePolls(): void {
+    const cutoff = Date.now() - POLL_RETENTION_MS;
+
+    for (const poll of this.pollStore.read([], BufferJSON.reviver)) {
+      if (poll.createdAt >= cutoff) {
+        this.polls.set(`${poll.tenantId}_${poll.key.id}`, poll);
+      }
+    }
+  }
+
+  private storePoll(tenantId: string, sentMessage: proto.IWebMessageInfo): void {
+    if (!sentMessage.key.id || !sentMessage.message) {
+      return;
+    }
+
+    const cutoff = Date.now() - POLL_RETENTION_MS;
+    for (const [pollKey, poll] of this.polls.entries()) {
+      if (poll.createdAt < cutoff) this.polls.delete(pollKey);
+    }
+
+    this.polls.set(`${tenantId}_${sentMessage.key.id}`, {
+      tenantId,
+      key: sentMessage.key,
+      message: sentMessage.message,
+      createdAt: Date.now()
+    });
+
+    if (!this.queuePersistenceStopped) {
+      this.pollStore.scheduleWrite(() => Array.from(this.polls.values()), 200, BufferJSON.replacer);
+    }
+  }
+
+  private getPersistedQueueState(): PersistedQueueState {
+    const queues = [...this.processingQueues, ...this.messageQueues.values()];
+
+    return {
+      processedMessages: Array.from(this.processedMessages),
+      queues: queues.map(({ timeout, ...queue }) => queue)
+    };
+  }
+
+  /**
+   * Gravar filas pendentes e parar os timers (chamado no shutdown, antes de desconectar as sessões)
+   */
+  async shutdown(): Promise<void> {
+    for (const queue of this.messageQueues.values()) {
+      if (queue.timeout) {
+        clearTimeout(queue.timeout);
+        queue.timeout = null;
+      }
+    }
+
+    await this.queueStore.flush(() => this.getPersistedQueueState(), BufferJSON.replacer);
+    await this.pollStore.flush(() => Array.from(this.polls.values()), BufferJSON.replacer);
+    this.queuePersistenceStopped = true;
+
+    console.log(`💾 [Queue] Pending queues persisted (queues: ${this.messageQueues.size + this.processingQueues.size})`);
+  }
+
+  async startSession(tenantId: string, options: { phoneNumber?: string } = {}): Promise<{
+    success: boolean;
+    sessionId: string;
+    qrCode?: string;
+    pairingCode?: string;
+    message: string;
+  }> {
+    // Inícios simultâneos do mesmo tenant abririam sockets em paralelo - limitados por settings.maxSessions
+    const starting = (this.startingSessions.get(tenantId) || 0) + 1;
+    this.startingSessions.set(tenantId, starting);
+
+    try {
+      await this.quotaService?.assertSessionLimit(tenantId, starting);
+
+      return options.phoneNumber
+        ? await this.startSessionWithPairingCode(tenantId, options.phoneNumber)
+        : await this.startSessionWithQr(tenantId);
+    } finally {
+      const remaining = (this.startingSessions.get(tenantId) || 1) - 1;
+      if (remaining > 0) {
+        this.startingSessions.set(tenantId, remaining);
+      } else {
+        this.startingSessions.delete(tenantId);
+      }
+    }
+  }
+
+  private async startSessionWithQr(tenantId: string): Promise<{
     success: boolean;
     sessionId: string;
     qrCode?: string;
@@ -172,22 +512,8 @@ export class WhatsAppService extends EventEmitter {
       });
 
       // Criar nova sessão
-      const sessionId = `${tenantId}_${Date.now()}`;
-      const session: WhatsAppSession = {
-        socket: null,
-        status: 'connecting',
-        qrCode: null,
-        phoneNumber: null,
-        businessName: null,
-        lastActivity: new Date(),
-        reconnectAttempts: 0,
-        sessionId
-      };
-
-      this.sessions.set(tenantId, session);
-
-      // ✅ EMIT SESSION CREATED EVENT FOR AUTO-WEBHOOK REGISTRATION
-      this.emit('session_created', tenantId);
+      const session = this.createSessionEntry(tenantId);
+      const sessionId = session.sessionId;
 
       // FIXED: Create Baileys connection first, then start persistent QR
       console.log('🔧 [Session Start] Creating Baileys connection first', {
@@ -236,6 +562,322 @@ export class WhatsAppService extends EventEmitter {
     }
   }
 
+  /**
+   * Login por código de pareamento: o usuário digita o código em
+   * WhatsApp > Aparelhos conectados > Conectar com número de telefone
+   */
+  private async startSessionWithPairingCode(tenantId: string, phoneNumber: string): Promise<{
+    success: boolean;
+    sessionId: string;
+    pairingCode?: string;
+    message: string;
+  }> {
+    const existingSession = this.sessions.get(tenantId);
+    if (existingSession && existingSession.status === 'connected') {
+      return {
+        success: true,
+        sessionId: existingSession.sessionId,
+        message: 'Session already connected'
+      };
+    }
+
+    if (existingSession) {
+      await this.disconnectSession(tenantId);
+    }
+    this.persistentQRService.stopPersistentQR(tenantId);
+
+    console.log('🔢 [Session Start] Starting WhatsApp session with pairing code', {
+      tenantId: tenantId.substring(0, 8) + '***',
+      phone: phoneNumber.substring(0, 6) + '***'
+    });
+
+    const session = this.createSessionEntry(tenantId, phoneNumber);
+    const pairingCode = this.waitForPairingCode(tenantId, config.PAIRING_CODE_TIMEOUT_MS);
+    // Tratado no await abaixo - evita unhandled rejection se createBaileysConnection lançar
+    pairingCode.catch(() => undefined);
+
+    await this.createBaileysConnection(tenantId);
+
+    try {
+      return {
+        success: true,
+        sessionId: session.sessionId,
+        pairingCode: await pairingCode,
+        message: 'Enter the pairing code in WhatsApp > Linked devices > Link with phone number'
+      };
+    } catch (error) {
+      console.log('⚠️ [Session Start] Pairing code not available yet', {
+        tenantId: tenantId.substring(0, 8) + '***',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      // O código ainda pode chegar: fica disponível em /status, /qr e /poll
+      return {
+        success: true,
+        sessionId: session.sessionId,
+        message: 'Session initialization started, pairing code pending'
+      };
+    }
+  }
+
+  private waitForPairingCode(tenantId: string, timeoutMs: number): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const onPairingCode = (id: string, code: string) => {
+        if (id !== tenantId) return;
+        clearTimeout(timer);
+        this.off('pairing_code', onPairingCode);
+        resolve(code);
+      };
+      const timer = setTimeout(() => {
+        this.off('pairing_code', onPairingCode);
+        reject(new Error(`Pairing code not received within ${timeoutMs}ms`));
+      }, timeoutMs);
+
+      this.on('pairing_code', onPairingCode);
+    });
+  }
+
+  private async requestPairingCode(tenantId: string, session: WhatsAppSession): Promise<void> {
+    const socket = session.socket;
+    if (!socket || !session.pairingPhoneNumber || this.pairingCodeSockets.has(socket)) {
+      return;
+    }
+    this.pairingCodeSockets.add(socket);
+
+    try {
+      const code = await socket.requestPairingCode(session.pairingPhoneNumber);
+
+      session.pairingCode = code;
+      session.status = 'pairing_code';
+      session.lastActivity = new Date();
+
+      this.emit('pairing_code', tenantId, code);
+      this.emitSessionEvent(tenantId, 'pairing_code', { pairingCode: code });
+
+      console.log('✅ [Connection] Pairing code generated', {
+        tenantId: tenantId.substring(0, 8) + '***'
+      });
+    } catch (error) {
+      // Permitir nova tentativa no próximo QR do mesmo socket
+      this.pairingCodeSockets.delete(socket);
+
+      console.log('❌ [Connection] Failed to request pairing code', {
+        tenantId: tenantId.substring(0, 8) + '***',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  private createSessionEntry(tenantId: string, pairingPhoneNumber?: string): WhatsAppSession {
+    const session: WhatsAppSession = {
+      socket: null,
+      status: 'connecting',
+      qrCode: null,
+      pairingCode: null,
+      pairingPhoneNumber: pairingPhoneNumber || null,
+      phoneNumber: null,
+      businessName: null,
+      lastActivity: new Date(),
+      reconnectAttempts: 0,
+      sessionId: `${tenantId}_${Date.now()}`
+    };
+
+    this.sessions.set(tenantId, session);
+
+    // ✅ EMIT SESSION CREATED EVENT FOR AUTO-WEBHOOK REGISTRATION
+    this.emit('session_created', tenantId);
+    this.emitSessionEvent(tenantId, 'session_created', {
+      sessionId: session.sessionId,
+      loginMethod: pairingPhoneNumber ? 'pairing_code' : 'qr'
+    });
+
+    return session;
+  }
+
+  /**
+   * Assinar os eventos de ciclo de vida de um tenant - retorna a função para cancelar
+   */
+  subscribeSessionEvents(tenantId: string, listener: (event: SessionEvent) => void): () => void {
+    let listeners = this.sessionEventListeners.get(tenantId);
+    if (!listeners) {
+      listeners = new Set();
+      this.sessionEventListeners.set(tenantId, listeners);
+    }
+    listeners.add(listener);
+
+    return () => {
+      listeners!.delete(listener);
+      if (listeners!.size === 0 && this.sessionEventListeners.get(tenantId) === listeners) {
+        this.sessionEventListeners.delete(tenantId);
+      }
+    };
+  }
+
+  private emitSessionEvent(tenantId: string, type: SessionEventType, data?: Record<string, any>): void {
+    const listeners = this.sessionEventListeners.get(tenantId);
+    if (!listeners || listeners.size === 0) {
+      return;
+    }
+
+    const event: SessionEvent = {
+      type,
+      tenantId,
+      status: this.sessions.get(tenantId)?.status || 'disconnected',
+      timestamp: new Date().toISOString(),
+      ...(data && { data })
+    };
+
+    for (const listener of listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.log('⚠️ [Session Events] Listener failed', {
+          tenantId: tenantId.substring(0, 8) + '***',
+          type,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  }
+
+  private describeDisconnect(lastDisconnect: any): { statusCode?: number; reason: string } {
+    const statusCode = (lastDisconnect?.error as Boom)?.output?.statusCode;
+    const reason = (statusCode && DisconnectReason[statusCode])
+      || lastDisconnect?.error?.message
+      || 'Connection lost';
+
+    return { statusCode, reason };
+  }
+
+  /**
+   * Reconectar no boot todos os tenants com credenciais válidas no AuthStateStore
+   * Respeita settings.autoReconnect do tenant e SESSION_RESTORE_CONCURRENCY
+   */
+  async restoreSessions(): Promise<SessionRestoreSummary> {
+    const tenantIds = await this.findStoredSessions();
+    const summary: SessionRestoreSummary = {
+      startedAt: new Date().toISOString(),
+      finishedAt: null,
+      total: tenantIds.length,
+      restored: [],
+      failed: [],
+      skipped: []
+    };
+    this.restoreSummary = summary;
+
+    console.log(`🔄 [Session Restore] Found ${tenantIds.length} stored session(s)`, {
+      concurrency: config.SESSION_RESTORE_CONCURRENCY
+    });
+
+    await withConcurrencyLimit(tenantIds, async (tenantId) => {
+      const result = await this.restoreSession(tenantId);
+      summary[result.status].push(result);
+    }, config.SESSION_RESTORE_CONCURRENCY);
+
+    summary.finishedAt = new Date().toISOString();
+
+    console.log('✅ [Session Restore] Finished', {
+      total: summary.total,
+      restored: summary.restored.length,
+      failed: summary.failed.length,
+      skipped: summary.skipped.length
+    });
+
+    return summary;
+  }
+
+  getRestoreSummary(): SessionRestoreSummary | null {
+    return this.restoreSummary;
+  }
+
+  /**
+   * Tenants com creds.json já pareado (creds.me preenchido)
+   */
+  private async findStoredSessions(): Promise<string[]> {
+    const tenantIds = await this.authStateStore.listTenants();
+    const registered = await Promise.all(tenantIds.map(tenantId => hasRegisteredCreds(this.authStateStore, tenantId)));
+
+    return tenantIds.filter((_, index) => registered[index]);
+  }
+
+  private async restoreSession(tenantId: string): Promise<SessionRestoreResult> {
+    const startedAt = Date.now();
+
+    if (this.sessions.has(tenantId)) {
+      return { tenantId, status: 'skipped', reason: 'Session already started' };
+    }
+
+    if (this.tenantManager && !(await this.tenantManager.shouldAutoReconnect(tenantId))) {
+      console.log('⏭️ [Session Restore] Auto reconnect disabled for tenant', {
+        tenantId: tenantId.substring(0, 8) + '***'
+      });
+      return { tenantId, status: 'skipped', reason: 'autoReconnect disabled' };
+    }
+
+    try {
+      this.createSessionEntry(tenantId);
+      // Escutar antes de conectar (o evento pode chegar durante o createBaileysConnection)
+      // O catch vazio evita unhandled rejection se a criação falhar antes do await abaixo
+      const connected = this.waitForConnection(tenantId, config.SESSION_RESTORE_TIMEOUT_MS);
+      connected.catch(() => undefined);
+      await this.createBaileysConnection(tenantId);
+      await connected;
+
+      console.log('✅ [Session Restore] Session restored', {
+        tenantId: tenantId.substring(0, 8) + '***',
+        duration: `${Date.now() - startedAt}ms`
+      });
+
+      return { tenantId, status: 'restored', durationMs: Date.now() - startedAt };
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+
+      console.log('❌ [Session Restore] Failed to restore session', {
+        tenantId: tenantId.substring(0, 8) + '***',
+        reason
+      });
+
+      return { tenantId, status: 'failed', reason, durationMs: Date.now() - startedAt };
+    }
+  }
+
+  /**
+   * Aguardar a conexão abrir - falha se o WhatsApp pedir QR (creds inválidas), desconectar ou estourar o timeout
+   */
+  private waitForConnection(tenantId: string, timeoutMs: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const cleanup = () => {
+        clearTimeout(timer);
+        this.off('connected', onConnected);
+        this.off('disconnected', onDisconnected);
+        this.off('qr', onQr);
+      };
+      const onConnected = (id: string) => {
+        if (id !== tenantId) return;
+        cleanup();
+        resolve();
+      };
+      const onDisconnected = (id: string, reason?: string) => {
+        if (id !== tenantId) return;
+        cleanup();
+        reject(new Error(reason || 'Disconnected'));
+      };
+      const onQr = (id: string) => {
+        if (id !== tenantId) return;
+        cleanup();
+        reject(new Error('Stored credentials rejected, QR code required'));
+      };
+      const timer = setTimeout(() => {
+        cleanup();
+        reject(new Error(`Connection not established within ${timeoutMs}ms`));
+      }, timeoutMs);
+
+      this.on('connected', onConnected);
+      this.on('disconnected', onDisconnected);
+      this.on('qr', onQr);
+    });
+  }
+
   private async createBaileysConnection(tenantId: string): Promise<void> {
     const session = this.sessions.get(tenantId);
     if (!session) {
@@ -248,12 +890,12 @@ export class WhatsAppService extends EventEmitter {
         timestamp: new Date().toISOString()
       });
 
-      // OPTIMIZED: Pre-warm directory and version fetching in parallel
-      const authDir = path.join(this.sessionDir, tenantId);
+      // OPTIMIZED: Version fetching and auth state loading in parallel
+      const authStateStart = Date.now();
       
-      const [versionResult, authDirResult] = await Promise.allSettled([
+      const [versionResult, authStateResult] = await Promise.allSettled([
         fetchLatestBaileysVersion(),
-        this.ensureAuthDirectory(authDir)
+        useStoredAuthState(this.authStateStore, tenantId)
       ]);
 
       // Check results
@@ -265,27 +907,22 @@ export class WhatsAppService extends EventEmitter {
         throw new Error('Failed to fetch Baileys version');
       }
 
-      if (authDirResult.status === 'rejected') {
-        console.log('❌ [Baileys] Auth directory creation failed', {
+      if (authStateResult.status === 'rejected') {
+        console.log('❌ [Baileys] Auth state loading failed', {
           tenantId: tenantId.substring(0, 8) + '***',
-          error: authDirResult.reason
+          store: this.authStateStore.name,
+          error: authStateResult.reason
         });
-        throw new Error('Failed to create auth directory');
+        throw new Error('Failed to load auth state');
       }
 
       const { version } = versionResult.value;
-      console.log('✅ [Baileys] Version and directory ready', {
-        version,
-        tenantId: tenantId.substring(0, 8) + '***',
-        authDir: authDir.replace(tenantId, '***')
-      });
-
-      // OPTIMIZED: Pre-warm auth state loading
-      const authStateStart = Date.now();
-      const { state, saveCreds } = await useMultiFileAuthState(authDir);
+      const { state, saveCreds } = authStateResult.value;
       
-      console.log('✅ [Baileys] Auth state loaded', {
+      console.log('✅ [Baileys] Version and auth state ready', {
+        version,
         tenantId: tenantId.substring(0, 8) + '***',
+        store: this.authStateStore.name,
         duration: `${Date.now() - authStateStart}ms`,
         hasExistingCreds: !!state.creds.me
       });
@@ -303,6 +940,10 @@ export class WhatsAppService extends EventEmitter {
         connectTimeoutMs: 60000, // Increased timeout
         defaultQueryTimeoutMs: 60000,
         retryRequestDelayMs: 1000,
+        // Evitar buscar os metadados do grupo a cada envio
+        cachedGroupMetadata: async (jid) => this.cache.get(`group_${tenantId}_${jid}`),
+        // O Baileys só descriptografa votos de enquete se conseguir recuperar a mensagem original
+        getMessage: async (key) => this.polls.get(`${tenantId}_${key.id}`)?.message || undefined,
         ...config.BAILEYS_CONFIG
       });
 
@@ -333,6 +974,24 @@ export class WhatsAppService extends EventEmitter {
         }
       });
 
+      // Handler para status de mensagens enviadas (ack do servidor, entrega, leitura)
+      socket.ev.on('messages.update', async (updates) => {
+        await this.handleMessageUpdates(tenantId, updates);
+      });
+
+      // Handler para recibos de entrega/leitura (inclui grupos, um recibo por participante)
+      socket.ev.on('message-receipt.update', async (receipts) => {
+        await this.handleMessageReceipts(tenantId, receipts);
+      });
+
+      // Metadados de grupo em cache ficam inválidos quando o grupo ou os participantes mudam
+      socket.ev.on('groups.update', (updates) => {
+        updates.forEach(update => update.id && this.cache.del(`group_${tenantId}_${update.id}`));
+      });
+      socket.ev.on('group-participants.update', ({ id }) => {
+        this.cache.del(`group_${tenantId}_${id}`);
+      });
+
       console.log({ tenantId }, 'Baileys socket created successfully');
 
     } catch (error: unknown) {
@@ -350,8 +1009,11 @@ export class WhatsAppService extends EventEmitter {
 
     console.log(`🔄 [Connection] Update received for tenant ${tenantId.substring(0, 8)}***: connection=${connection}, hasQr=${!!qr}`);
 
-    // OPTIMIZED: QR Code generation with persistent service integration
-    if (qr) {
+    // Login por código de pareamento: o QR do Baileys só indica que o socket está pronto
+    if (qr && session.pairingPhoneNumber) {
+      await this.requestPairingCode(tenantId, session);
+    } else if (qr) {
+      // OPTIMIZED: QR Code generation with persistent service integration
       try {
         const qrGenStart = Date.now();
         const qrDataUrl = await QRCode.toDataURL(qr, {
@@ -372,6 +1034,7 @@ export class WhatsAppService extends EventEmitter {
         this.cache.set(`qr_${tenantId}`, qrDataUrl, config.QR_TIMEOUT / 1000);
 
         this.emit('qr', tenantId, qrDataUrl);
+        this.emitSessionEvent(tenantId, 'qr', { qrCode: qrDataUrl });
         
         console.log('✅ [Connection] QR Code generated and integrated', {
           tenantId: tenantId.substring(0, 8) + '***',
@@ -386,6 +1049,7 @@ export class WhatsAppService extends EventEmitter {
         session.qrCode = qr;
         session.status = 'qr';
         this.emit('qr', tenantId, qr);
+        this.emitSessionEvent(tenantId, 'qr', { qrCode: qr });
       }
     }
 
@@ -393,6 +1057,8 @@ export class WhatsAppService extends EventEmitter {
     if (connection === 'open') {
       session.status = 'connected';
       session.qrCode = null;
+      session.pairingCode = null;
+      session.pairingPhoneNumber = null;
       session.reconnectAttempts = 0;
 
       // Obter informações do usuário
@@ -415,6 +1081,10 @@ export class WhatsAppService extends EventEmitter {
       }
 
       this.emit('connected', tenantId, session.phoneNumber);
+      this.emitSessionEvent(tenantId, 'connected', {
+        phoneNumber: session.phoneNumber,
+        businessName: session.businessName
+      });
       
       console.log('✅ [Connection] WhatsApp connected successfully', {
         tenantId: tenantId.substring(0, 8) + '***',
@@ -424,9 +1094,14 @@ export class WhatsAppService extends EventEmitter {
       }, 'WhatsApp connected successfully');
     }
 
+    if (connection === 'connecting') {
+      this.emitSessionEvent(tenantId, 'connecting', { reconnectAttempts: session.reconnectAttempts });
+    }
+
     // Conexão fechada
     if (connection === 'close') {
       const shouldReconnect = (lastDisconnect?.error as Boom)?.output?.statusCode !== DisconnectReason.loggedOut;
+      const { statusCode, reason } = this.describeDisconnect(lastDisconnect);
 
       console.log({
         tenantId,
@@ -454,10 +1129,22 @@ export class WhatsAppService extends EventEmitter {
         }, delay);
 
         this.reconnectTimers.set(tenantId, timer);
+        this.emitSessionEvent(tenantId, 'reconnecting', {
+          attempt: session.reconnectAttempts,
+          maxAttempts: config.MAX_RECONNECT_ATTEMPTS,
+          delayMs: delay,
+          reason,
+          statusCode
+        });
 
       } else {
         session.status = 'disconnected';
-        this.emit('disconnected', tenantId, 'Connection lost');
+        this.emit('disconnected', tenantId, reason);
+        this.emitSessionEvent(tenantId, 'disconnected', {
+          reason,
+          statusCode,
+          loggedOut: statusCode === DisconnectReason.loggedOut
+        });
 
         if ((lastDisconnect?.error as Boom)?.output?.statusCode === DisconnectReason.loggedOut) {
           // Limpar dados de sessão se foi deslogado
@@ -488,12 +1175,27 @@ export class WhatsAppService extends EventEmitter {
         continue;
       }
 
+      // Votos chegam criptografados; o Baileys os entrega já descriptografados em messages.update
+      if (message.message.pollUpdateMessage) {
+        continue;
+      }
+
+      const isGroup = !!isJidGroup(message.key.remoteJid);
+      if (isGroup && !(await this.shouldIncludeGroupMessages(tenantId))) {
+        console.log('👥 [WhatsApp] Ignoring group message (tenant groupMessages=ignore)', {
+          tenantId: tenantId.substring(0, 8) + '***',
+          messageId: message.key.id?.substring(0, 8) + '***'
+        });
+        continue;
+      }
+
       // ===== LOG DETALHADO DA MENSAGEM RECEBIDA =====
       console.log('📱 [WhatsApp] Processing message', {
         tenantId: tenantId.substring(0, 8) + '***',
         messageId: message.key.id?.substring(0, 8) + '***',
         from: message.key.remoteJid?.replace('@s.whatsapp.net', '').substring(0, 6) + '***',
         messageType: Object.keys(message.message || {}),
+        isGroup,
         hasAudio: !!message.message?.audioMessage,
         hasText: !!(message.message?.conversation || message.message?.extendedTextMessage?.text),
         timestamp: message.messageTimestamp
@@ -506,12 +1208,18 @@ export class WhatsAppService extends EventEmitter {
       // ===== EXTRAÇÃO DE MENSAGEM RESPONDIDA =====
       const messageReplied = this.extractRepliedMessage(message);
       const messageKey = `${tenantId}_${message.key.remoteJid}_${message.key.id}_${message.messageTimestamp}`;
-      // Hash considerando texto OU áudio
+      // Hash considerando texto, áudio, mídia OU resposta interativa
       const hasAudioForHash = !!message.message?.audioMessage;
+      const mediaContent = this.getInboundMediaContent(message);
+      const interactiveReply = this.getInteractiveReply(message);
       const contentIdentifier = hasAudioForHash ? 
         `AUDIO_${message.message?.audioMessage?.seconds}_${message.message?.audioMessage?.mimetype}` :
+        mediaContent ? `MEDIA_${mediaContent.kind}_${mediaContent.fileSha256 || message.key.id}` :
+        interactiveReply ? `REPLY_${interactiveReply.kind}_${message.key.id}` :
         messageText.trim().substring(0, 50);
-      const contentHash = `${tenantId}_${message.key.remoteJid}_${contentIdentifier}_${Math.floor((message.messageTimestamp || 0) / 60000)}`;
+      // messageTimestamp vem em segundos: janela de 1 minuto
+      // Em grupos o participant separa autores diferentes que mandam o mesmo texto (ex: "ok")
+      const contentHash = `${tenantId}_${message.key.remoteJid}_${message.key.participant || ''}_${contentIdentifier}_${Math.floor(Number(message.messageTimestamp || 0) / 60)}`;
       
       // Verificar duplicação por ID E por conteúdo
       if (this.processedMessages.has(messageKey) || this.processedMessages.has(contentHash)) {
@@ -527,19 +1235,43 @@ export class WhatsAppService extends EventEmitter {
       // Marcar mensagem como processada ANTES de processar (dupla proteção)
       this.processedMessages.add(messageKey);
       this.processedMessages.add(contentHash);
+      this.persistMessageQueues();
+
+      // Registrar no histórico toda mensagem recebida (inclusive mídias)
+      this.recordInboundMessage(tenantId, message, messageText || interactiveReply?.title || '');
 
       const session = this.sessions.get(tenantId);
       if (session) {
         session.lastActivity = new Date();
       }
       
+      // Respostas de botões e listas vão direto para o webhook (sem consolidação)
+      if (interactiveReply) {
+        await this.flushMessageQueue(tenantId, message.key.remoteJid, message.key.participant || undefined);
+        this.emitInteractiveReply(tenantId, message.key.remoteJid, {
+          id: message.key.id,
+          timestamp: message.messageTimestamp,
+          reply: interactiveReply,
+          ...this.getGroupEventFields(message.key.remoteJid, message.key.participant, message.pushName)
+        });
+        continue;
+      }
+
+      // Mídias (imagem, vídeo, documento, sticker, localização, contato) vão direto para o webhook
+      if (mediaContent) {
+        // Entregar antes o texto pendente do mesmo cliente para manter a ordem
+        await this.flushMessageQueue(tenantId, message.key.remoteJid, message.key.participant || undefined);
+        await this.processMediaMessage(tenantId, message, mediaContent, messageReplied);
+        continue;
+      }
+
       // Filtrar mensagens vazias (MAS permitir áudios sem texto)
       const hasAudio = !!message.message?.audioMessage;
       if (!messageText.trim() && !hasAudio) {
-        console.log('⚠️ [WhatsApp] Empty message without audio, skipping', {
+        console.log('⚠️ [WhatsApp] Empty message without audio or media, skipping', {
           tenantId: tenantId.substring(0, 8) + '***',
           messageId: message.key.id?.substring(0, 8) + '***',
-          hasAudio
+          messageType: Object.keys(message.message || {})
         });
         continue;
       }
@@ -569,17 +1301,133 @@ export class WhatsAppService extends EventEmitter {
     }
   }
 
+  private async getConsolidationPolicy(tenantId: string): Promise<MessageConsolidationPolicy> {
+    return this.tenantManager
+      ? this.tenantManager.getMessageConsolidationPolicy(tenantId)
+      : DEFAULT_MESSAGE_CONSOLIDATION;
+  }
+
+  private async shouldIncludeGroupMessages(tenantId: string): Promise<boolean> {
+    return this.tenantManager
+      ? this.tenantManager.shouldIncludeGroupMessages(tenantId)
+      : true;
+  }
+
+  /**
+   * Filas de debounce são por conversa; em grupos, por participante (não misturar autores)
+   */
+  private getQueueKey(tenantId: string, clientPhone: string, participant?: string): string {
+    return participant ? `${tenantId}_${clientPhone}_${participant}` : `${tenantId}_${clientPhone}`;
+  }
+
+  /**
+   * Campos de grupo do evento 'message' - vazio para conversas individuais
+   */
+  private getGroupEventFields(remoteJid?: string | null, participant?: string | null, pushName?: string | null): Record<string, any> {
+    if (!isJidGroup(remoteJid || undefined)) {
+      return {};
+    }
+
+    return {
+      isGroup: true,
+      participant: (participant || '').replace('@s.whatsapp.net', ''),
+      participantName: pushName || undefined
+    };
+  }
+
+  /**
+   * Resposta a botões ou listas - null para qualquer outro tipo de mensagem
+   */
+  private getInteractiveReply(message: proto.IWebMessageInfo): InteractiveReply | null {
+    const content = message.message;
+    if (!content) return null;
+
+    if (content.buttonsResponseMessage) {
+      const response = content.buttonsResponseMessage;
+      return {
+        kind: 'button',
+        id: response.selectedButtonId || undefined,
+        title: response.selectedDisplayText || undefined,
+        messageId: response.contextInfo?.stanzaId || undefined
+      };
+    }
+
+    if (content.templateButtonReplyMessage) {
+      const response = content.templateButtonReplyMessage;
+      return {
+        kind: 'button',
+        id: response.selectedId || undefined,
+        title: response.selectedDisplayText || undefined,
+        messageId: response.contextInfo?.stanzaId || undefined
+      };
+    }
+
+    if (content.listResponseMessage) {
+      const response = content.listResponseMessage;
+      return {
+        kind: 'list',
+        id: response.singleSelectReply?.selectedRowId || undefined,
+        title: response.title || undefined,
+        description: response.description || undefined,
+        messageId: response.contextInfo?.stanzaId || undefined
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Emitir escolha do cliente como evento 'message' estruturado (type button_reply, list_reply ou poll_vote)
+   */
+  private emitInteractiveReply(
+    tenantId: string,
+    remoteJid: string,
+    event: { id?: string | null; timestamp: any; reply: InteractiveReply; [field: string]: any }
+  ): void {
+    const { reply } = event;
+    const type = reply.kind === 'poll' ? 'poll_vote' : `${reply.kind}_reply`;
+    const text = reply.kind === 'poll'
+      ? (reply.selectedOptions || []).join(', ')
+      : reply.title || reply.id || '';
+
+    console.log('🔘 [Interactive] Emitting customer choice', {
+      tenantId: tenantId.substring(0, 8) + '***',
+      clientPhone: remoteJid.replace('@s.whatsapp.net', '').substring(0, 6) + '***',
+      type,
+      replyId: reply.id
+    });
+
+    this.emit('message', tenantId, {
+      ...event,
+      from: remoteJid.replace('@s.whatsapp.net', ''),
+      text,
+      type,
+      consolidated: false,
+      originalCount: 1,
+      messageIds: event.id ? [event.id] : [],
+      hasAudio: false
+    });
+  }
+
   private async addToMessageQueue(tenantId: string, message: proto.IWebMessageInfo, messageReplied?: string): Promise<void> {
     const clientPhone = message.key.remoteJid!; // Já validamos que existe
-    const queueKey = `${tenantId}_${clientPhone}`;
+    const participant = isJidGroup(clientPhone) ? message.key.participant || undefined : undefined;
+    const queueKey = this.getQueueKey(tenantId, clientPhone, participant);
+    const policy = await this.getConsolidationPolicy(tenantId);
     
     // Buscar ou criar fila para este cliente
     let queue = this.messageQueues.get(queueKey);
     if (!queue) {
       queue = {
+        tenantId,
+        clientPhone,
+        participant,
         messages: [],
         repliedMessages: [],
-        timeout: null
+        timeout: null,
+        firstMessageAt: Date.now(),
+        dueAt: Date.now(),
+        separator: policy.separator
       };
       this.messageQueues.set(queueKey, queue);
       
@@ -599,20 +1447,235 @@ export class WhatsAppService extends EventEmitter {
       queueSize: queue.messages.length
     });
 
-    // Cancelar timer anterior se existir
-    if (queue.timeout) {
-      clearTimeout(queue.timeout);
+    // Cancelar timer anterior se existir
+    if (queue.timeout) {
+      clearTimeout(queue.timeout);
+      queue.timeout = null;
+    }
+
+    // Consolidação desativada ou limite de mensagens atingido: enviar na hora
+    if (!policy.enabled || queue.messages.length >= policy.maxMessages) {
+      await this.processMessageQueue(tenantId, clientPhone, queueKey);
+      return;
+    }
+
+    // Debounce limitado pelo tempo máximo desde a primeira mensagem
+    const delay = Math.max(0, Math.min(policy.windowMs, queue.firstMessageAt + policy.maxWaitMs - Date.now()));
+    queue.dueAt = Date.now() + delay;
+    queue.timeout = setTimeout(async () => {
+      await this.processMessageQueue(tenantId, clientPhone, queueKey);
+    }, delay);
+    this.persistMessageQueues();
+    
+    console.log(`⏰ [Queue] Reset debounce timer (${Math.round(delay / 1000)}s)`, {
+      tenantId: tenantId.substring(0, 8) + '***',
+      clientPhone: clientPhone.replace('@s.whatsapp.net', '').substring(0, 6) + '***',
+      queueSize: queue.messages.length
+    });
+  }
+
+  /**
+   * Processar imediatamente a fila de texto pendente de um cliente (sem esperar o debounce)
+   */
+  private async flushMessageQueue(tenantId: string, clientPhone: string, participant?: string): Promise<void> {
+    const queueKey = this.getQueueKey(tenantId, clientPhone, isJidGroup(clientPhone) ? participant : undefined);
+    const queue = this.messageQueues.get(queueKey);
+    if (!queue || queue.messages.length === 0) {
+      return;
+    }
+
+    if (queue.timeout) {
+      clearTimeout(queue.timeout);
+      queue.timeout = null;
+    }
+
+    await this.processMessageQueue(tenantId, clientPhone, queueKey);
+  }
+
+  /**
+   * Normalizar mensagens de mídia suportadas - null para texto, áudio ou tipos não suportados
+   */
+  private getInboundMediaContent(message: proto.IWebMessageInfo): InboundMediaContent | null {
+    const content = message.message;
+    if (!content) return null;
+
+    const sha = (value?: Uint8Array | null) => value ? Buffer.from(value).toString('base64') : undefined;
+
+    if (content.imageMessage) {
+      const media = content.imageMessage;
+      return {
+        kind: 'image',
+        downloadable: true,
+        mimetype: media.mimetype || 'image/jpeg',
+        caption: media.caption || undefined,
+        fileLength: Number(media.fileLength || 0),
+        fileSha256: sha(media.fileSha256)
+      };
+    }
+
+    if (content.videoMessage) {
+      const media = content.videoMessage;
+      return {
+        kind: 'video',
+        downloadable: true,
+        mimetype: media.mimetype || 'video/mp4',
+        caption: media.caption || undefined,
+        fileLength: Number(media.fileLength || 0),
+        fileSha256: sha(media.fileSha256)
+      };
+    }
+
+    const document = content.documentMessage || content.documentWithCaptionMessage?.message?.documentMessage;
+    if (document) {
+      return {
+        kind: 'document',
+        downloadable: true,
+        mimetype: document.mimetype || 'application/octet-stream',
+        caption: document.caption || undefined,
+        fileName: document.fileName || undefined,
+        fileLength: Number(document.fileLength || 0),
+        fileSha256: sha(document.fileSha256)
+      };
+    }
+
+    if (content.stickerMessage) {
+      const media = content.stickerMessage;
+      return {
+        kind: 'sticker',
+        downloadable: true,
+        mimetype: media.mimetype || 'image/webp',
+        fileLength: Number(media.fileLength || 0),
+        fileSha256: sha(media.fileSha256)
+      };
+    }
+
+    const location = content.locationMessage || content.liveLocationMessage;
+    if (location) {
+      return {
+        kind: 'location',
+        downloadable: false,
+        caption: location.caption || undefined,
+        location: {
+          latitude: location.degreesLatitude || 0,
+          longitude: location.degreesLongitude || 0,
+          name: content.locationMessage?.name || undefined,
+          address: content.locationMessage?.address || undefined,
+          live: !!content.liveLocationMessage
+        }
+      };
+    }
+
+    if (content.contactMessage || content.contactsArrayMessage) {
+      const contacts = content.contactMessage
+        ? [content.contactMessage]
+        : content.contactsArrayMessage?.contacts || [];
+
+      return {
+        kind: 'contact',
+        downloadable: false,
+        contacts: contacts.map(contact => ({
+          name: contact.displayName || '',
+          vcard: contact.vcard || ''
+        }))
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Baixar mídia de uma mensagem recebida (com re-upload caso o link do WhatsApp tenha expirado)
+   */
+  private async downloadMedia(tenantId: string, message: proto.IWebMessageInfo): Promise<Buffer> {
+    const session = this.sessions.get(tenantId);
+
+    // Sem socket (ex: fila restaurada logo após restart) o download funciona enquanto a mídia não expirou
+    return await downloadMediaMessage(
+      message as any,
+      'buffer',
+      {},
+      {
+        logger: this.logger as any,
+        reuploadRequest: session?.socket
+          ? session.socket.updateMediaMessage
+          : async () => { throw new Error('WhatsApp session not available for media re-upload'); }
+      }
+    ) as Buffer;
+  }
+
+  private async processMediaMessage(
+    tenantId: string,
+    message: proto.IWebMessageInfo,
+    media: InboundMediaContent,
+    messageReplied?: string
+  ): Promise<void> {
+    const clientPhone = message.key.remoteJid!;
+    let stored: { url: string; size: number; expiresAt: string } | null = null;
+    let mediaError: string | undefined;
+
+    if (media.downloadable) {
+      const maxBytes = config.MEDIA_MAX_SIZE_MB * 1024 * 1024;
+
+      if (media.fileLength && media.fileLength > maxBytes) {
+        mediaError = `Media larger than ${config.MEDIA_MAX_SIZE_MB}MB was not downloaded`;
+      } else {
+        try {
+          const buffer = await this.downloadMedia(tenantId, message);
+          stored = await this.mediaStorage.store(tenantId, buffer, {
+            messageId: message.key.id!,
+            mimetype: media.mimetype!,
+            fileName: media.fileName
+          });
+        } catch (error) {
+          mediaError = error instanceof Error ? error.message : 'Unknown error';
+          console.log('❌ [Media] Failed to download/store media', {
+            tenantId: tenantId.substring(0, 8) + '***',
+            messageId: message.key.id?.substring(0, 8) + '***',
+            kind: media.kind,
+            error: mediaError
+          });
+        }
+      }
+    }
+
+    const eventData: any = {
+      from: clientPhone.replace('@s.whatsapp.net', ''),
+      id: message.key.id,
+      timestamp: message.messageTimestamp,
+      text: media.caption || '',
+      type: media.kind,
+      consolidated: false,
+      originalCount: 1,
+      messageIds: [message.key.id],
+      hasAudio: false,
+      caption: media.caption,
+      mediaUrl: stored?.url,
+      mediaExpiresAt: stored?.expiresAt,
+      mediaSize: stored?.size,
+      mimetype: media.mimetype,
+      fileName: media.fileName,
+      location: media.location,
+      contacts: media.contacts,
+      ...this.getGroupEventFields(message.key.remoteJid, message.key.participant, message.pushName),
+      ...(mediaError && { mediaError })
+    };
+
+    if (messageReplied) {
+      eventData.messageReplied = messageReplied;
     }
 
-    // Criar novo timer de 12 segundos (debounce)
-    queue.timeout = setTimeout(async () => {
-      await this.processMessageQueue(tenantId, clientPhone, queueKey);
-    }, 12000);
-    
-    console.log('⏰ [Queue] Reset debounce timer (12s)', {
+    console.log('🖼️ [Media] Emitting media message', {
       tenantId: tenantId.substring(0, 8) + '***',
-      clientPhone: clientPhone.replace('@s.whatsapp.net', '').substring(0, 6) + '***'
+      clientPhone: clientPhone.replace('@s.whatsapp.net', '').substring(0, 6) + '***',
+      kind: media.kind,
+      stored: !!stored
     });
+
+    this.emit('message', tenantId, eventData);
+  }
+
+  getMediaStorage(): MediaStorageService {
+    return this.mediaStorage;
   }
 
   private async processMessageQueue(tenantId: string, clientPhone: string, queueKey: string): Promise<void> {
@@ -625,6 +1688,24 @@ export class WhatsAppService extends EventEmitter {
       return;
     }
 
+    // Retirar a fila antes de processar: mensagens que chegarem durante a transcrição abrem uma nova fila
+    // Ela continua gravada em disco até o evento ser emitido (restart no meio da transcrição não perde nada)
+    this.messageQueues.delete(queueKey);
+    this.processingQueues.add(queue);
+    if (queue.timeout) {
+      clearTimeout(queue.timeout);
+      queue.timeout = null;
+    }
+
+    try {
+      await this.deliverMessageQueue(tenantId, clientPhone, queue);
+    } finally {
+      this.processingQueues.delete(queue);
+      this.persistMessageQueues();
+    }
+  }
+
+  private async deliverMessageQueue(tenantId: string, clientPhone: string, queue: MessageQueue): Promise<void> {
     console.log('🔥 [Queue] Processing message queue', {
       tenantId: tenantId.substring(0, 8) + '***',
       clientPhone: clientPhone.replace('@s.whatsapp.net', '').substring(0, 6) + '***',
@@ -635,9 +1716,12 @@ export class WhatsAppService extends EventEmitter {
     const consolidatedTexts: string[] = [];
     const audioTranscriptions: string[] = [];
     const firstMessage = queue.messages[0];
+    const transcriptionOffsets: number[] = []; // Índice da transcrição de cada mensagem
     let hasAudio = false;
     
     for (const message of queue.messages) {
+      transcriptionOffsets.push(audioTranscriptions.length);
+      
       // Processar mensagem de texto
       const messageText = message.message?.conversation || 
                          message.message?.extendedTextMessage?.text || '';
@@ -687,25 +1771,12 @@ export class WhatsAppService extends EventEmitter {
             });
             
             // Baixar áudio
-            const session = this.sessions.get(tenantId);
-            if (!session?.socket) {
-              throw new Error('WhatsApp session not available for media download');
-            }
-            
             console.log('⬇️ [Queue] Downloading audio from WhatsApp', {
               tenantId: tenantId.substring(0, 8) + '***',
-              sessionConnected: session.status === 'connected'
+              sessionConnected: this.sessions.get(tenantId)?.status === 'connected'
             });
             
-            const buffer = await session.socket.downloadMediaMessage(
-              message,
-              'buffer',
-              {},
-              {
-                logger: this.logger as any,
-                reuploadRequest: session.socket.updateMediaMessage
-              }
-            ) as Buffer;
+            const buffer = await this.downloadMedia(tenantId, message);
             
             console.log('✅ [Queue] Audio downloaded successfully', {
               tenantId: tenantId.substring(0, 8) + '***',
@@ -732,7 +1803,6 @@ export class WhatsAppService extends EventEmitter {
                   error: transcriptionResult.error
                 });
               }
-            }
           } catch (error) {
             console.log('❌ [Queue] Error processing audio', {
               tenantId: tenantId.substring(0, 8) + '***',
@@ -756,11 +1826,26 @@ export class WhatsAppService extends EventEmitter {
           }
         }
       }
-    }
 
     // Juntar todas as mensagens e transcrições em uma só
     const allMessages = [...consolidatedTexts, ...audioTranscriptions];
-    const consolidatedMessage = allMessages.join(' ');
+    const consolidatedMessage = allMessages.join(queue.separator);
+
+    // Mensagens originais, na ordem de chegada (texto ou transcrição de cada uma)
+    const originalMessages = queue.messages.map((message, index) => {
+      const isAudio = !!message.message?.audioMessage;
+      const nextOffset = transcriptionOffsets[index + 1] ?? audioTranscriptions.length;
+
+      return {
+        id: message.key.id,
+        type: isAudio ? 'audio' : 'text',
+        text: isAudio
+          ? audioTranscriptions.slice(transcriptionOffsets[index], nextOffset).join(' ')
+          : (message.message?.conversation || message.message?.extendedTextMessage?.text || '').trim(),
+        timestamp: message.messageTimestamp,
+        ...(queue.repliedMessages[index] && { messageReplied: queue.repliedMessages[index] })
+      };
+    });
     
     console.log('📤 [Queue] Sending consolidated message', {
       tenantId: tenantId.substring(0, 8) + '***',
@@ -783,8 +1868,11 @@ export class WhatsAppService extends EventEmitter {
       type: hasAudio ? 'audio_transcribed' : 'text',
       consolidated: true, // Flag para indicar mensagem consolidada
       originalCount: queue.messages.length, // Quantas mensagens originais foram consolidadas
+      messageIds: originalMessages.map(original => original.id),
+      originalMessages,
       hasAudio,
-      transcriptionCount: audioTranscriptions.length
+      transcriptionCount: audioTranscriptions.length,
+      ...this.getGroupEventFields(firstMessage.key.remoteJid, firstMessage.key.participant, firstMessage.pushName)
     };
     
     // Adicionar messageReplied se existir
@@ -793,9 +1881,6 @@ export class WhatsAppService extends EventEmitter {
     }
     
     this.emit('message', tenantId, eventData);
-
-    // Limpar fila
-    this.messageQueues.delete(queueKey);
     
     console.log('✅ [Queue] Queue processed and cleared', {
       tenantId: tenantId.substring(0, 8) + '***',
@@ -808,9 +1893,13 @@ export class WhatsAppService extends EventEmitter {
     messageId?: string | string[];
     error?: string;
   }> {
+    // Mensagens reservadas na cota do tenant - devolvidas se o envio falhar
+    let reservedQuota = 0;
+
     try {
       const session = this.sessions.get(tenantId);
       if (!session || !session.socket || session.status !== 'connected') {
+        await this.recordOutboundMessage(tenantId, this.toJid(messageData.to), messageData, undefined, 'WhatsApp session not connected');
         return {
           success: false,
           error: 'WhatsApp session not connected'
@@ -818,18 +1907,22 @@ export class WhatsAppService extends EventEmitter {
       }
 
       // Suporte para WhatsApp Business - detectar se já é um JID completo
-      let jid: string;
-      if (messageData.to.includes('@')) {
-        // Já é um JID (pode ser @lid para WhatsApp Business ou @s.whatsapp.net)
-        jid = messageData.to;
-      } else {
-        // É apenas um número, adicionar sufixo padrão
-        jid = `${messageData.to}@s.whatsapp.net`;
+      const jid = this.toJid(messageData.to);
+
+      // Cota de envio (lança TooManyRequestsError, repassado ao chamador)
+      if (this.quotaService) {
+        const messageCount = messageData.type === 'media' && messageData.mediaUrls?.length ? messageData.mediaUrls.length : 1;
+        await this.quotaService.consumeMessages(tenantId, messageCount);
+        reservedQuota = messageCount;
       }
 
       // 🚀 NOVO: Suporte a múltiplas mídias
       if (messageData.type === 'media' && messageData.mediaUrls && messageData.mediaUrls.length > 0) {
-        return await this.sendMultipleMedia(session, jid, messageData, tenantId);
+        const result = await this.sendMultipleMedia(session, jid, messageData, tenantId);
+        if (!result.success && reservedQuota) {
+          this.quotaService?.releaseMessages(tenantId, reservedQuota);
+        }
+        return result;
       }
 
       // Lógica original para mídia única
@@ -869,13 +1962,80 @@ export class WhatsAppService extends EventEmitter {
           fileName: messageData.fileName || 'document',
           caption: messageData.caption || messageData.message
         };
+      } else if (messageData.type === 'audio' && messageData.mediaUrl) {
+        const response = await fetch(messageData.mediaUrl);
+        if (!response.ok) {
+          throw new Error(`Failed to fetch audio: ${response.statusText}`);
+        }
+        const buffer = Buffer.from(await response.arrayBuffer());
+        const audio = await this.prepareAudio(
+          tenantId,
+          buffer,
+          response.headers.get('content-type') || 'audio/mpeg',
+          !!messageData.ptt
+        );
+
+        content = {
+          audio: audio.buffer,
+          mimetype: audio.mimetype,
+          ptt: !!messageData.ptt,
+          ...(audio.seconds && { seconds: audio.seconds }),
+          ...(audio.waveform && { waveform: audio.waveform })
+        };
+      } else if (messageData.type === 'poll' && messageData.poll) {
+        content = {
+          poll: {
+            name: messageData.message,
+            values: messageData.poll.options,
+            selectableCount: messageData.poll.selectableCount ?? 1
+          }
+        };
+      } else if (messageData.type === 'buttons' && messageData.buttons?.length) {
+        content = {
+          text: messageData.message,
+          footer: messageData.footer,
+          buttons: messageData.buttons.map(button => ({
+            buttonId: button.id,
+            buttonText: { displayText: button.text },
+            type: 1
+          })),
+          headerType: 1
+        };
+      } else if (messageData.type === 'list' && messageData.list) {
+        content = {
+          text: messageData.message,
+          footer: messageData.footer,
+          title: messageData.list.title,
+          buttonText: messageData.list.buttonText,
+          sections: messageData.list.sections.map(section => ({
+            title: section.title,
+            rows: section.rows.map(row => ({
+              rowId: row.id,
+              title: row.title,
+              description: row.description
+            }))
+          }))
+        };
       } else {
         content = { text: messageData.message };
       }
 
+      // Menções (grupos): números viram JIDs; o texto/legenda deve conter @<número> de cada um
+      if (messageData.mentions?.length) {
+        content.mentions = messageData.mentions.map(mention =>
+          mention.includes('@') ? mention : `${mention.replace(/\D/g, '')}@s.whatsapp.net`
+        );
+      }
+
       const sentMessage = await session.socket.sendMessage(jid, content);
       session.lastActivity = new Date();
 
+      if (messageData.type === 'poll' && sentMessage) {
+        this.storePoll(tenantId, sentMessage);
+      }
+
+      await this.recordOutboundMessage(tenantId, jid, messageData, sentMessage?.key?.id);
+
       console.log({
         tenantId,
         to: messageData.to.substring(0, 6) + '***',
@@ -889,8 +2049,16 @@ export class WhatsAppService extends EventEmitter {
       };
 
     } catch (error: unknown) {
+      if (error instanceof TooManyRequestsError) {
+        throw error;
+      }
+      if (reservedQuota) {
+        this.quotaService?.releaseMessages(tenantId, reservedQuota);
+      }
+
       console.log(error, 'Failed to send message');
       const err = error as Error;
+      await this.recordOutboundMessage(tenantId, this.toJid(messageData.to), messageData, undefined, err.message);
       return {
         success: false,
         error: err.message
@@ -898,6 +2066,52 @@ export class WhatsAppService extends EventEmitter {
     }
   }
 
+  /**
+   * Preparar áudio para envio: mensagens de voz (PTT) são convertidas para OGG/Opus;
+   * duração e waveform são calculadas para o player do WhatsApp exibir as barras
+   */
+  private async prepareAudio(
+    tenantId: string,
+    buffer: Buffer,
+    mimetype: string,
+    ptt: boolean
+  ): Promise<{ buffer: Buffer; mimetype: string } & Partial<AudioAnalysis>> {
+    const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'audio-'));
+    const baseMimetype = mimetype.split(';')[0].trim().toLowerCase();
+
+    try {
+      const inputPath = path.join(workDir, 'input');
+      await fs.promises.writeFile(inputPath, buffer);
+
+      let output = { buffer, mimetype: baseMimetype };
+
+      // Formato desconhecido (ex: servidor respondeu application/octet-stream) também é convertido
+      if ((ptt || !baseMimetype.startsWith('audio/')) && baseMimetype !== 'audio/ogg') {
+        const oggPath = path.join(workDir, 'voice.ogg');
+        await convertToOggOpus(inputPath, oggPath, config.AUDIO_CONVERSION_TIMEOUT_MS);
+        output = { buffer: await fs.promises.readFile(oggPath), mimetype: 'audio/ogg' };
+      }
+
+      if (output.mimetype === 'audio/ogg') {
+        output.mimetype = 'audio/ogg; codecs=opus';
+      }
+
+      // Sem duração o WhatsApp ainda toca o áudio - não falhar o envio por causa da análise
+      try {
+        const analysis = await analyzeAudio(inputPath, path.join(workDir, 'audio.pcm'), config.AUDIO_CONVERSION_TIMEOUT_MS);
+        return { ...output, ...analysis };
+      } catch (error) {
+        console.log('⚠️ [Audio] Failed to compute duration/waveform', {
+          tenantId: tenantId.substring(0, 8) + '***',
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+        return output;
+      }
+    } finally {
+      fs.promises.rm(workDir, { recursive: true, force: true }).catch(() => undefined);
+    }
+  }
+
   private async sendMultipleMedia(
     session: WhatsAppSession,
     jid: string,
@@ -965,6 +2179,13 @@ export class WhatsAppService extends EventEmitter {
             messageIds.push(sentMessage.key.id);
           }
 
+          await this.recordOutboundMessage(tenantId, jid, {
+            ...messageData,
+            type: mediaType,
+            mediaUrl,
+            caption: content?.caption
+          }, sentMessage?.key?.id);
+
           // Pausa entre mídias para evitar spam
           if (i < mediaUrls.length - 1) {
             await new Promise(resolve => setTimeout(resolve, 1000));
@@ -973,6 +2194,11 @@ export class WhatsAppService extends EventEmitter {
         } catch (mediaError: unknown) {
           console.log(`❌ [Multiple Media] Failed to send media ${i + 1}:`, mediaError);
           console.log(`📎 [Multiple Media] Failed URL: ${mediaUrl.substring(0, 100)}...`);
+          await this.recordOutboundMessage(tenantId, jid, {
+            ...messageData,
+            type: mediaType,
+            mediaUrl
+          }, undefined, mediaError instanceof Error ? mediaError.message : 'Unknown error');
           // Continuar com as próximas mídias mesmo se uma falhar
         }
       }
@@ -1001,12 +2227,189 @@ export class WhatsAppService extends EventEmitter {
     }
   }
 
+  /**
+   * Verificar se números estão registrados no WhatsApp (com cache no NodeCache)
+   */
+  async checkNumbers(tenantId: string, phoneNumbers: string[]): Promise<NumberCheckResult[]> {
+    const session = this.sessions.get(tenantId);
+    if (!session || !session.socket || session.status !== 'connected') {
+      throw new Error('WhatsApp session not connected');
+    }
+
+    const socket = session.socket;
+    const normalized = Array.from(new Set(phoneNumbers.map(number => number.replace(/\D/g, '')).filter(Boolean)));
+    const results = new Map<string, NumberCheckResult>();
+    const pending: string[] = [];
+
+    for (const number of normalized) {
+      const cached = this.cache.get<NumberCheckResult>(`number_${tenantId}_${number}`);
+      if (cached) {
+        results.set(number, { ...cached, cached: true });
+      } else {
+        pending.push(number);
+      }
+    }
+
+    const setLookup = (number: string, lookup?: { jid: string; exists: unknown }) => {
+      results.set(number, {
+        phoneNumber: number,
+        isOnWhatsApp: !!lookup?.exists,
+        jid: lookup?.exists ? lookup.jid : undefined, // JID devolvido pelo WhatsApp (pode diferir do número consultado)
+        businessAccount: false,
+        cached: false
+      });
+    };
+
+    // Consultar o socket em lotes para não estourar o timeout das queries
+    for (let i = 0; i < pending.length; i += 50) {
+      const batch = pending.slice(i, i + 50);
+      const lookups = (await socket.onWhatsApp(...batch.map(number => `${number}@s.whatsapp.net`))) || [];
+      const unmatched: string[] = [];
+
+      for (const number of batch) {
+        const index = lookups.findIndex(item => item.jid?.split('@')[0] === number);
+        if (index >= 0) {
+          setLookup(number, lookups.splice(index, 1)[0]);
+        } else {
+          unmatched.push(number);
+        }
+      }
+
+      // A resposta só traz os números existentes, sem ordem, e com o JID canônico
+      // (ex: celular BR sem o nono dígito). Sobrando JIDs sem par, consultar um a um
+      if (lookups.length === 0) {
+        unmatched.forEach(number => setLookup(number));
+        continue;
+      }
+
+      await withConcurrencyLimit(unmatched, async (number) => {
+        const [lookup] = (await socket.onWhatsApp(`${number}@s.whatsapp.net`)) || [];
+        setLookup(number, lookup);
+      }, 5);
+    }
+
+    // Buscar perfil comercial apenas para números recém-consultados que existem
+    const registered = pending
+      .map(number => results.get(number)!)
+      .filter(result => result.isOnWhatsApp && result.jid);
+    const profileFailures = new Set<string>();
+
+    await withConcurrencyLimit(registered, async (result) => {
+      try {
+        const profile = await socket.getBusinessProfile(result.jid!);
+        if (profile) {
+          result.businessAccount = true;
+          result.businessProfile = {
+            description: profile.description || undefined,
+            category: profile.category || undefined,
+            email: profile.email || undefined,
+            website: profile.website || undefined,
+            address: profile.address || undefined
+          };
+        }
+      } catch (error) {
+        profileFailures.add(result.phoneNumber);
+        console.log('⚠️ [Check Number] Failed to fetch business profile', {
+          tenantId: tenantId.substring(0, 8) + '***',
+          phone: result.phoneNumber.substring(0, 6) + '***',
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }, 5);
+
+    // Sem o perfil comercial o resultado está incompleto - não cachear para tentar de novo
+    for (const number of pending) {
+      if (!profileFailures.has(number)) {
+        this.cache.set(`number_${tenantId}_${number}`, results.get(number));
+      }
+    }
+
+    console.log('🔎 [Check Number] Numbers checked', {
+      tenantId: tenantId.substring(0, 8) + '***',
+      requested: normalized.length,
+      fromCache: normalized.length - pending.length
+    });
+
+    return normalized.map(number => results.get(number)!);
+  }
+
+  /**
+   * Grupos dos quais o número conectado participa
+   */
+  async listGroups(tenantId: string): Promise<GroupInfo[]> {
+    const session = this.sessions.get(tenantId);
+    if (!session || !session.socket || session.status !== 'connected') {
+      throw new Error('WhatsApp session not connected');
+    }
+
+    const groups = await session.socket.groupFetchAllParticipating();
+
+    return Object.values(groups).map((metadata: GroupMetadata) => {
+      this.cache.set(`group_${tenantId}_${metadata.id}`, metadata);
+      return this.toGroupInfo(metadata);
+    });
+  }
+
+  /**
+   * Metadados de um grupo (assunto, participantes, admins) - null se o grupo não existir
+   * ou o número conectado não fizer parte dele
+   */
+  async getGroupMetadata(tenantId: string, groupId: string): Promise<GroupInfo | null> {
+    const session = this.sessions.get(tenantId);
+    if (!session || !session.socket || session.status !== 'connected') {
+      throw new Error('WhatsApp session not connected');
+    }
+
+    const jid = groupId.endsWith('@g.us') ? groupId : `${groupId}@g.us`;
+    const cacheKey = `group_${tenantId}_${jid}`;
+    let metadata = this.cache.get<GroupMetadata>(cacheKey);
+
+    if (!metadata) {
+      try {
+        metadata = await session.socket.groupMetadata(jid);
+      } catch (error) {
+        const statusCode = (error as Boom)?.output?.statusCode;
+        // 403/404: não participa do grupo ou grupo inexistente
+        if (statusCode === 403 || statusCode === 404) {
+          return null;
+        }
+        throw error;
+      }
+      this.cache.set(cacheKey, metadata);
+    }
+
+    return this.toGroupInfo(metadata);
+  }
+
+  private toGroupInfo(metadata: GroupMetadata): GroupInfo {
+    const participants: GroupParticipant[] = metadata.participants.map(participant => ({
+      jid: participant.id,
+      phoneNumber: participant.id.split('@')[0],
+      admin: participant.admin || null
+    }));
+
+    return {
+      id: metadata.id,
+      subject: metadata.subject,
+      description: metadata.desc || undefined,
+      owner: metadata.owner || undefined,
+      createdAt: metadata.creation ? new Date(metadata.creation * 1000).toISOString() : undefined,
+      size: metadata.size || participants.length,
+      announce: !!metadata.announce,
+      restrict: !!metadata.restrict,
+      participants,
+      admins: participants.filter(participant => participant.admin).map(participant => participant.jid)
+    };
+  }
+
   async getSessionStatus(tenantId: string): Promise<{
     connected: boolean;
     status: string;
     phoneNumber?: string;
     businessName?: string;
     qrCode?: string;
+    pairingCode?: string;
+    loginMethod?: 'qr' | 'pairing_code';
     sessionId?: string;
     lastActivity?: string;
   }> {
@@ -1019,8 +2422,8 @@ export class WhatsAppService extends EventEmitter {
       };
     }
 
-    // OPTIMIZED: Get QR from persistent service instead of cache
-    const persistentQR = this.persistentQRService.getCurrentQR(tenantId);
+    // OPTIMIZED: Get QR from persistent service instead of cache (não usado no login por código)
+    const persistentQR = session.pairingPhoneNumber ? null : this.persistentQRService.getCurrentQR(tenantId);
     
     // Update session QR if we have a fresh one from persistent service
     if (persistentQR && persistentQR !== session.qrCode) {
@@ -1039,6 +2442,8 @@ export class WhatsAppService extends EventEmitter {
       phoneNumber: session.phoneNumber || undefined,
       businessName: session.businessName || undefined,
       qrCode: session.qrCode || persistentQR || undefined,
+      pairingCode: session.pairingCode || undefined,
+      loginMethod: session.pairingPhoneNumber ? 'pairing_code' : 'qr',
       sessionId: session.sessionId,
       lastActivity: session.lastActivity.toISOString()
     };
@@ -1047,7 +2452,7 @@ export class WhatsAppService extends EventEmitter {
   /**
    * OPTIMIZED: Get current QR code for persistent service integration
    */
-  async getSessionQR(tenantId: string): Promise<{ qrCode?: string }> {
+  async getSessionQR(tenantId: string): Promise<{ qrCode?: string; pairingCode?: string }> {
     const session = this.sessions.get(tenantId);
     
     if (!session) {
@@ -1057,6 +2462,11 @@ export class WhatsAppService extends EventEmitter {
       return {};
     }
 
+    // Login por código de pareamento
+    if (session.pairingCode) {
+      return { pairingCode: session.pairingCode };
+    }
+
     // Return current QR from session
     if (session.qrCode) {
       console.log('✅ [QR Request] Returning existing QR', {
@@ -1082,21 +2492,196 @@ export class WhatsAppService extends EventEmitter {
   }
 
   /**
-   * OPTIMIZED: Ensure auth directory exists with error handling
+   * Consultar histórico persistido de mensagens do tenant
    */
-  private async ensureAuthDirectory(authDir: string): Promise<void> {
-    return new Promise((resolve, reject) => {
-      if (!fs.existsSync(authDir)) {
-        fs.mkdir(authDir, { recursive: true }, (error) => {
-          if (error) {
-            reject(error);
-          } else {
-            resolve();
-          }
-        });
-      } else {
-        resolve();
+  async getMessageHistory(tenantId: string, query: MessageHistoryQuery): Promise<MessageHistoryPage> {
+    return this.messageStore.getHistory(tenantId, query);
+  }
+
+  /**
+   * Consultar status de entrega de uma mensagem enviada
+   */
+  async getMessageStatus(tenantId: string, messageId: string): Promise<StoredMessage | null> {
+    return this.messageStore.getMessage(tenantId, 'outbound', messageId);
+  }
+
+  private async handleMessageUpdates(tenantId: string, updates: WAMessageUpdate[]): Promise<void> {
+    for (const { key, update } of updates) {
+      if (update.pollUpdates?.length) {
+        this.handlePollUpdates(tenantId, key, update.pollUpdates);
+      }
+
+      if (!key.fromMe || !key.id || update.status === undefined || update.status === null) {
+        continue;
+      }
+
+      const status = this.mapDeliveryStatus(update.status);
+      if (status) {
+        await this.applyDeliveryStatus(tenantId, key.id, status);
+      }
+    }
+  }
+
+  /**
+   * Votos em enquetes enviadas: um evento poll_vote por voto, com as opções atuais do votante
+   */
+  private handlePollUpdates(tenantId: string, key: WAMessageKey, pollUpdates: proto.IPollUpdate[]): void {
+    const poll = key.id ? this.polls.get(`${tenantId}_${key.id}`) : undefined;
+    if (!poll || !key.remoteJid) {
+      console.log('⚠️ [Interactive] Vote for unknown poll, skipping', {
+        tenantId: tenantId.substring(0, 8) + '***',
+        messageId: key.id?.substring(0, 8) + '***'
+      });
+      return;
+    }
+
+    for (const pollUpdate of pollUpdates) {
+      const voteKey = pollUpdate.pollUpdateMessageKey;
+      const votes = getAggregateVotesInPollMessage({ message: poll.message, pollUpdates: [pollUpdate] });
+
+      this.emitInteractiveReply(tenantId, key.remoteJid, {
+        id: voteKey?.id,
+        timestamp: Math.floor(toNumber(pollUpdate.senderTimestampMs || Date.now()) / 1000),
+        reply: {
+          kind: 'poll',
+          title: poll.message.pollCreationMessage?.name
+            || poll.message.pollCreationMessageV2?.name
+            || poll.message.pollCreationMessageV3?.name
+            || undefined,
+          selectedOptions: votes.filter(vote => vote.voters.length > 0).map(vote => vote.name),
+          messageId: key.id!
+        },
+        ...this.getGroupEventFields(key.remoteJid, voteKey?.participant)
+      });
+    }
+  }
+
+  private async handleMessageReceipts(tenantId: string, receipts: MessageUserReceiptUpdate[]): Promise<void> {
+    for (const { key, receipt } of receipts) {
+      if (!key.fromMe || !key.id) {
+        continue;
+      }
+
+      if (receipt.readTimestamp || receipt.playedTimestamp) {
+        await this.applyDeliveryStatus(tenantId, key.id, 'read', Number(receipt.readTimestamp || receipt.playedTimestamp) * 1000);
+      } else if (receipt.receiptTimestamp) {
+        await this.applyDeliveryStatus(tenantId, key.id, 'delivered', Number(receipt.receiptTimestamp) * 1000);
+      }
+    }
+  }
+
+  private mapDeliveryStatus(status: number): MessageDeliveryStatus | null {
+    switch (status) {
+      case proto.WebMessageInfo.Status.ERROR: return 'failed';
+      case proto.WebMessageInfo.Status.PENDING: return 'pending';
+      case proto.WebMessageInfo.Status.SERVER_ACK: return 'server_ack';
+      case proto.WebMessageInfo.Status.DELIVERY_ACK: return 'delivered';
+      case proto.WebMessageInfo.Status.READ:
+      case proto.WebMessageInfo.Status.PLAYED: return 'read';
+      default: return null;
+    }
+  }
+
+  private async applyDeliveryStatus(
+    tenantId: string,
+    messageId: string,
+    status: MessageDeliveryStatus,
+    timestamp: number = Date.now()
+  ): Promise<void> {
+    try {
+      const result = await this.messageStore.updateDeliveryStatus(tenantId, messageId, status, timestamp || Date.now());
+      if (!result) {
+        return;
       }
+
+      console.log('📬 [Status] Message status updated', {
+        tenantId: tenantId.substring(0, 8) + '***',
+        messageId: messageId.substring(0, 8) + '***',
+        from: result.previousStatus,
+        to: status
+      });
+
+      this.emit('message_status', tenantId, {
+        messageId,
+        to: result.message.phoneNumber,
+        status,
+        previousStatus: result.previousStatus,
+        timestamp: timestamp || Date.now()
+      });
+    } catch (error) {
+      console.log('❌ [Status] Failed to update message status', {
+        tenantId: tenantId.substring(0, 8) + '***',
+        messageId: messageId.substring(0, 8) + '***',
+        status,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  private toJid(to: string): string {
+    // Já é um JID (pode ser @lid para WhatsApp Business ou @s.whatsapp.net)
+    return to.includes('@') ? to : `${to}@s.whatsapp.net`;
+  }
+
+  private getMessageType(message: proto.IWebMessageInfo): string {
+    const content = message.message;
+    if (!content) return 'unknown';
+    if (content.conversation || content.extendedTextMessage) return 'text';
+    if (content.audioMessage) return 'audio';
+    if (content.imageMessage) return 'image';
+    if (content.videoMessage) return 'video';
+    if (content.documentMessage || content.documentWithCaptionMessage) return 'document';
+    if (content.stickerMessage) return 'sticker';
+    if (content.locationMessage || content.liveLocationMessage) return 'location';
+    if (content.contactMessage || content.contactsArrayMessage) return 'contact';
+    return Object.keys(content)[0]?.replace(/Message$/, '') || 'unknown';
+  }
+
+  private recordInboundMessage(tenantId: string, message: proto.IWebMessageInfo, messageText: string): void {
+    const remoteJid = message.key.remoteJid!;
+    const content = message.message;
+
+    void this.messageStore.record({
+      id: message.key.id!,
+      tenantId,
+      direction: 'inbound',
+      phoneNumber: remoteJid.split('@')[0],
+      remoteJid,
+      type: this.getMessageType(message),
+      text: messageText || undefined,
+      caption: content?.imageMessage?.caption || content?.videoMessage?.caption || content?.documentMessage?.caption || undefined,
+      fileName: content?.documentMessage?.fileName || undefined,
+      status: 'received',
+      timestamp: Number(message.messageTimestamp || 0) * 1000 || Date.now()
+    });
+  }
+
+  /**
+   * Aguardado antes de devolver o messageId: recibos de entrega que chegam logo em seguida
+   * precisam encontrar a mensagem gravada (record nunca lança)
+   */
+  private async recordOutboundMessage(
+    tenantId: string,
+    jid: string,
+    messageData: MessageData,
+    messageId?: string,
+    error?: string
+  ): Promise<void> {
+    await this.messageStore.record({
+      id: messageId || `failed_${randomUUID()}`,
+      tenantId,
+      direction: 'outbound',
+      phoneNumber: jid.split('@')[0],
+      remoteJid: jid,
+      type: messageData.type || 'text',
+      text: messageData.message,
+      mediaUrl: messageData.mediaUrl,
+      caption: messageData.caption,
+      fileName: messageData.fileName,
+      // Mensagem aceita pelo socket começa como pending; acks do WhatsApp avançam o status
+      status: error ? 'failed' : 'pending',
+      error,
+      timestamp: Date.now()
     });
   }
 
@@ -1140,11 +2725,8 @@ export class WhatsAppService extends EventEmitter {
 
   private async clearSessionData(tenantId: string): Promise<void> {
     try {
-      const sessionPath = path.join(this.sessionDir, tenantId);
-      if (fs.existsSync(sessionPath)) {
-        fs.rmSync(sessionPath, { recursive: true, force: true });
-        console.log({ tenantId, path: sessionPath }, 'Session data cleared');
-      }
+      await this.authStateStore.clear(tenantId);
+      console.log({ tenantId, store: this.authStateStore.name }, 'Session data cleared');
     } catch (error: unknown) {
       console.log(error, 'Failed to clear session data');
     }
@@ -1168,6 +2750,9 @@ export class WhatsAppService extends EventEmitter {
     
     // Remover filas
     keysToDelete.forEach(key => this.messageQueues.delete(key));
+    if (keysToDelete.length > 0) {
+      this.persistMessageQueues();
+    }
     
     if (keysToDelete.length > 0) {
       console.log('🧹 [Cleanup] Cleared message queues', {
@@ -1187,6 +2772,66 @@ export class WhatsAppService extends EventEmitter {
     console.log('All sessions disconnected');
   }
 
+  /**
+   * Fechar a conexão mantendo as credenciais (ex: tenant suspenso) - sem logout
+   * Retorna false se não havia sessão
+   */
+  async closeSession(tenantId: string, reason: string): Promise<boolean> {
+    const session = this.endSession(tenantId);
+    if (!session) {
+      return false;
+    }
+    this.cache.del(`qr_${tenantId}`);
+
+    if (session.status === 'connected') {
+      this.emit('disconnected', tenantId, reason);
+    }
+    this.emitSessionEvent(tenantId, 'disconnected', { reason, loggedOut: false });
+
+    console.log('🔌 [Session] Session closed (credentials kept)', {
+      tenantId: tenantId.substring(0, 8) + '***',
+      reason
+    });
+
+    return true;
+  }
+
+  /**
+   * Fechar sockets sem logout e sem apagar credenciais (shutdown/deploy)
+   * As sessões voltam sozinhas no próximo boot via restoreSessions
+   */
+  async closeAllSessions(): Promise<void> {
+    for (const tenantId of Array.from(this.sessions.keys())) {
+      this.endSession(tenantId);
+    }
+
+    console.log('All sessions closed (credentials kept for restore)');
+  }
+
+  private endSession(tenantId: string): WhatsAppSession | null {
+    const session = this.sessions.get(tenantId);
+    if (!session) {
+      return null;
+    }
+
+    const timer = this.reconnectTimers.get(tenantId);
+    if (timer) {
+      clearTimeout(timer);
+      this.reconnectTimers.delete(tenantId);
+    }
+
+    // Remover antes de fechar para o 'connection.update' (close) não agendar reconexão
+    this.sessions.delete(tenantId);
+
+    try {
+      session.socket?.end(undefined);
+    } catch (error: unknown) {
+      console.log(error, 'Error closing socket');
+    }
+
+    return session;
+  }
+
   getActiveSessions(): Array<{
     tenantId: string;
     status: string;
@@ -0,0 +1,41 @@
+import { Pool } from 'pg';
+import { config } from '../config/config';
+
+let pool: Pool | null = null;
+
+/**
+ * Retorna o pool compartilhado do Postgres (criado sob demanda a partir de DATABASE_URL)
+ */
+export function getDatabasePool(): Pool {
+  if (!config.DATABASE_URL) {
+    throw new Error('DATABASE_URL not configured');
+  }
+
+  if (!pool) {
+    pool = new Pool({
+      connectionString: config.DATABASE_URL,
+      max: 10,
+      idleTimeoutMillis: 30000
+    });
+
+    pool.on('error', (error) => {
+      console.log('❌ [Database] Idle client error', { error: error.message });
+    });
+  }
+
+  return pool;
+}
+
+/**
+ * Indica se existe um banco configurado para persistência
+ */
+export function isDatabaseConfigured(): boolean {
+  return !!config.DATABASE_URL;
+}
+
+export async function closeDatabasePool(): Promise<void> {
+  if (pool) {
+    await pool.end();
+    pool = null;
+  }
+}
@@ -0,0 +1,132 @@
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import { config } from '../config/config';
+
+export interface CommandResult {
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * Executar binário externo (ffmpeg, whisper.cpp) com timeout
+ * Rejeita com o final do stderr quando o processo termina com erro
+ */
+export function runCommand(command: string, args: string[], timeoutMs: number = 60000): Promise<CommandResult> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+    let stdout = '';
+    let stderr = '';
+    let timedOut = false;
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      child.kill('SIGKILL');
+    }, timeoutMs);
+
+    child.stdout.on('data', (chunk) => { stdout += chunk.toString(); });
+    child.stderr.on('data', (chunk) => { stderr += chunk.toString(); });
+
+    child.on('error', (error) => {
+      clearTimeout(timer);
+      reject(new Error(`Failed to start ${command}: ${error.message}`));
+    });
+
+    child.on('close', (code) => {
+      clearTimeout(timer);
+
+      if (timedOut) {
+        reject(new Error(`${command} timed out after ${timeoutMs}ms`));
+      } else if (code !== 0) {
+        reject(new Error(`${command} exited with code ${code}: ${stderr.trim().slice(-500)}`));
+      } else {
+        resolve({ stdout, stderr });
+      }
+    });
+  });
+}
+
+/**
+ * Converter áudio para WAV PCM 16kHz mono (formato exigido pelo whisper.cpp)
+ */
+export async function convertToWav16k(inputPath: string, outputPath: string, timeoutMs?: number): Promise<void> {
+  await runCommand(config.FFMPEG_PATH, [
+    '-hide_banner',
+    '-loglevel', 'error',
+    '-y',
+    '-i', inputPath,
+    '-ar', '16000',
+    '-ac', '1',
+    '-c:a', 'pcm_s16le',
+    outputPath
+  ], timeoutMs);
+}
+
+/**
+ * Converter áudio (MP3, WAV, M4A...) para OGG/Opus mono - formato das mensagens de voz (PTT) do WhatsApp
+ */
+export async function convertToOggOpus(inputPath: string, outputPath: string, timeoutMs?: number): Promise<void> {
+  await runCommand(config.FFMPEG_PATH, [
+    '-hide_banner',
+    '-loglevel', 'error',
+    '-y',
+    '-i', inputPath,
+    '-vn',
+    '-ac', '1',
+    '-ar', '48000',
+    '-c:a', 'libopus',
+    '-b:a', '32k',
+    '-application', 'voip',
+    '-f', 'ogg',
+    outputPath
+  ], timeoutMs);
+}
+
+export interface AudioAnalysis {
+  seconds: number;
+  waveform: Uint8Array; // 64 barras de 0 a 100 (mesmo formato gerado pelo app do WhatsApp)
+}
+
+const WAVEFORM_SAMPLE_RATE = 8000;
+const WAVEFORM_BARS = 64;
+
+/**
+ * Calcular duração e waveform decodificando o áudio para PCM 16-bit mono
+ * pcmPath é um arquivo temporário de trabalho (o chamador remove)
+ */
+export async function analyzeAudio(inputPath: string, pcmPath: string, timeoutMs?: number): Promise<AudioAnalysis> {
+  await runCommand(config.FFMPEG_PATH, [
+    '-hide_banner',
+    '-loglevel', 'error',
+    '-y',
+    '-i', inputPath,
+    '-vn',
+    '-ac', '1',
+    '-ar', String(WAVEFORM_SAMPLE_RATE),
+    '-f', 's16le',
+    '-c:a', 'pcm_s16le',
+    pcmPath
+  ], timeoutMs);
+
+  const pcm = await fs.promises.readFile(pcmPath);
+  const sampleCount = Math.floor(pcm.length / 2);
+  const samplesPerBar = Math.max(1, Math.floor(sampleCount / WAVEFORM_BARS));
+
+  // Amplitude média de cada barra, normalizada pelo pico
+  const levels: number[] = [];
+  for (let bar = 0; bar < WAVEFORM_BARS; bar++) {
+    const start = bar * samplesPerBar;
+    const end = Math.min(sampleCount, start + samplesPerBar);
+    let sum = 0;
+    for (let i = start; i < end; i++) {
+      sum += Math.abs(pcm.readInt16LE(i * 2));
+    }
+    levels.push(end > start ? sum / (end - start) : 0);
+  }
+
+  const peak = Math.max(...levels);
+
+  return {
+    seconds: Math.max(1, Math.round(sampleCount / WAVEFORM_SAMPLE_RATE)),
+    waveform: Uint8Array.from(levels, level => peak ? Math.round((level / peak) * 100) : 0)
+  };
+}
@@ -0,0 +1,93 @@
+import crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import jwt from 'jsonwebtoken';
+
+const PROJECT_ID = 'test-project';
+const ISSUER = `https://securetoken.google.com/${PROJECT_ID}`;
+
+describe('verifyFirebaseIdToken', () => {
+  const signingKey = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const otherKey = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  let firebaseAuth: typeof import('./firebase-auth');
+
+  const sign = (
+    payload: Record<string, unknown> = {},
+    options: jwt.SignOptions = {},
+    privateKey: crypto.KeyObject = signingKey.privateKey
+  ) =>
+    jwt.sign({ firebase: { sign_in_provider: 'password' }, ...payload }, privateKey, {
+      algorithm: 'RS256',
+      keyid: 'key-1',
+      audience: PROJECT_ID,
+      issuer: ISSUER,
+      subject: 'user-123',
+      expiresIn: '1h',
+      ...options
+    });
+
+  beforeAll(() => {
+    const jwksFile = path.join(process.env.DATA_DIR!, 'jwks.json');
+    fs.writeFileSync(jwksFile, JSON.stringify({
+      keys: [{ ...signingKey.publicKey.export({ format: 'jwk' }), kid: 'key-1', alg: 'RS256', use: 'sig' }]
+    }));
+
+    // config é lido no import do módulo
+    process.env.FIREBASE_PROJECT_ID = PROJECT_ID;
+    process.env.FIREBASE_JWKS_FILE = jwksFile;
+    jest.isolateModules(() => {
+      firebaseAuth = require('./firebase-auth');
+    });
+  });
+
+  afterAll(() => {
+    delete process.env.FIREBASE_PROJECT_ID;
+    delete process.env.FIREBASE_JWKS_FILE;
+  });
+
+  it('accepts a valid token with least-privilege default permissions', async () => {
+    const token = sign();
+
+    expect(firebaseAuth.isFirebaseIdToken(token)).toBe(true);
+    await expect(firebaseAuth.verifyFirebaseIdToken(token)).resolves.toEqual({
+      uid: 'user-123',
+      tenantId: 'user-123',
+      permissions: ['messages:send', 'messages:read', 'sessions:read', 'sessions:write']
+    });
+  });
+
+  it('uses the tenantId and permissions claims when present', async () => {
+    const token = sign({ tenantId: 'tenant-a', permissions: 'messages:read sessions:write' });
+
+    await expect(firebaseAuth.verifyFirebaseIdToken(token)).resolves.toMatchObject({
+      tenantId: 'tenant-a',
+      permissions: ['messages:read', 'sessions:write']
+    });
+  });
+
+  it('rejects a token for another project', async () => {
+    await expect(firebaseAuth.verifyFirebaseIdToken(sign({}, { audience: 'other-project' })))
+      .rejects.toThrow(/audience invalid/);
+  });
+
+  it('rejects a token from another issuer', async () => {
+    await expect(firebaseAuth.verifyFirebaseIdToken(sign({}, { issuer: 'https://securetoken.google.com/other-project' })))
+      .rejects.toThrow(/issuer invalid/);
+  });
+
+  it('rejects an expired token', async () => {
+    const token = sign({ iat: Math.floor(Date.now() / 1000) - 7200 }, { expiresIn: '1h' });
+
+    await expect(firebaseAuth.verifyFirebaseIdToken(token)).rejects.toMatchObject({ name: 'TokenExpiredError' });
+  });
+
+  it('rejects a token signed with an unknown kid', async () => {
+    await expect(firebaseAuth.verifyFirebaseIdToken(sign({}, { keyid: 'key-2' }, otherKey.privateKey)))
+      .rejects.toThrow('Firebase ID token signed with unknown key');
+  });
+
+  it('rejects a token signed by another key under a known kid', async () => {
+    await expect(firebaseAuth.verifyFirebaseIdToken(sign({}, {}, otherKey.privateKey)))
+      .rejects.toThrow(/invalid signature/);
+  });
+});
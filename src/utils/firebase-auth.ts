@@ -0,0 +1,178 @@
+import crypto from 'crypto';
+import * as fs from 'fs';
+import jwt from 'jsonwebtoken';
+import { config } from '../config/config';
+
+const FIREBASE_ISSUER_PREFIX = 'https://securetoken.google.com/';
+// Chave desconhecida (rotação do Google) força nova busca, no máximo uma vez por minuto
+const UNKNOWN_KID_REFRESH_INTERVAL_MS = 60 * 1000;
+
+export interface FirebaseIdentity {
+  uid: string;
+  tenantId: string;
+  permissions: string[];
+}
+
+interface JwksCache {
+  keys: Map<string, crypto.KeyObject>;
+  expiresAt: number;
+  fetchedAt: number;
+}
+
+let jwksCache: JwksCache | null = null;
+let jwksRefresh: Promise<JwksCache> | null = null;
+let missingProjectWarned = false;
+
+/**
+ * Token com cara de Firebase ID Token (claim firebase ou issuer securetoken)
+ * Só decodifica - a assinatura é verificada em verifyFirebaseIdToken
+ */
+export function isFirebaseIdToken(token: string): boolean {
+  const decoded = jwt.decode(token) as any;
+  return !!decoded && typeof decoded === 'object' && (
+    !!decoded.firebase || (typeof decoded.iss === 'string' && decoded.iss.startsWith(FIREBASE_ISSUER_PREFIX))
+  );
+}
+
+/**
+ * Verificar o Firebase ID Token contra o JWKS do Google (assinatura RS256, aud, iss, exp)
+ * Retorna null se FIREBASE_PROJECT_ID não estiver configurado; falhas de verificação lançam os erros do jsonwebtoken
+ */
+export async function verifyFirebaseIdToken(token: string): Promise<FirebaseIdentity | null> {
+  if (!config.FIREBASE_PROJECT_ID) {
+    if (!missingProjectWarned) {
+      missingProjectWarned = true;
+      console.log('⚠️ [Firebase Auth] FIREBASE_PROJECT_ID not set, Firebase ID tokens are rejected');
+    }
+    return null;
+  }
+
+  const decoded = jwt.decode(token, { complete: true });
+  const kid = decoded?.header?.kid;
+  if (!kid) {
+    throw new jwt.JsonWebTokenError('Firebase ID token has no kid');
+  }
+
+  const key = await getSigningKey(kid);
+  if (!key) {
+    throw new jwt.JsonWebTokenError('Firebase ID token signed with unknown key');
+  }
+
+  const payload = jwt.verify(token, key, {
+    algorithms: ['RS256'],
+    audience: config.FIREBASE_PROJECT_ID,
+    issuer: `${FIREBASE_ISSUER_PREFIX}${config.FIREBASE_PROJECT_ID}`,
+    clockTolerance: 5
+  }) as jwt.JwtPayload;
+
+  if (!payload.sub || typeof payload.sub !== 'string' || payload.sub.length > 128) {
+    throw new jwt.JsonWebTokenError('Firebase ID token has invalid sub');
+  }
+
+  if (typeof payload.auth_time === 'number' && payload.auth_time * 1000 > Date.now() + 5000) {
+    throw new jwt.JsonWebTokenError('Firebase ID token auth_time is in the future');
+  }
+
+  return {
+    uid: payload.sub,
+    // Claim customizado tenantId (Admin SDK) ou o próprio UID como tenant
+    tenantId: typeof payload.tenantId === 'string' && payload.tenantId ? payload.tenantId : payload.sub,
+    permissions: mapPermissions(payload[config.FIREBASE_PERMISSIONS_CLAIM])
+  };
+}
+
+/**
+ * Claim de permissões (array ou string separada por espaço/vírgula) para os nomes usados em validateTenantAccess
+ * Sem o claim, vale FIREBASE_DEFAULT_PERMISSIONS
+ */
+function mapPermissions(claim: unknown): string[] {
+  const values = Array.isArray(claim)
+    ? claim
+    : typeof claim === 'string'
+      ? claim.split(/[\s,]+/)
+      : null;
+
+  if (!values) {
+    return splitPermissions(config.FIREBASE_DEFAULT_PERMISSIONS);
+  }
+
+  return values
+    .filter((value): value is string => typeof value === 'string')
+    .map(value => value.trim())
+    .filter(Boolean);
+}
+
+function splitPermissions(value: string): string[] {
+  return value.split(',').map(permission => permission.trim()).filter(Boolean);
+}
+
+async function getSigningKey(kid: string): Promise<crypto.KeyObject | null> {
+  const now = Date.now();
+
+  if (!jwksCache || jwksCache.expiresAt <= now) {
+    await refreshJwks();
+  } else if (!jwksCache.keys.has(kid) && now - jwksCache.fetchedAt >= UNKNOWN_KID_REFRESH_INTERVAL_MS) {
+    await refreshJwks();
+  }
+
+  return jwksCache?.keys.get(kid) || null;
+}
+
+// Uma única busca em andamento; se falhar, mantém o cache anterior (mesmo expirado)
+async function refreshJwks(): Promise<void> {
+  if (!jwksRefresh) {
+    jwksRefresh = loadJwks().finally(() => {
+      jwksRefresh = null;
+    });
+  }
+
+  try {
+    jwksCache = await jwksRefresh;
+  } catch (error) {
+    console.log('❌ [Firebase Auth] Failed to load JWKS', {
+      source: config.FIREBASE_JWKS_FILE || config.FIREBASE_JWKS_URL,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+
+    if (!jwksCache) {
+      throw error;
+    }
+  }
+}
+
+async function loadJwks(): Promise<JwksCache> {
+  let body: any;
+  let maxAgeSeconds = config.FIREBASE_JWKS_CACHE_SECONDS;
+
+  if (config.FIREBASE_JWKS_FILE) {
+    body = JSON.parse(await fs.promises.readFile(config.FIREBASE_JWKS_FILE, 'utf8'));
+  } else {
+    const response = await fetch(config.FIREBASE_JWKS_URL, { signal: AbortSignal.timeout(10000) });
+    if (!response.ok) {
+      throw new Error(`JWKS request failed with status ${response.status}`);
+    }
+    body = await response.json();
+
+    // Respeitar o Cache-Control do Google (max-age acompanha a rotação das chaves)
+    const maxAge = /max-age=(\d+)/.exec(response.headers.get('cache-control') || '');
+    if (maxAge) {
+      maxAgeSeconds = Number(maxAge[1]);
+    }
+  }
+
+  if (!body || !Array.isArray(body.keys)) {
+    throw new Error('Invalid JWKS document');
+  }
+
+  const keys = new Map<string, crypto.KeyObject>();
+  for (const jwk of body.keys) {
+    if (jwk && jwk.kid && jwk.kty === 'RSA') {
+      keys.set(jwk.kid, crypto.createPublicKey({ key: jwk, format: 'jwk' }));
+    }
+  }
+
+  const now = Date.now();
+  console.log('🔑 [Firebase Auth] JWKS loaded', { keys: keys.size, maxAgeSeconds });
+
+  return { keys, fetchedAt: now, expiresAt: now + maxAgeSeconds * 1000 };
+}
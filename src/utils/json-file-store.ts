@@ -0,0 +1,81 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { config } from '../config/config';
+
+/**
+ * Persistência simples em arquivo JSON (escrita atômica via arquivo temporário + rename)
+ * Usado pelos serviços que precisam sobreviver a restarts sem depender de banco
+ */
+export class JsonFileStore<T> {
+  private filePath: string;
+  private writeChain: Promise<void> = Promise.resolve();
+  private saveTimer: NodeJS.Timeout | null = null;
+
+  constructor(fileName: string, baseDir: string = config.DATA_DIR) {
+    this.filePath = path.join(baseDir, fileName);
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+  }
+
+  /**
+   * Ler o conteúdo atual (síncrono - usado na inicialização dos serviços)
+   */
+  read(defaultValue: T, reviver?: (key: string, value: any) => any): T {
+    try {
+      if (!fs.existsSync(this.filePath)) {
+        return defaultValue;
+      }
+      return JSON.parse(fs.readFileSync(this.filePath, 'utf8'), reviver) as T;
+    } catch (error) {
+      console.log(`⚠️ [JsonFileStore] Failed to read ${this.filePath}, using default`, {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return defaultValue;
+    }
+  }
+
+  /**
+   * Gravar o conteúdo - escritas são serializadas para não intercalar
+   */
+  write(data: T, replacer?: (key: string, value: any) => any): Promise<void> {
+    const content = JSON.stringify(data, replacer);
+    const tempPath = `${this.filePath}.tmp`;
+
+    this.writeChain = this.writeChain
+      .catch(() => undefined)
+      .then(async () => {
+        await fs.promises.writeFile(tempPath, content, 'utf8');
+        await fs.promises.rename(tempPath, this.filePath);
+      });
+
+    return this.writeChain;
+  }
+
+  /**
+   * Agendar gravação agrupando alterações próximas (debounce)
+   */
+  scheduleWrite(getData: () => T, delayMs: number = 200, replacer?: (key: string, value: any) => any): void {
+    if (this.saveTimer) {
+      return;
+    }
+
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.write(getData(), replacer).catch((error) => {
+        console.log(`❌ [JsonFileStore] Failed to write ${this.filePath}`, {
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      });
+    }, delayMs);
+  }
+
+  /**
+   * Gravar imediatamente qualquer alteração pendente (usado no shutdown)
+   */
+  async flush(getData: () => T, replacer?: (key: string, value: any) => any): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    await this.write(getData(), replacer);
+  }
+}
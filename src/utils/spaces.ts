@@ -0,0 +1,34 @@
+import { S3Client } from '@aws-sdk/client-s3';
+import { config } from '../config/config';
+
+let client: S3Client | null = null;
+
+/**
+ * Indica se as credenciais do DO Spaces (S3-compatível) estão completas
+ */
+export function isSpacesConfigured(): boolean {
+  return !!(config.DO_SPACES_BUCKET && config.DO_SPACES_ENDPOINT && config.DO_SPACES_ACCESS_KEY && config.DO_SPACES_SECRET_KEY);
+}
+
+/**
+ * Retorna o client S3 compartilhado para o DO Spaces (criado sob demanda a partir de DO_SPACES_*)
+ */
+export function getSpacesClient(): S3Client {
+  if (!isSpacesConfigured()) {
+    throw new Error('DO Spaces not configured (DO_SPACES_ENDPOINT, DO_SPACES_ACCESS_KEY, DO_SPACES_SECRET_KEY and DO_SPACES_BUCKET)');
+  }
+
+  if (!client) {
+    client = new S3Client({
+      endpoint: config.DO_SPACES_ENDPOINT,
+      // Spaces ignora a região, mas o SDK exige uma (ex: nyc3.digitaloceanspaces.com -> nyc3)
+      region: new URL(config.DO_SPACES_ENDPOINT!).hostname.split('.')[0] || 'us-east-1',
+      credentials: {
+        accessKeyId: config.DO_SPACES_ACCESS_KEY!,
+        secretAccessKey: config.DO_SPACES_SECRET_KEY!
+      }
+    });
+  }
+
+  return client;
+}
@@ -0,0 +1,48 @@
+import { signWebhookPayload, parseSignatureHeader, verifyWebhookSignature } from './webhook-signature';
+
+describe('webhook-signature', () => {
+  const body = JSON.stringify({ event: 'message', data: { id: 'ABC' } });
+  const now = 1760000000;
+
+  it('signs and verifies the exact body', () => {
+    const header = signWebhookPayload(body, 'secret-a', now);
+
+    expect(header).toMatch(/^t=1760000000,v1=[0-9a-f]{64}$/);
+    expect(verifyWebhookSignature(body, header, 'secret-a', 300, now)).toBe(true);
+  });
+
+  it('rejects a tampered body or a wrong secret', () => {
+    const header = signWebhookPayload(body, 'secret-a', now);
+
+    expect(verifyWebhookSignature(body + ' ', header, 'secret-a', 300, now)).toBe(false);
+    expect(verifyWebhookSignature(body, header, 'secret-b', 300, now)).toBe(false);
+  });
+
+  it('rejects timestamps outside the tolerance', () => {
+    const header = signWebhookPayload(body, 'secret-a', now - 301);
+
+    expect(verifyWebhookSignature(body, header, 'secret-a', 300, now)).toBe(false);
+    expect(verifyWebhookSignature(body, header, 'secret-a', 600, now)).toBe(true);
+  });
+
+  it('rejects missing or malformed headers', () => {
+    expect(verifyWebhookSignature(body, undefined, 'secret-a', 300, now)).toBe(false);
+    expect(verifyWebhookSignature(body, 'v1=abc', 'secret-a', 300, now)).toBe(false);
+    expect(verifyWebhookSignature(body, `t=${now},v1=zz`, 'secret-a', 300, now)).toBe(false);
+  });
+
+  it('signs with every active secret during rotation', () => {
+    const header = signWebhookPayload(body, ['secret-new', 'secret-old'], now);
+
+    expect(parseSignatureHeader(header)?.signatures).toHaveLength(2);
+    expect(verifyWebhookSignature(body, header, 'secret-new', 300, now)).toBe(true);
+    expect(verifyWebhookSignature(body, header, 'secret-old', 300, now)).toBe(true);
+    expect(verifyWebhookSignature(body, header, 'secret-other', 300, now)).toBe(false);
+  });
+
+  it('accepts a consumer that still holds both secrets', () => {
+    const header = signWebhookPayload(body, 'secret-new', now);
+
+    expect(verifyWebhookSignature(body, header, ['secret-old', 'secret-new'], 300, now)).toBe(true);
+  });
+});
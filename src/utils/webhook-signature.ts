@@ -0,0 +1,104 @@
+import crypto from 'crypto';
+
+/**
+ * Assinatura versionada de webhooks
+ *
+ * Header: X-Webhook-Signature: t=<unix seconds>,v1=<hex>[,v1=<hex>...]
+ * v1 = HMAC-SHA256(secret, `${t}.${body}`)
+ *
+ * Durante a rotação de secret o payload é assinado com todos os secrets ativos
+ * (um v1 por secret), então o consumidor pode validar com o secret antigo ou o novo.
+ * Este arquivo não depende do resto do serviço e pode ser copiado pelos consumidores.
+ */
+
+export const SIGNATURE_VERSION = 'v1';
+export const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+export interface ParsedSignatureHeader {
+  timestamp: number;
+  signatures: string[];
+}
+
+function computeSignature(body: string, secret: string, timestamp: number): string {
+  return crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`, 'utf8')
+    .digest('hex');
+}
+
+/**
+ * Gerar o valor do header de assinatura para o corpo exato que será enviado
+ */
+export function signWebhookPayload(
+  body: string,
+  secrets: string | string[],
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string {
+  const secretList = Array.isArray(secrets) ? secrets : [secrets];
+  const signatures = secretList.map(secret => `${SIGNATURE_VERSION}=${computeSignature(body, secret, timestamp)}`);
+
+  return [`t=${timestamp}`, ...signatures].join(',');
+}
+
+export function parseSignatureHeader(header: string): ParsedSignatureHeader | null {
+  let timestamp: number | null = null;
+  const signatures: string[] = [];
+
+  for (const part of header.split(',')) {
+    const [key, value] = part.trim().split('=', 2);
+    if (!key || !value) continue;
+
+    if (key === 't') {
+      timestamp = Number(value);
+    } else if (key === SIGNATURE_VERSION) {
+      signatures.push(value);
+    }
+  }
+
+  if (timestamp === null || !Number.isFinite(timestamp) || signatures.length === 0) {
+    return null;
+  }
+
+  return { timestamp, signatures };
+}
+
+/**
+ * Verificar assinatura recebida (uso pelos consumidores do webhook)
+ *
+ * @param body Corpo bruto da requisição (string, antes do JSON.parse)
+ * @param header Valor do header X-Webhook-Signature
+ * @param secrets Secret (ou secrets, durante rotação) configurados no consumidor
+ * @param toleranceSeconds Diferença máxima aceita entre o timestamp assinado e o relógio local
+ */
+export function verifyWebhookSignature(
+  body: string,
+  header: string | undefined | null,
+  secrets: string | string[],
+  toleranceSeconds: number = DEFAULT_SIGNATURE_TOLERANCE_SECONDS,
+  now: number = Math.floor(Date.now() / 1000)
+): boolean {
+  if (!header) {
+    return false;
+  }
+
+  const parsed = parseSignatureHeader(header);
+  if (!parsed) {
+    return false;
+  }
+
+  // Proteção contra replay: requisições capturadas expiram
+  if (Math.abs(now - parsed.timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const secretList = Array.isArray(secrets) ? secrets : [secrets];
+
+  return secretList.some(secret => {
+    const expected = Buffer.from(computeSignature(body, secret, parsed.timestamp), 'hex');
+
+    return parsed.signatures.some(signature => {
+      const received = Buffer.from(signature, 'hex');
+      return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+    });
+  });
+}